@@ -187,3 +187,265 @@ CREATE TABLE IF NOT EXISTS workflow_executions (
 CREATE INDEX IF NOT EXISTS idx_workflow_executions_user_id ON workflow_executions(user_id);
 CREATE INDEX IF NOT EXISTS idx_workflow_executions_status ON workflow_executions(status);
 CREATE INDEX IF NOT EXISTS idx_workflow_executions_created_at ON workflow_executions(created_at);
+
+-- Durable execution state so workflows can be inspected and resumed after a restart
+ALTER TABLE workflow_executions ADD COLUMN IF NOT EXISTS definition_version INTEGER DEFAULT 1;
+ALTER TABLE workflow_executions ADD COLUMN IF NOT EXISTS current_step INTEGER DEFAULT 0;
+ALTER TABLE workflow_executions ADD COLUMN IF NOT EXISTS steps JSONB DEFAULT '[]';
+ALTER TABLE workflow_executions ADD COLUMN IF NOT EXISTS error TEXT;
+ALTER TABLE workflow_executions ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP;
+
+-- Workflow definitions table (declarative, team-registered agent workflows)
+CREATE TABLE IF NOT EXISTS workflow_definitions (
+    id VARCHAR(100) PRIMARY KEY,
+    name VARCHAR(255) NOT NULL,
+    description TEXT,
+    version INTEGER NOT NULL DEFAULT 1,
+    steps JSONB NOT NULL,
+    created_by VARCHAR(255),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Human approval requests raised by workflow approval steps
+CREATE TABLE IF NOT EXISTS workflow_approvals (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    workflow_id UUID NOT NULL,
+    step_id VARCHAR(100) NOT NULL,
+    prompt TEXT NOT NULL,
+    approvers JSONB DEFAULT '[]',
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'timed_out', 'cancelled')),
+    default_outcome VARCHAR(20) NOT NULL CHECK (default_outcome IN ('approved', 'rejected')),
+    requested_by VARCHAR(255),
+    decided_by VARCHAR(255),
+    justification TEXT,
+    requested_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    decided_at TIMESTAMP WITH TIME ZONE,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_workflow_approvals_workflow ON workflow_approvals(workflow_id, step_id);
+CREATE INDEX IF NOT EXISTS idx_workflow_approvals_status ON workflow_approvals(status);
+
+-- Per-hazard response playbooks maintained by operations staff (override built-ins by ID)
+CREATE TABLE IF NOT EXISTS response_playbooks (
+    id VARCHAR(100) PRIMARY KEY,
+    name VARCHAR(255) NOT NULL,
+    description TEXT,
+    version INTEGER NOT NULL DEFAULT 1,
+    alert_types JSONB NOT NULL DEFAULT '[]',
+    severities JSONB NOT NULL DEFAULT '[]',
+    steps JSONB,
+    recipients JSONB NOT NULL DEFAULT '{}',
+    event_type VARCHAR(50),
+    message_templates JSONB NOT NULL DEFAULT '{}',
+    escalation_rules JSONB NOT NULL DEFAULT '[]',
+    enabled BOOLEAN NOT NULL DEFAULT true,
+    created_by VARCHAR(255),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Acknowledgement and escalation state for unacknowledged alerts
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS acknowledged_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS acknowledged_by VARCHAR(255);
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS escalation_level INTEGER DEFAULT 0;
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS last_escalated_at TIMESTAMP WITH TIME ZONE;
+
+CREATE TABLE IF NOT EXISTS alert_escalations (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    alert_id VARCHAR(100) NOT NULL,
+    tier INTEGER NOT NULL,
+    channels JSONB NOT NULL DEFAULT '[]',
+    recipients JSONB NOT NULL DEFAULT '{}',
+    previous_severity VARCHAR(20) NOT NULL,
+    new_severity VARCHAR(20) NOT NULL,
+    playbook_id VARCHAR(100),
+    notifications JSONB NOT NULL DEFAULT '[]',
+    escalated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_escalations_alert ON alert_escalations(alert_id, escalated_at);
+CREATE INDEX IF NOT EXISTS idx_alerts_unacknowledged ON alerts(status, created_at) WHERE acknowledged_at IS NULL;
+
+-- Stored responses for requests sent with an Idempotency-Key header
+CREATE TABLE IF NOT EXISTS idempotency_keys (
+    idempotency_key VARCHAR(255) NOT NULL,
+    owner VARCHAR(255) NOT NULL,
+    endpoint VARCHAR(255) NOT NULL,
+    request_hash VARCHAR(64) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'in_progress' CHECK (status IN ('in_progress', 'completed')),
+    response_status INTEGER,
+    response_body JSONB,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    PRIMARY KEY (idempotency_key, owner, endpoint)
+);
+
+CREATE INDEX IF NOT EXISTS idx_idempotency_keys_expires_at ON idempotency_keys(expires_at);
+
+-- Incidents group related alerts (and their events and messages) into one response
+CREATE TABLE IF NOT EXISTS incidents (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    title VARCHAR(500) NOT NULL,
+    summary TEXT,
+    status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'monitoring', 'resolved', 'closed', 'merged')),
+    severity VARCHAR(20) NOT NULL DEFAULT 'low' CHECK (severity IN ('low', 'medium', 'high', 'critical')),
+    commander_id VARCHAR(255),
+    merged_into UUID REFERENCES incidents(id),
+    created_by VARCHAR(255),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    closed_at TIMESTAMP WITH TIME ZONE
+);
+
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS incident_id UUID REFERENCES incidents(id);
+ALTER TABLE events ADD COLUMN IF NOT EXISTS incident_id UUID REFERENCES incidents(id);
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS incident_id UUID REFERENCES incidents(id);
+
+CREATE INDEX IF NOT EXISTS idx_incidents_status ON incidents(status);
+CREATE INDEX IF NOT EXISTS idx_alerts_incident_id ON alerts(incident_id);
+CREATE INDEX IF NOT EXISTS idx_events_incident_id ON events(incident_id);
+CREATE INDEX IF NOT EXISTS idx_messages_incident_id ON messages(incident_id);
+
+-- Agent tasks that failed after all retries, kept for inspection and re-drive
+CREATE TABLE IF NOT EXISTS dead_letter_tasks (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    workflow_id UUID NOT NULL,
+    step_id VARCHAR(100) NOT NULL,
+    agent_type VARCHAR(100) NOT NULL,
+    action VARCHAR(100) NOT NULL,
+    input JSONB NOT NULL DEFAULT '{}',
+    required_scopes JSONB NOT NULL DEFAULT '[]',
+    consent_id VARCHAR(255),
+    error TEXT NOT NULL,
+    error_type VARCHAR(100),
+    attempts JSONB DEFAULT '[]',
+    auth_context JSONB NOT NULL DEFAULT '{}',
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'redriving', 'resolved', 'discarded')),
+    redrive_count INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    edited_by VARCHAR(255),
+    resolved_by VARCHAR(255),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    resolved_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Each re-drive attempt, linked to the workflow and step the task came from
+CREATE TABLE IF NOT EXISTS dead_letter_redrives (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    dead_letter_id UUID NOT NULL REFERENCES dead_letter_tasks(id) ON DELETE CASCADE,
+    workflow_id UUID NOT NULL,
+    step_id VARCHAR(100) NOT NULL,
+    attempted_by VARCHAR(255) NOT NULL,
+    input JSONB NOT NULL DEFAULT '{}',
+    status VARCHAR(20) NOT NULL CHECK (status IN ('succeeded', 'failed')),
+    output JSONB,
+    error TEXT,
+    duration_ms INTEGER,
+    attempted_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_dead_letter_tasks_status ON dead_letter_tasks(status);
+CREATE INDEX IF NOT EXISTS idx_dead_letter_tasks_workflow ON dead_letter_tasks(workflow_id, step_id);
+CREATE INDEX IF NOT EXISTS idx_dead_letter_redrives_task ON dead_letter_redrives(dead_letter_id);
+
+-- Affected area of an alert (GeoJSON Polygon/MultiPolygon or a circle) with its bounding box for prefiltering
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS affected_area JSONB;
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS area_min_lat DOUBLE PRECISION;
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS area_max_lat DOUBLE PRECISION;
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS area_min_lng DOUBLE PRECISION;
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS area_max_lng DOUBLE PRECISION;
+
+CREATE INDEX IF NOT EXISTS idx_alerts_area_bbox ON alerts(area_min_lat, area_max_lat, area_min_lng, area_max_lng) WHERE affected_area IS NOT NULL;
+
+-- How an alert's coordinates were obtained (geoapify, gazetteer, provided or the default placeholder) and how reliable they are
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS location_confidence DECIMAL(3, 2);
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS location_source VARCHAR(20);
+
+-- CAP messages received, keyed by sender and identifier, with the alerts each created, updated or cancelled
+CREATE TABLE IF NOT EXISTS cap_messages (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    sender VARCHAR(255) NOT NULL,
+    identifier VARCHAR(255) NOT NULL,
+    sent TIMESTAMP WITH TIME ZONE,
+    msg_type VARCHAR(10) NOT NULL,
+    status VARCHAR(10) NOT NULL,
+    action VARCHAR(20),
+    alert_ids JSONB NOT NULL DEFAULT '[]',
+    feed_url TEXT,
+    received_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (sender, identifier)
+);
+
+-- Registered telemetry sensors and their alert rules; only a hash of each sensor's API key is kept
+CREATE TABLE IF NOT EXISTS sensors (
+    id VARCHAR(100) PRIMARY KEY,
+    name VARCHAR(255) NOT NULL,
+    alert_type VARCHAR(100) NOT NULL,
+    location_address TEXT NOT NULL,
+    location_lat DOUBLE PRECISION NOT NULL,
+    location_lng DOUBLE PRECISION NOT NULL,
+    rules JSONB NOT NULL DEFAULT '[]',
+    api_key_hash VARCHAR(64) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'disabled')),
+    open_alert_id VARCHAR(100),
+    suppressed_count INTEGER NOT NULL DEFAULT 0,
+    last_reading_at TIMESTAMP WITH TIME ZONE,
+    last_alert_at TIMESTAMP WITH TIME ZONE,
+    created_by VARCHAR(255),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS sensor_readings (
+    id BIGSERIAL PRIMARY KEY,
+    sensor_id VARCHAR(100) NOT NULL REFERENCES sensors(id) ON DELETE CASCADE,
+    metric VARCHAR(64) NOT NULL,
+    value DOUBLE PRECISION NOT NULL,
+    recorded_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    received_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_sensor_readings_window ON sensor_readings(sensor_id, metric, recorded_at);
+
+-- Reports texted in by citizens. Each gets a draft alert that only goes live once the verifier passes it.
+CREATE TABLE IF NOT EXISTS citizen_reports (
+    reference VARCHAR(20) PRIMARY KEY,
+    message_sid VARCHAR(64) NOT NULL UNIQUE,
+    from_number VARCHAR(32) NOT NULL,
+    body TEXT NOT NULL,
+    type VARCHAR(50) NOT NULL,
+    severity VARCHAR(20) NOT NULL,
+    place TEXT,
+    keyword VARCHAR(20),
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'verified', 'unverified', 'rejected')),
+    alert_id VARCHAR(100),
+    verification_id VARCHAR(100),
+    risk_score DECIMAL(4,3),
+    verification_errors JSONB NOT NULL DEFAULT '[]',
+    reviewed_by VARCHAR(255),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_citizen_reports_status ON citizen_reports(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_citizen_reports_from ON citizen_reports(from_number, created_at);
+
+-- Published versions of the rules AlertAgent analyses alerts with; at most one is active
+CREATE TABLE IF NOT EXISTS analysis_rule_versions (
+    version INTEGER PRIMARY KEY,
+    description TEXT,
+    rules JSONB NOT NULL,
+    active BOOLEAN NOT NULL DEFAULT false,
+    created_by VARCHAR(255),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_analysis_rule_versions_active ON analysis_rule_versions(active) WHERE active;
+
+-- Where an alert came from (the alerts API writes it; analysis rules can match on it)
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS source VARCHAR(255);
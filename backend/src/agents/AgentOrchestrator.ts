@@ -1,11 +1,56 @@
 import { v4 as uuidv4 } from 'uuid';
 import { logger, logAuditEvent } from '../utils/logger';
-import { AuthenticatedRequest } from '../types';
-import { generateAgentAccessToken, createDelegatedToken, validateAgentToken, verifyAgentScopes } from '../utils/descope-real';
+import {
+  AuthenticatedRequest,
+  AuthorizationError,
+  CancellationError,
+  CrisisAssistError,
+  DeadLetterRedrive,
+  DeadLetterTask,
+  NotFoundError,
+  ResponsePlaybook,
+  RiskDecision,
+  TimeoutError,
+  ValidationError,
+  WorkflowDefinition,
+  WorkflowExecution,
+  WorkflowRetryPolicy,
+  WorkflowStep,
+  WorkflowStepExecution
+} from '../types';
+import { AGENT_SCOPES, generateAgentAccessToken, createDelegatedToken, validateAgentToken, verifyAgentScopes } from '../utils/descope-real';
 import { AlertAgent } from './AlertAgent';
 import { VerifierAgent } from './VerifierAgent';
 import { SchedulerAgent } from './SchedulerAgent';
 import { NotifierAgent } from './NotifierAgent';
+import {
+  DEFAULT_RETRYABLE_ERRORS,
+  EMERGENCY_RESPONSE_WORKFLOW,
+  workflowRegistry,
+  sortWorkflowSteps,
+  validateAgainstSchema,
+  validateWorkflowDefinition
+} from './WorkflowRegistry';
+import { workflowExecutionStore } from './WorkflowExecutionStore';
+import { streamingService } from '../utils/realTimeStreaming';
+import { approvalGate, ApprovalDecision } from './ApprovalGate';
+import { DEFAULT_RISK_POLICY, evaluateRiskPolicy } from './RiskPolicy';
+import { playbookRegistry, playbookToWorkflowDefinition, validatePlaybook } from './PlaybookRegistry';
+import { workflowQueue, WorkflowQueueStats } from './WorkflowQueue';
+import { deadLetterQueue } from './DeadLetterQueue';
+import { agentRegistry } from './AgentRegistry';
+
+/**
+ * In-process control handle for a running execution. The scheduler loop waits on
+ * `changed` so pause, resume and cancel take effect without polling.
+ */
+interface ExecutionControl {
+  state: 'running' | 'paused' | 'cancelled';
+  reason?: string;
+  abortController: AbortController;
+  changed: Promise<void>;
+  notify: () => void;
+}
 
 export interface WorkflowRequest {
   workflow_id: string;
@@ -13,6 +58,23 @@ export interface WorkflowRequest {
   alert_data: any;
   consent_granted: boolean;
   requested_actions: string[];
+  definition_id?: string;
+  playbook_id?: string;
+  playbook?: ResponsePlaybook; // Snapshot taken when the run starts, so a resumed run keeps the same playbook
+}
+
+export interface WorkflowContext {
+  request: {
+    workflow_id: string;
+    user_id: string;
+    consent_granted: boolean;
+    requested_actions: string[];
+  };
+  alert: any;
+  playbook?: ResponsePlaybook;
+  steps: Record<string, any>;
+  output?: any; // Output of the step being compensated
+  reason?: string; // Why compensation is running
 }
 
 export interface AgentCommunication {
@@ -26,7 +88,10 @@ export interface AgentCommunication {
 
 export interface WorkflowResult {
   workflow_id: string;
-  status: 'completed' | 'failed' | 'partial';
+  definition_id: string;
+  definition_version: number;
+  playbook?: { id: string; version: number };
+  status: 'completed' | 'failed' | 'partial' | 'cancelled';
   agent_results: Record<string, any>;
   communications: AgentCommunication[];
   consent_validations: Array<{
@@ -35,9 +100,61 @@ export interface WorkflowResult {
     consent_required: boolean;
     consent_granted: boolean;
   }>;
+  branch_timings: BranchTiming[];
+  compensations: Array<{ step_id: string } & NonNullable<WorkflowStepExecution['compensation']>>;
+  policy_decisions: Array<{ step_id: string } & RiskDecision>;
+  queue_wait_ms?: number;
   execution_time: number;
 }
 
+export interface PlannedWorkflowStep {
+  step_id: string;
+  name: string;
+  type: 'agent' | 'approval' | 'risk_gate';
+  agent_type?: string;
+  action?: string;
+  depends_on: string[];
+  would_run: boolean;
+  skip_reason?: string;
+  authorization?: {
+    token_type: 'agent' | 'delegated';
+    scopes: string[];
+    consent_id?: string;
+    consent_granted?: boolean;
+  };
+  approval?: {
+    approvers: string[];
+    default_outcome: 'approved' | 'rejected';
+  };
+  timeout_ms: number;
+  retry?: WorkflowRetryPolicy;
+  compensation?: string;
+  preview?: any;
+}
+
+export interface WorkflowPlan {
+  dry_run: true;
+  definition_id: string;
+  definition_version: number;
+  playbook?: { id: string; version: number };
+  alert_id: string;
+  agents: string[];
+  steps: PlannedWorkflowStep[];
+  recipients: Record<string, string[]>;
+  messages: Array<{ step_id: string; channel_type: string; recipients: string[]; subject?: string; content: string }>;
+  events: Array<{ step_id: string } & Record<string, any>>;
+  warnings: string[];
+}
+
+export interface BranchTiming {
+  step_id: string;
+  agent_type: string;
+  status: WorkflowStepExecution['status'];
+  started_at: string;
+  completed_at?: string;
+  duration_ms?: number;
+}
+
 /**
  * Multi-Agent Orchestrator implementing Theme 3 requirements:
  * - Secure agent-to-agent communication via Descope tokens
@@ -51,140 +168,550 @@ export class AgentOrchestrator {
   private verifierAgent: VerifierAgent;
   private schedulerAgent: SchedulerAgent;
   private notifierAgent: NotifierAgent;
+  private activeExecutions: Map<string, ExecutionControl> = new Map();
 
   constructor() {
     this.alertAgent = new AlertAgent();
     this.verifierAgent = new VerifierAgent();
     this.schedulerAgent = new SchedulerAgent();
     this.notifierAgent = new NotifierAgent();
+
+    this.registerBuiltInAgents();
   }
 
   /**
-   * Execute emergency response workflow with secure agent coordination
+   * Register the built-in agents. Other agents register themselves with the agent registry
+   * and are picked up without changes here.
    */
-  async executeEmergencyWorkflow(request: WorkflowRequest, auth: NonNullable<AuthenticatedRequest['auth']>): Promise<WorkflowResult> {
+  private registerBuiltInAgents() {
+    agentRegistry.register({
+      name: 'alert_agent',
+      display_name: 'Alert Processing Agent',
+      description: this.alertAgent.getAgentInfo().description,
+      capabilities: this.alertAgent.getAgentInfo().capabilities,
+      scopes: AGENT_SCOPES.ALERT_AGENT,
+      handlers: {
+        processAlert: (data, auth) => this.alertAgent.processAlert(data.alertId, auth)
+      },
+      // Side-effect-free previews used by plan mode
+      planners: {
+        processAlert: async (_data, context) => this.alertAgent.previewAlertProcessing(context.alert)
+      },
+      info: () => this.alertAgent.getAgentInfo()
+    }, { replace: true });
+
+    agentRegistry.register({
+      name: 'verifier_agent',
+      display_name: 'Content Verification Agent',
+      description: this.verifierAgent.getAgentInfo().description,
+      capabilities: this.verifierAgent.getAgentInfo().capabilities,
+      scopes: AGENT_SCOPES.VERIFIER_AGENT,
+      handlers: {
+        verifyContent: (data, auth) => this.verifierAgent.verifyContent(data, auth)
+      },
+      planners: {
+        verifyContent: data => this.verifierAgent.previewVerification(data)
+      },
+      info: () => this.verifierAgent.getAgentInfo()
+    }, { replace: true });
+
+    agentRegistry.register({
+      name: 'scheduler_agent',
+      display_name: 'Resource Scheduler Agent',
+      description: this.schedulerAgent.getAgentInfo().description,
+      capabilities: this.schedulerAgent.getAgentInfo().capabilities,
+      scopes: AGENT_SCOPES.SCHEDULER_AGENT,
+      handlers: {
+        scheduleRelief: (data, auth) => this.schedulerAgent.scheduleRelief(data, auth),
+        cancelScheduledEvent: (data, auth) => this.schedulerAgent.cancelScheduledEvent(data, auth)
+      },
+      planners: {
+        scheduleRelief: async data => this.schedulerAgent.planRelief(data)
+      },
+      info: () => this.schedulerAgent.getAgentInfo()
+    }, { replace: true });
+
+    agentRegistry.register({
+      name: 'notifier_agent',
+      display_name: 'Notification Agent',
+      description: this.notifierAgent.getAgentInfo().description,
+      capabilities: this.notifierAgent.getAgentInfo().capabilities,
+      scopes: AGENT_SCOPES.NOTIFIER_AGENT,
+      handlers: {
+        sendEmergencyNotifications: (data, auth, signal) => this.notifierAgent.sendEmergencyNotifications(data, auth, signal),
+        sendRetraction: (data, auth) => this.notifierAgent.sendRetraction(data, auth)
+      },
+      planners: {
+        sendEmergencyNotifications: async data => ({
+          planned_messages: this.notifierAgent.planEmergencyNotifications(data),
+          status: 'planned'
+        })
+      },
+      info: () => this.notifierAgent.getAgentInfo()
+    }, { replace: true });
+  }
+
+  /**
+   * Execute emergency response workflow with secure agent coordination.
+   * Runs wait in the severity-ordered work queue until a slot is free. A run that has to wait
+   * is recorded as `queued` first, so it can be looked up and cancelled, and `onQueued` is told.
+   */
+  async executeEmergencyWorkflow(
+    request: WorkflowRequest,
+    auth: NonNullable<AuthenticatedRequest['auth']>,
+    options: { onQueued?: (depth: number) => void } = {}
+  ): Promise<WorkflowResult> {
+    if (request.alert_data?.status === 'draft') {
+      throw new CrisisAssistError(`Alert ${request.alert_data.id} is an unverified draft`, 'ALERT_NOT_VERIFIED', 409);
+    }
+
+    const { definition, playbook } = await this.resolveEmergencyWorkflow(request);
+    const severity = request.alert_data?.severity;
+
+    const queue = workflowQueue.stats();
+    const queued = queue.running >= queue.concurrency;
+    if (queued) {
+      await workflowExecutionStore.create({
+        id: request.workflow_id,
+        definition,
+        user_id: request.user_id,
+        alert_id: request.alert_data.id,
+        request_data: { ...request, playbook },
+        steps: definition.steps.map(step => ({ step_id: step.id, status: 'pending' as const })),
+        status: 'queued'
+      });
+      this.streamWorkflowEvent(request.workflow_id, 'workflow_queued', { severity, depth: queue.depth + 1 });
+    }
+
+    const execution = workflowQueue.enqueue(
+      request.workflow_id,
+      severity,
+      () => this.executeWorkflow(definition, { ...request, playbook }, auth)
+    );
+    if (queued) {
+      options.onQueued?.(queue.depth + 1);
+    }
+
+    const { result, wait_ms } = await execution;
+    return { ...result, queue_wait_ms: wait_ms };
+  }
+
+  /**
+   * Depth, running count and recent wait times of the workflow work queue
+   */
+  getQueueStats(): WorkflowQueueStats {
+    return workflowQueue.stats();
+  }
+
+  /**
+   * Pick what an emergency request runs: an explicit workflow definition, an explicit playbook,
+   * the playbook matching the alert's type and severity, or the built-in emergency workflow.
+   */
+  private async resolveEmergencyWorkflow(
+    request: Pick<WorkflowRequest, 'alert_data' | 'definition_id' | 'playbook_id'>
+  ): Promise<{ definition: WorkflowDefinition; playbook?: ResponsePlaybook }> {
+    if (!request.definition_id) {
+      const playbook = request.playbook_id
+        ? await playbookRegistry.get(request.playbook_id)
+        : await playbookRegistry.match(request.alert_data?.type, request.alert_data?.severity);
+
+      if (request.playbook_id && !playbook) {
+        throw new NotFoundError(`Playbook ${request.playbook_id} not found`);
+      }
+      if (playbook) {
+        return { definition: playbookToWorkflowDefinition(playbook), playbook };
+      }
+    }
+
+    const definitionId = request.definition_id || EMERGENCY_RESPONSE_WORKFLOW.id;
+    const definition = await workflowRegistry.get(definitionId);
+
+    if (!definition) {
+      throw new NotFoundError(`Workflow definition ${definitionId} not found`);
+    }
+
+    return { definition };
+  }
+
+  /**
+   * Build the execution plan for a workflow without running it: which agents would run with
+   * which scopes and tokens, the rendered messages per channel and the events that would be
+   * created. Nothing is sent, scheduled or persisted.
+   */
+  async planEmergencyWorkflow(request: Omit<WorkflowRequest, 'workflow_id'>): Promise<WorkflowPlan> {
+    const { definition, playbook } = await this.resolveEmergencyWorkflow(request);
+
+    const context: WorkflowContext = {
+      request: {
+        workflow_id: 'dry_run',
+        user_id: request.user_id,
+        consent_granted: request.consent_granted,
+        requested_actions: request.requested_actions
+      },
+      alert: request.alert_data,
+      playbook,
+      steps: {}
+    };
+    const plannedRecords: WorkflowStepExecution[] = definition.steps.map(step => ({ step_id: step.id, status: 'pending' }));
+    const recordFor = (stepId: string) => plannedRecords.find(record => record.step_id === stepId)!;
+    const plan: WorkflowPlan = {
+      dry_run: true,
+      definition_id: definition.id,
+      definition_version: definition.version,
+      playbook: playbook && { id: playbook.id, version: playbook.version },
+      alert_id: request.alert_data?.id,
+      agents: [],
+      steps: [],
+      recipients: {},
+      messages: [],
+      events: [],
+      warnings: []
+    };
+
+    for (const definedStep of sortWorkflowSteps(definition.steps)) {
+      let step = definedStep;
+      try {
+        step = this.resolveStepAgent(definedStep);
+      } catch (error) {
+        plan.warnings.push(`Step ${step.id}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+      const record = recordFor(step.id);
+      const planned: PlannedWorkflowStep = {
+        step_id: step.id,
+        name: step.name,
+        type: step.type || 'agent',
+        depends_on: step.depends_on || [],
+        would_run: false,
+        timeout_ms: step.timeout_ms
+      };
+      plan.steps.push(planned);
+
+      if (step.type === 'approval') {
+        planned.approval = {
+          approvers: step.approval!.approvers || [],
+          default_outcome: step.approval!.default_outcome
+        };
+      } else if (step.type !== 'risk_gate') {
+        planned.agent_type = step.agent_type;
+        planned.action = step.action;
+        planned.authorization = step.delegation
+          ? { token_type: 'delegated', scopes: step.required_scopes, consent_id: step.delegation.consent_id, consent_granted: request.consent_granted }
+          : { token_type: 'agent', scopes: step.required_scopes };
+        planned.retry = step.retry;
+        planned.compensation = step.compensation && `${step.compensation.agent_type}.${step.compensation.action}`;
+      }
+
+      const join = this.evaluateJoin(step, recordFor);
+      if (join !== 'ready') {
+        planned.skip_reason = `${step.join?.policy || 'all'} join not satisfied`;
+      } else if (step.condition && !this.resolveTemplate(step.condition, context)) {
+        planned.skip_reason = `condition ${step.condition} not met`;
+      } else if (step.delegation && !request.consent_granted) {
+        planned.skip_reason = `User consent required for ${step.name.toLowerCase()}`;
+      }
+
+      if (planned.skip_reason) {
+        record.status = 'skipped';
+        continue;
+      }
+
+      planned.would_run = true;
+
+      if (step.type === 'approval') {
+        plan.warnings.push(`Plan assumes approval step ${step.id} is approved`);
+        record.status = 'completed';
+        context.steps[step.id] = { outcome: 'approved' };
+        continue;
+      }
+
+      if (step.type === 'risk_gate') {
+        const input = this.resolveTemplate(step.input || {}, context);
+        planned.preview = evaluateRiskPolicy(
+          step.risk_policy || DEFAULT_RISK_POLICY,
+          request.alert_data,
+          input.verification || { verified: false },
+          input.channels || []
+        );
+        if (planned.preview.decision === 'manual_review') {
+          plan.warnings.push(`Risk gate ${step.id} would hold broadcast for manual review: ${planned.preview.reasons.join('; ')}`);
+        } else if (planned.preview.decision !== 'allow') {
+          plan.warnings.push(`Risk gate ${step.id} would ${planned.preview.decision === 'block' ? 'block broadcast' : 'restrict broadcast to internal channels'}: ${planned.preview.reasons.join('; ')}`);
+        }
+        record.status = 'completed';
+        context.steps[step.id] = planned.preview;
+        continue;
+      }
+
+      if (!plan.agents.includes(step.agent_type)) {
+        plan.agents.push(step.agent_type);
+      }
+
+      const planner = agentRegistry.getPlanner(step.agent_type, step.action);
+      if (!planner) {
+        plan.warnings.push(`No dry-run preview for ${step.agent_type}.${step.action}; later steps see an empty output`);
+        record.status = 'completed';
+        context.steps[step.id] = {};
+        continue;
+      }
+
+      try {
+        const input = this.resolveTemplate(step.input || {}, context);
+        this.assertSchema(step, 'input', input);
+        planned.preview = await planner(input, context);
+
+        record.status = 'completed';
+        context.steps[step.id] = planned.preview;
+      } catch (error) {
+        plan.warnings.push(`Step ${step.id} would fail: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        planned.would_run = false;
+        planned.skip_reason = 'preview failed';
+        record.status = 'failed';
+        continue;
+      }
+
+      if (step.agent_type === 'notifier_agent') {
+        (planned.preview.planned_messages || []).forEach((message: any) => {
+          plan.messages.push({ step_id: step.id, ...message });
+          plan.recipients[message.channel_type] = [
+            ...(plan.recipients[message.channel_type] || []),
+            ...message.recipients.filter((recipient: string) => !(plan.recipients[message.channel_type] || []).includes(recipient))
+          ];
+        });
+      }
+      if (step.agent_type === 'scheduler_agent' && planned.preview.calendar_event) {
+        plan.events.push({ step_id: step.id, ...planned.preview });
+      }
+    }
+
+    logger.info(`Workflow plan generated for ${definition.id}`, {
+      userId: request.user_id,
+      alertId: plan.alert_id,
+      stepsPlanned: plan.steps.filter(step => step.would_run).length,
+      warnings: plan.warnings.length
+    });
+
+    return plan;
+  }
+
+  /**
+   * Interpret a declarative workflow definition, running each step once its dependencies completed.
+   * Step status, input and output are persisted as they change so the run can be resumed after a restart.
+   */
+  async executeWorkflow(
+    definition: WorkflowDefinition,
+    request: WorkflowRequest,
+    auth: NonNullable<AuthenticatedRequest['auth']>,
+    resumeFrom?: WorkflowExecution
+  ): Promise<WorkflowResult> {
     const startTime = Date.now();
     const communications: AgentCommunication[] = [];
     const agentResults: Record<string, any> = {};
-    const consentValidations: Array<{
-      agent: string;
-      action: string;
-      consent_required: boolean;
-      consent_granted: boolean;
-    }> = [];
+    const consentValidations: WorkflowResult['consent_validations'] = [];
+    const context: WorkflowContext = {
+      request: {
+        workflow_id: request.workflow_id,
+        user_id: request.user_id,
+        consent_granted: request.consent_granted,
+        requested_actions: request.requested_actions
+      },
+      alert: request.alert_data,
+      playbook: request.playbook,
+      steps: {}
+    };
+    const stepRecords: WorkflowStepExecution[] = resumeFrom
+      ? resumeFrom.steps
+      : definition.steps.map(step => ({ step_id: step.id, status: 'pending' as const }));
+    const recordFor = (stepId: string) => stepRecords.find(record => record.step_id === stepId)!;
+    const control = this.createExecutionControl(resumeFrom?.status === 'paused' ? 'paused' : 'running');
+    this.activeExecutions.set(request.workflow_id, control);
+
+    // Restore the outcome of steps decided before a restart
+    stepRecords.forEach(record => {
+      if (record.status === 'completed') {
+        context.steps[record.step_id] = record.output;
+        agentResults[record.step_id] = record.output;
+      } else if (record.error) {
+        agentResults[record.step_id] = { error: record.error };
+      }
+    });
 
     try {
-      logger.info(`Starting emergency workflow: ${request.workflow_id}`, {
+      if (!resumeFrom) {
+        await workflowExecutionStore.create({
+          id: request.workflow_id,
+          definition,
+          user_id: request.user_id,
+          alert_id: request.alert_data.id,
+          request_data: request,
+          steps: stepRecords
+        });
+      } else if (resumeFrom.status === 'queued') {
+        await workflowExecutionStore.updateStatus(request.workflow_id, 'running');
+      }
+
+      logger.info(`${resumeFrom ? 'Resuming' : 'Starting'} workflow ${definition.id}: ${request.workflow_id}`, {
         orchestratorId: this.orchestratorId,
         userId: request.user_id,
-        alertType: request.alert_data.type
+        alertType: request.alert_data.type,
+        definitionVersion: definition.version
+      });
+      this.streamWorkflowEvent(request.workflow_id, resumeFrom ? 'workflow_recovered' : 'workflow_started', {
+        definition_id: definition.id,
+        status: control.state
       });
 
-      // Step 1: Alert Agent processes the emergency alert
-      const alertResult = await this.executeAgentTask(
-        'alert_agent',
-        'processAlert',
-        { alertId: request.alert_data.id },
-        ['alert.read', 'alert.process'],
-        auth,
-        communications
-      );
-      agentResults.alert_processing = alertResult;
-
-      // Step 2: Verifier Agent validates the alert content
-      const verificationResult = await this.executeAgentTask(
-        'verifier_agent',
-        'verifyContent',
-        {
-          content_type: 'alert',
-          content: request.alert_data,
-          verification_rules: ['source_verification', 'urgency_validation', 'location_validation']
-        },
-        ['document.verify', 'content.validate'],
-        auth,
-        communications
-      );
-      agentResults.content_verification = verificationResult;
-
-      // Step 3: Check if user consent is required for scheduling and notifications
-      const requiresScheduling = alertResult.next_steps?.schedule_relief;
-      const requiresNotification = alertResult.next_steps?.notify_authorities;
-
-      if (requiresScheduling) {
-        const consentValidation = {
-          agent: 'scheduler_agent',
-          action: 'calendar.write',
-          consent_required: true,
-          consent_granted: request.consent_granted
-        };
-        consentValidations.push(consentValidation);
-
-        if (request.consent_granted) {
-          // Step 4: Scheduler Agent creates relief coordination events (with user consent)
-          const schedulingResult = await this.executeAgentTaskWithDelegation(
-            'scheduler_agent',
-            'scheduleRelief',
-            {
-              alert_id: request.alert_data.id,
-              required_resources: alertResult.analysis?.required_resources || [],
-              urgency: alertResult.analysis?.risk_level || 'medium'
-            },
-            ['calendar.write', 'event.create'],
-            auth,
-            request.user_id,
-            'emergency_response_consent',
-            communications
-          );
-          agentResults.scheduling = schedulingResult;
-        } else {
-          agentResults.scheduling = { error: 'User consent required for calendar operations' };
+      // Runs one step to completion. Failures are recorded on the step rather than thrown,
+      // so sibling branches keep running and join policies can tolerate them.
+      const runStep = async (step: WorkflowStep, record: WorkflowStepExecution): Promise<void> => {
+        try {
+          const input = this.resolveTemplate(step.input || {}, context);
+          this.assertSchema(step, 'input', input);
+
+          if (step.delegation) {
+            // Check if user consent is required for delegated, user-facing actions
+            consentValidations.push({
+              agent: step.agent_type || step.capability,
+              action: step.required_scopes[0],
+              consent_required: true,
+              consent_granted: request.consent_granted
+            });
+
+            if (!request.consent_granted) {
+              record.status = 'skipped';
+              record.error = `User consent required for ${step.name.toLowerCase()}`;
+              agentResults[step.id] = { error: record.error };
+              await workflowExecutionStore.saveSteps(request.workflow_id, stepRecords);
+              return;
+            }
+          }
+
+          record.started_at = new Date();
+          record.input = input;
+          await workflowExecutionStore.saveSteps(request.workflow_id, stepRecords);
+
+          const output = step.type === 'approval'
+            ? await this.awaitApproval(step, request, control)
+            : step.type === 'risk_gate'
+            ? await this.evaluateRiskGate(step, input, request, control)
+            : await this.executeStepWithRetry(
+              this.resolveStepAgent(step),
+              input,
+              request,
+              auth,
+              communications,
+              record,
+              () => workflowExecutionStore.saveSteps(request.workflow_id, stepRecords),
+              control.abortController.signal
+            );
+          this.assertSchema(step, 'output', output);
+
+          record.status = 'completed';
+          record.output = output;
+          agentResults[step.id] = output;
+          context.steps[step.id] = output;
+        } catch (error) {
+          logger.error(`Workflow step ${step.id} failed: ${request.workflow_id}`, error);
+          record.status = 'failed';
+          record.error = error instanceof Error ? error.message : 'Unknown error';
+          agentResults[step.id] = { error: record.error };
         }
-      }
 
-      if (requiresNotification) {
-        const consentValidation = {
-          agent: 'notifier_agent',
-          action: 'message.send',
-          consent_required: true,
-          consent_granted: request.consent_granted
-        };
-        consentValidations.push(consentValidation);
-
-        if (request.consent_granted) {
-          // Step 5: Notifier Agent sends alerts (with user consent)
-          const notificationResult = await this.executeAgentTaskWithDelegation(
-            'notifier_agent',
-            'sendEmergencyNotifications',
-            {
-              alert_data: request.alert_data,
-              analysis: alertResult.analysis,
-              verification: verificationResult,
-              channels: ['slack', 'sms', 'email']
-            },
-            ['message.send', 'notification.create'],
-            auth,
-            request.user_id,
-            'emergency_notification_consent',
-            communications
-          );
-          agentResults.notifications = notificationResult;
-        } else {
-          agentResults.notifications = { error: 'User consent required for notification operations' };
+        record.completed_at = new Date();
+        await workflowExecutionStore.saveSteps(request.workflow_id, stepRecords);
+      };
+
+      // Fan out every step whose join is satisfied, then wait for any branch to settle and re-evaluate.
+      // While paused no new step starts; once cancelled the loop only waits for in-flight steps to stop.
+      const orderedSteps = sortWorkflowSteps(definition.steps);
+      const inFlight = new Map<string, Promise<void>>();
+
+      while (true) {
+        let progressed = false;
+
+        for (const step of control.state === 'running' ? orderedSteps : []) {
+          const record = recordFor(step.id);
+          if (record.status !== 'pending') {
+            continue;
+          }
+
+          const join = this.evaluateJoin(step, recordFor);
+          if (join === 'waiting') {
+            continue;
+          }
+
+          progressed = true;
+
+          // Steps whose join can no longer be satisfied are skipped as well
+          if (join === 'unsatisfiable' || (step.condition && !this.resolveTemplate(step.condition, context))) {
+            logger.info(`Skipping step ${step.id}`, {
+              workflowId: request.workflow_id,
+              reason: join === 'unsatisfiable' ? `${step.join?.policy || 'all'} join not satisfied` : `condition ${step.condition} not met`
+            });
+            record.status = 'skipped';
+            await workflowExecutionStore.saveSteps(request.workflow_id, stepRecords);
+            continue;
+          }
+
+          record.status = 'running';
+          inFlight.set(step.id, runStep(step, record).finally(() => inFlight.delete(step.id)));
         }
+
+        if (progressed) {
+          continue;
+        }
+        if (inFlight.size === 0 && control.state !== 'paused') {
+          break;
+        }
+        await (inFlight.size === 0
+          ? this.whileSuspended(request.workflow_id, control.changed)
+          : Promise.race([...inFlight.values(), control.changed]));
+      }
+
+      const cancelled = control.state === 'cancelled';
+      if (cancelled) {
+        stepRecords
+          .filter(record => record.status === 'pending')
+          .forEach(record => {
+            record.status = 'skipped';
+            record.error = 'Workflow cancelled';
+          });
+      }
+
+      const failedSteps = stepRecords.filter(record => record.status === 'failed').map(record => record.step_id);
+      if (cancelled || failedSteps.length > 0) {
+        await this.compensate(definition, request, auth, stepRecords, communications,
+          cancelled ? `Workflow cancelled: ${control.reason}` : `Workflow step ${failedSteps.join(', ')} failed`);
       }
 
       const executionTime = Date.now() - startTime;
-      const status = this.determineWorkflowStatus(agentResults);
+      const status = cancelled ? 'cancelled' : this.determineWorkflowStatus(agentResults);
 
       const result: WorkflowResult = {
         workflow_id: request.workflow_id,
+        definition_id: definition.id,
+        definition_version: definition.version,
+        playbook: request.playbook && { id: request.playbook.id, version: request.playbook.version },
         status,
         agent_results: agentResults,
         communications,
         consent_validations: consentValidations,
+        branch_timings: this.collectBranchTimings(definition, stepRecords),
+        compensations: stepRecords
+          .filter(record => record.compensation)
+          .map(record => ({ step_id: record.step_id, ...record.compensation! })),
+        policy_decisions: definition.steps
+          .filter(step => step.type === 'risk_gate' && recordFor(step.id).status === 'completed')
+          .map(step => ({ step_id: step.id, ...recordFor(step.id).output as RiskDecision })),
         execution_time: executionTime
       };
 
+      await workflowExecutionStore.finish(request.workflow_id, {
+        status,
+        steps: stepRecords,
+        result_data: result,
+        execution_time: executionTime
+      });
+
       // Log workflow completion
       logAuditEvent({
         actor: this.orchestratorId,
@@ -192,7 +719,9 @@ export class AgentOrchestrator {
         resource: `workflow:${request.workflow_id}`,
         result: status === 'completed' ? 'success' : 'failure',
         details: {
-          workflow_type: 'emergency_response',
+          workflow_type: definition.id,
+          workflow_version: definition.version,
+          resumed: !!resumeFrom,
           agents_involved: Object.keys(agentResults).length,
           communications_count: communications.length,
           consent_validations: consentValidations.length,
@@ -200,29 +729,836 @@ export class AgentOrchestrator {
         }
       });
 
-      logger.info(`Emergency workflow completed: ${request.workflow_id}`, {
+      logger.info(`Workflow ${definition.id} completed: ${request.workflow_id}`, {
         status,
         executionTime,
         agentsInvolved: Object.keys(agentResults)
       });
+      this.streamWorkflowEvent(request.workflow_id, cancelled ? 'workflow_cancelled' : 'workflow_completed', {
+        status,
+        execution_time: executionTime,
+        compensations: result.compensations.length
+      });
 
       return result;
     } catch (error) {
-      logger.error(`Emergency workflow failed: ${request.workflow_id}`, error);
+      logger.error(`Workflow ${definition.id} failed: ${request.workflow_id}`, error);
       
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      await this.compensate(definition, request, auth, stepRecords, communications, errorMessage).catch(compensationError => {
+        logger.error(`Failed to compensate workflow ${request.workflow_id}:`, compensationError);
+      });
+      await workflowExecutionStore.finish(request.workflow_id, {
+        status: 'failed',
+        steps: stepRecords,
+        execution_time: Date.now() - startTime,
+        error: errorMessage
+      }).catch(persistError => {
+        logger.error(`Failed to persist failure of workflow ${request.workflow_id}:`, persistError);
+      });
+
       logAuditEvent({
         actor: this.orchestratorId,
         action: 'workflow.execute',
         resource: `workflow:${request.workflow_id}`,
         result: 'failure',
         details: {
-          error: error instanceof Error ? error.message : 'Unknown error',
+          workflow_type: definition.id,
+          error: errorMessage,
           execution_time: Date.now() - startTime
         }
       });
+      this.streamWorkflowEvent(request.workflow_id, 'workflow_failed', { status: 'failed', error: errorMessage });
+
+      throw error;
+    } finally {
+      this.activeExecutions.delete(request.workflow_id);
+    }
+  }
+
+  /**
+   * Pause a running workflow: in-flight steps finish, but no further step starts until it is resumed
+   */
+  async pauseWorkflow(workflowId: string, actor: string): Promise<{ workflow_id: string; status: WorkflowExecution['status'] }> {
+    const control = this.getExecutionControl(workflowId);
+    if (control.state !== 'running') {
+      throw new CrisisAssistError(`Workflow ${workflowId} is ${control.state} and cannot be paused`, 'WORKFLOW_STATE_CONFLICT', 409);
+    }
+
+    control.state = 'paused';
+    control.notify();
+    await workflowExecutionStore.updateStatus(workflowId, 'paused');
+    this.recordControlTransition(workflowId, actor, 'pause');
+
+    return { workflow_id: workflowId, status: 'paused' };
+  }
+
+  /**
+   * Resume a paused workflow
+   */
+  async resumeWorkflow(workflowId: string, actor: string): Promise<{ workflow_id: string; status: WorkflowExecution['status'] }> {
+    const control = this.getExecutionControl(workflowId);
+    if (control.state !== 'paused') {
+      throw new CrisisAssistError(`Workflow ${workflowId} is ${control.state} and cannot be resumed`, 'WORKFLOW_STATE_CONFLICT', 409);
+    }
+
+    control.state = 'running';
+    control.notify();
+    await workflowExecutionStore.updateStatus(workflowId, 'running');
+    this.recordControlTransition(workflowId, actor, 'resume');
+
+    return { workflow_id: workflowId, status: 'running' };
+  }
+
+  /**
+   * Cancel a running or paused workflow. In-flight agent tasks are signalled to stop,
+   * no further step starts, and completed steps are compensated before the run ends as cancelled.
+   */
+  async cancelWorkflow(workflowId: string, actor: string, reason?: string): Promise<{ workflow_id: string; status: WorkflowExecution['status'] }> {
+    // A queued run has not started; dropping it from the queue is enough
+    if (workflowQueue.remove(workflowId, reason || `cancelled by ${actor}`)) {
+      await workflowExecutionStore.updateStatus(workflowId, 'cancelled');
+      this.recordControlTransition(workflowId, actor, 'cancel', { reason, queued: true });
+      return { workflow_id: workflowId, status: 'cancelled' };
+    }
+
+    const control = this.getExecutionControl(workflowId);
+    if (control.state === 'cancelled') {
+      throw new CrisisAssistError(`Workflow ${workflowId} is already being cancelled`, 'WORKFLOW_STATE_CONFLICT', 409);
+    }
+
+    this.abortExecution(control, reason || `cancelled by ${actor}`);
+    this.recordControlTransition(workflowId, actor, 'cancel', { reason: control.reason });
 
+    return { workflow_id: workflowId, status: 'cancelled' };
+  }
+
+  /**
+   * Suspend on an approval step until a designated approver decides or the default outcome applies.
+   * A rejection aborts the workflow the same way a cancellation does.
+   */
+  private async awaitApproval(
+    step: WorkflowStep,
+    request: WorkflowRequest,
+    control: ExecutionControl,
+    abortOnRejection: boolean = true
+  ): Promise<ApprovalDecision> {
+    await workflowExecutionStore.updateStatus(request.workflow_id, 'awaiting_approval');
+    this.streamWorkflowEvent(request.workflow_id, 'workflow_awaiting_approval', { step_id: step.id });
+
+    let decision: ApprovalDecision;
+    try {
+      decision = await this.whileSuspended(request.workflow_id, this.withCancellation(
+        approvalGate.awaitDecision(request.workflow_id, step, request.alert_data, request.user_id),
+        control.abortController.signal
+      ));
+    } catch (error) {
+      if (error instanceof CancellationError) {
+        await approvalGate.cancel(request.workflow_id, step.id);
+      }
       throw error;
     }
+
+    this.streamWorkflowEvent(request.workflow_id, 'approval_decided', {
+      step_id: step.id,
+      outcome: decision.outcome,
+      decided_by: decision.decided_by,
+      timed_out: decision.timed_out
+    });
+
+    if (decision.outcome === 'rejected' && abortOnRejection) {
+      const reason = `Step ${step.id} rejected by ${decision.decided_by}: ${decision.justification}`;
+      this.abortExecution(control, reason);
+      throw new CrisisAssistError(reason, 'APPROVAL_REJECTED', 409, decision);
+    }
+
+    if (control.state !== 'cancelled') {
+      await workflowExecutionStore.updateStatus(request.workflow_id, control.state);
+    }
+    return decision;
+  }
+
+  /**
+   * Apply the step's risk policy to the verification result. Manual review reuses the approval gate;
+   * a rejected review blocks broadcast but lets the rest of the workflow carry on.
+   */
+  private async evaluateRiskGate(step: WorkflowStep, input: any, request: WorkflowRequest, control: ExecutionControl): Promise<RiskDecision> {
+    const policy = step.risk_policy || DEFAULT_RISK_POLICY;
+    const decision = evaluateRiskPolicy(policy, request.alert_data, input.verification || { verified: false }, input.channels || []);
+
+    if (decision.decision === 'manual_review') {
+      const review = await this.awaitApproval({
+        ...step,
+        approval: {
+          approvers: policy.reviewers || [],
+          default_outcome: policy.review_default_outcome || 'rejected',
+          prompt: `Manual review before broadcasting "${request.alert_data?.title || 'this alert'}": ${decision.reasons.join('; ')}`
+        }
+      }, request, control, false);
+
+      decision.review = review;
+      if (review.outcome === 'approved') {
+        decision.allowed_channels = decision.requested_channels;
+        decision.broadcast_allowed = true;
+      } else {
+        decision.decision = 'block';
+        decision.reasons.push(`manual review rejected by ${review.decided_by}`);
+      }
+    }
+
+    logAuditEvent({
+      actor: this.orchestratorId,
+      action: 'workflow.risk_policy',
+      resource: `workflow:${request.workflow_id}`,
+      result: decision.broadcast_allowed ? 'success' : 'failure',
+      details: {
+        step_id: step.id,
+        alert_id: request.alert_data?.id,
+        decision: decision.decision,
+        reasons: decision.reasons,
+        risk_score: decision.risk_score,
+        allowed_channels: decision.allowed_channels,
+        review: decision.review
+      }
+    });
+    this.streamWorkflowEvent(request.workflow_id, 'risk_policy_decided', {
+      step_id: step.id,
+      decision: decision.decision,
+      allowed_channels: decision.allowed_channels
+    });
+
+    return decision;
+  }
+
+  /**
+   * Give the run's work queue slot to other runs while it waits on a person (an approval, a
+   * review or a pause), and queue for it again at the run's severity before carrying on
+   */
+  private async whileSuspended<T>(workflowId: string, waiting: Promise<T>): Promise<T> {
+    workflowQueue.suspend(workflowId);
+    try {
+      return await waiting;
+    } finally {
+      await workflowQueue.resume(workflowId);
+    }
+  }
+
+  private abortExecution(control: ExecutionControl, reason: string) {
+    control.state = 'cancelled';
+    control.reason = reason;
+    control.abortController.abort();
+    control.notify();
+  }
+
+  private getExecutionControl(workflowId: string): ExecutionControl {
+    const control = this.activeExecutions.get(workflowId);
+    if (!control) {
+      throw new CrisisAssistError(`Workflow ${workflowId} is not running on this server`, 'WORKFLOW_NOT_ACTIVE', 409);
+    }
+    return control;
+  }
+
+  private createExecutionControl(state: ExecutionControl['state']): ExecutionControl {
+    const control = { state, abortController: new AbortController() } as ExecutionControl;
+    const arm = () => {
+      control.changed = new Promise(resolve => {
+        control.notify = () => {
+          arm();
+          resolve();
+        };
+      });
+    };
+    arm();
+    return control;
+  }
+
+  private recordControlTransition(workflowId: string, actor: string, action: 'pause' | 'resume' | 'cancel', details: Record<string, any> = {}) {
+    logAuditEvent({
+      actor,
+      action: `workflow.${action}`,
+      resource: `workflow:${workflowId}`,
+      result: 'success',
+      details
+    });
+
+    logger.info(`Workflow ${action} requested: ${workflowId}`, { actor, ...details });
+    this.streamWorkflowEvent(workflowId, `workflow_${action === 'cancel' ? 'cancelling' : `${action}d`}`, { actor, ...details });
+  }
+
+  /**
+   * Stream a workflow transition to real-time subscribers, when streaming is enabled
+   */
+  private streamWorkflowEvent(workflowId: string, event: string, data: Record<string, any> = {}) {
+    if (streamingService) {
+      streamingService.emitWorkflowEvent(workflowId, event, data);
+    }
+  }
+
+  /**
+   * Dispatch a step to its agent, using a delegated token for user-facing actions
+   */
+  private async executeStep(
+    step: WorkflowStep,
+    input: Record<string, any>,
+    request: WorkflowRequest,
+    auth: NonNullable<AuthenticatedRequest['auth']>,
+    communications: AgentCommunication[],
+    signal?: AbortSignal
+  ): Promise<any> {
+    if (step.delegation) {
+      return this.executeAgentTaskWithDelegation(
+        step.agent_type,
+        step.action,
+        input,
+        step.required_scopes,
+        auth,
+        request.user_id,
+        step.delegation.consent_id,
+        communications,
+        signal
+      );
+    }
+
+    return this.executeAgentTask(
+      step.agent_type,
+      step.action,
+      input,
+      step.required_scopes,
+      auth,
+      communications,
+      signal
+    );
+  }
+
+  /**
+   * Run a step under its timeout, retrying retryable failures with exponential backoff and jitter.
+   * Every attempt is recorded on the step record. A timed-out call is abandoned, not aborted,
+   * which is why steps with external side effects should not list TimeoutError as retryable.
+   * Cancellation stops the current attempt and any further retries.
+   */
+  private async executeStepWithRetry(
+    step: WorkflowStep,
+    input: Record<string, any>,
+    request: WorkflowRequest,
+    auth: NonNullable<AuthenticatedRequest['auth']>,
+    communications: AgentCommunication[],
+    record: WorkflowStepExecution,
+    persist: () => Promise<void>,
+    signal: AbortSignal
+  ): Promise<any> {
+    const policy: WorkflowRetryPolicy = step.retry || { max_attempts: 1 };
+    const retryableErrors = policy.retryable_errors || DEFAULT_RETRYABLE_ERRORS;
+    const attempts = record.attempts = record.attempts || [];
+
+    for (let attempt = 1; ; attempt++) {
+      const startedAt = new Date();
+
+      try {
+        const output = await this.withCancellation(
+          this.withTimeout(
+            this.executeStep(step, input, request, auth, communications, signal),
+            step.timeout_ms,
+            `Step ${step.id} timed out after ${step.timeout_ms}ms`
+          ),
+          signal
+        );
+
+        attempts.push({
+          attempt,
+          started_at: startedAt,
+          completed_at: new Date(),
+          duration_ms: Date.now() - startedAt.getTime(),
+          status: 'succeeded'
+        });
+        return output;
+      } catch (error) {
+        const errorType = error instanceof Error ? error.name : 'Error';
+        const retryable = !signal.aborted && attempt < policy.max_attempts && retryableErrors.includes(errorType);
+        const retryDelay = retryable ? this.computeRetryDelay(policy, attempt) : undefined;
+
+        attempts.push({
+          attempt,
+          started_at: startedAt,
+          completed_at: new Date(),
+          duration_ms: Date.now() - startedAt.getTime(),
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Unknown error',
+          error_type: errorType,
+          retry_delay_ms: retryDelay
+        });
+        await persist();
+
+        if (!retryable) {
+          // Keep the task for an admin to inspect and re-drive, unless the workflow was cancelled
+          if (!signal.aborted && !(error instanceof CancellationError)) {
+            await deadLetterQueue.record({
+              workflow_id: request.workflow_id,
+              step,
+              input,
+              error: error instanceof Error ? error : new Error(String(error)),
+              attempts,
+              auth
+            });
+          }
+          throw error;
+        }
+
+        logger.warn(`Retrying step ${step.id} after ${errorType}`, {
+          workflowId: request.workflow_id,
+          attempt,
+          maxAttempts: policy.max_attempts,
+          retryDelay
+        });
+        await this.withCancellation(new Promise(resolve => setTimeout(resolve, retryDelay)), signal);
+      }
+    }
+  }
+
+  /**
+   * Reject with a CancellationError as soon as the signal is aborted
+   */
+  private withCancellation<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+    if (signal.aborted) {
+      return Promise.reject(new CancellationError('Workflow cancelled'));
+    }
+
+    let onAbort: () => void;
+    const cancelled = new Promise<never>((_, reject) => {
+      onAbort = () => reject(new CancellationError('Workflow cancelled'));
+      signal.addEventListener('abort', onAbort);
+    });
+
+    return Promise.race([promise, cancelled]).finally(() => signal.removeEventListener('abort', onAbort));
+  }
+
+  /**
+   * Exponential backoff with equal jitter: half the delay is fixed, half is random
+   */
+  private computeRetryDelay(policy: WorkflowRetryPolicy, attempt: number): number {
+    const initialDelay = policy.initial_delay_ms || 1000;
+    const multiplier = policy.backoff_multiplier || 2;
+    const maxDelay = policy.max_delay_ms || 30000;
+    const delay = Math.min(maxDelay, initialDelay * Math.pow(multiplier, attempt - 1));
+
+    return Math.round(delay / 2 + Math.random() * (delay / 2));
+  }
+
+  /**
+   * Reject with a TimeoutError if the promise does not settle in time
+   */
+  private withTimeout<T>(promise: Promise<T>, timeoutMs: number, message: string): Promise<T> {
+    if (!timeoutMs) {
+      return promise;
+    }
+
+    let timer: NodeJS.Timeout;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new TimeoutError(message, { timeout_ms: timeoutMs })), timeoutMs);
+    });
+
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+  }
+
+  /**
+   * Undo completed steps in reverse completion order by running their declared compensations.
+   * Each compensation is audited; one that fails is recorded and the remaining ones still run.
+   */
+  private async compensate(
+    definition: WorkflowDefinition,
+    request: WorkflowRequest,
+    auth: NonNullable<AuthenticatedRequest['auth']>,
+    stepRecords: WorkflowStepExecution[],
+    communications: AgentCommunication[],
+    reason: string
+  ): Promise<void> {
+    const context: WorkflowContext = {
+      request: {
+        workflow_id: request.workflow_id,
+        user_id: request.user_id,
+        consent_granted: request.consent_granted,
+        requested_actions: request.requested_actions
+      },
+      alert: request.alert_data,
+      playbook: request.playbook,
+      steps: {},
+      reason
+    };
+    stepRecords
+      .filter(record => record.status === 'completed')
+      .forEach(record => { context.steps[record.step_id] = record.output; });
+
+    const stepFor = (stepId: string) => definition.steps.find(step => step.id === stepId);
+    const toUndo = stepRecords
+      .filter(record => record.status === 'completed' && !record.compensation && stepFor(record.step_id)?.compensation)
+      .sort((a, b) => new Date(b.completed_at!).getTime() - new Date(a.completed_at!).getTime());
+
+    for (const record of toUndo) {
+      const step = stepFor(record.step_id)!;
+      const compensation = step.compensation!;
+      const startedAt = new Date();
+
+      try {
+        const input = this.resolveTemplate(compensation.input || {}, { ...context, output: record.output });
+        const output = await this.withTimeout(
+          this.executeStep(
+            { ...step, agent_type: compensation.agent_type, action: compensation.action, required_scopes: compensation.required_scopes },
+            input,
+            request,
+            auth,
+            communications
+          ),
+          step.timeout_ms,
+          `Compensation for step ${step.id} timed out after ${step.timeout_ms}ms`
+        );
+
+        record.compensation = { status: 'completed', started_at: startedAt, completed_at: new Date(), output };
+      } catch (error) {
+        logger.error(`Compensation for step ${step.id} failed: ${request.workflow_id}`, error);
+        record.compensation = {
+          status: 'failed',
+          started_at: startedAt,
+          completed_at: new Date(),
+          error: error instanceof Error ? error.message : 'Unknown error'
+        };
+      }
+
+      await workflowExecutionStore.saveSteps(request.workflow_id, stepRecords);
+
+      logAuditEvent({
+        actor: this.orchestratorId,
+        action: 'workflow.compensate',
+        resource: `workflow:${request.workflow_id}`,
+        result: record.compensation.status === 'completed' ? 'success' : 'failure',
+        details: {
+          step_id: step.id,
+          compensation_action: `${compensation.agent_type}.${compensation.action}`,
+          reason,
+          error: record.compensation.error
+        }
+      });
+    }
+  }
+
+  /**
+   * Decide whether a step's dependencies satisfy its join policy (all by default)
+   */
+  private evaluateJoin(
+    step: WorkflowStep,
+    recordFor: (stepId: string) => WorkflowStepExecution
+  ): 'ready' | 'waiting' | 'unsatisfiable' {
+    const dependencies = (step.depends_on || []).map(recordFor);
+    if (dependencies.length === 0) {
+      return 'ready';
+    }
+
+    const policy = step.join?.policy || 'all';
+    const required = policy === 'any' ? 1 : policy === 'quorum' ? step.join!.quorum! : dependencies.length;
+    const completed = dependencies.filter(record => record.status === 'completed').length;
+    const undecided = dependencies.filter(record => record.status === 'pending' || record.status === 'running').length;
+
+    if (completed >= required) {
+      return 'ready';
+    }
+    return completed + undecided < required ? 'unsatisfiable' : 'waiting';
+  }
+
+  /**
+   * Report when each branch ran so slow external services are visible per step
+   */
+  private collectBranchTimings(definition: WorkflowDefinition, stepRecords: WorkflowStepExecution[]): BranchTiming[] {
+    return stepRecords
+      .filter(record => record.started_at)
+      .map(record => {
+        const startedAt = new Date(record.started_at!);
+        const completedAt = record.completed_at ? new Date(record.completed_at) : undefined;
+
+        return {
+          step_id: record.step_id,
+          agent_type: definition.steps.find(step => step.id === record.step_id)?.agent_type || 'unknown',
+          status: record.status,
+          started_at: startedAt.toISOString(),
+          completed_at: completedAt?.toISOString(),
+          duration_ms: completedAt ? completedAt.getTime() - startedAt.getTime() : undefined
+        };
+      });
+  }
+
+  /**
+   * Resume or explicitly fail executions left running by a previous process.
+   * An interrupted step is only re-run when it is marked idempotent; otherwise its
+   * side effects may be half-done and the execution is failed for operator review.
+   */
+  async recoverInterruptedExecutions(): Promise<{ resumed: number; failed: number }> {
+    // Paused executions are resumed in the paused state so operators can still resume or cancel them
+    const interrupted = [
+      ...await workflowExecutionStore.listByStatus('queued'),
+      ...await workflowExecutionStore.listByStatus('running'),
+      ...await workflowExecutionStore.listByStatus('paused'),
+      ...await workflowExecutionStore.listByStatus('awaiting_approval')
+    ];
+    let resumed = 0;
+    let failed = 0;
+
+    for (const execution of interrupted) {
+      const playbook = (execution.request_data as WorkflowRequest).playbook;
+      const definition = playbook ? playbookToWorkflowDefinition(playbook) : await workflowRegistry.get(execution.definition_id);
+      const inFlight = execution.steps.filter(record => record.status === 'running');
+      // Approval and risk gate steps are safe to re-enter: a pending approval or review is persisted and reused
+      const unsafeStep = inFlight.find(record => {
+        const step = definition?.steps.find(candidate => candidate.id === record.step_id);
+        return !(step?.idempotent || step?.type === 'approval' || step?.type === 'risk_gate');
+      });
+
+      let failureReason: string | null = null;
+      if (!definition) {
+        failureReason = `Workflow definition ${execution.definition_id} no longer exists`;
+      } else if (definition.version !== execution.definition_version) {
+        failureReason = `Workflow definition ${definition.id} changed from version ${execution.definition_version} to ${definition.version}`;
+      } else if (unsafeStep) {
+        failureReason = `Interrupted during step ${unsafeStep.step_id}; its side effects may be incomplete`;
+      }
+
+      if (failureReason) {
+        inFlight.forEach(record => {
+          record.status = 'failed';
+          record.error = 'Interrupted by process restart';
+        });
+        if (definition) {
+          // Undo what already completed; the interrupted step itself has no output to compensate from
+          try {
+            const auth = await this.createRecoveryAuth(execution.user_id);
+            await this.compensate(definition, execution.request_data as WorkflowRequest, auth, execution.steps, [], failureReason);
+          } catch (error) {
+            logger.error(`Failed to compensate interrupted workflow ${execution.id}:`, error);
+          }
+        }
+        await workflowExecutionStore.finish(execution.id, {
+          status: 'failed',
+          steps: execution.steps,
+          error: failureReason
+        });
+
+        logAuditEvent({
+          actor: this.orchestratorId,
+          action: 'workflow.recover',
+          resource: `workflow:${execution.id}`,
+          result: 'failure',
+          details: { reason: failureReason }
+        });
+        failed++;
+        continue;
+      }
+
+      inFlight.forEach(record => {
+        record.status = 'pending';
+        delete record.started_at;
+      });
+
+      const request = execution.request_data as WorkflowRequest;
+      const auth = await this.createRecoveryAuth(execution.user_id);
+
+      logAuditEvent({
+        actor: this.orchestratorId,
+        action: 'workflow.recover',
+        resource: `workflow:${execution.id}`,
+        result: 'success',
+        details: { resumed_steps: execution.steps.filter(record => record.status === 'pending').map(record => record.step_id) }
+      });
+      resumed++;
+
+      // Resumed runs continue in the background so startup is not blocked
+      workflowQueue.enqueue(
+        execution.id,
+        request.alert_data?.severity,
+        () => this.executeWorkflow(definition!, request, auth, execution)
+      ).catch(error => {
+        logger.error(`Resumed workflow failed: ${execution.id}`, error);
+      });
+    }
+
+    if (interrupted.length > 0) {
+      logger.info('Recovered interrupted workflow executions', { resumed, failed });
+    }
+
+    return { resumed, failed };
+  }
+
+  /**
+   * Run a dead-lettered agent task again with its (possibly edited) input, on behalf of the user
+   * the original workflow ran for. The attempt is recorded against the original workflow and step.
+   */
+  async redriveDeadLetter(deadLetterId: string, actor: string): Promise<{ task: DeadLetterTask; redrive: DeadLetterRedrive }> {
+    const task = await deadLetterQueue.claim(deadLetterId);
+    const startedAt = Date.now();
+    let outcome: { status: DeadLetterRedrive['status']; output?: any; error?: string };
+
+    try {
+      const execution = await workflowExecutionStore.get(task.workflow_id);
+      const userId = task.auth_context.user_id || execution?.user_id;
+      if (!userId) {
+        throw new Error(`No user to re-drive workflow ${task.workflow_id} on behalf of`);
+      }
+
+      const auth = await this.createRecoveryAuth(userId);
+      const communications: AgentCommunication[] = [];
+      const output = task.consent_id
+        ? await this.executeAgentTaskWithDelegation(task.agent_type, task.action, task.input, task.required_scopes, auth, userId, task.consent_id, communications)
+        : await this.executeAgentTask(task.agent_type, task.action, task.input, task.required_scopes, auth, communications);
+      outcome = { status: 'succeeded', output };
+    } catch (error) {
+      outcome = { status: 'failed', error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+
+    const redrive = await deadLetterQueue.recordRedrive(task, { attempted_by: actor, duration_ms: Date.now() - startedAt, ...outcome });
+
+    logAuditEvent({
+      actor,
+      action: 'agent_task.redrive',
+      resource: `workflow:${task.workflow_id}`,
+      result: outcome.status === 'succeeded' ? 'success' : 'failure',
+      details: { dead_letter_id: task.id, redrive_id: redrive.id, step_id: task.step_id, error: outcome.error }
+    });
+    this.streamWorkflowEvent(task.workflow_id, 'dead_letter_redriven', {
+      dead_letter_id: task.id,
+      step_id: task.step_id,
+      status: outcome.status,
+      error: outcome.error
+    });
+
+    return { task: (await deadLetterQueue.get(task.id))!, redrive };
+  }
+
+  /**
+   * Build an orchestrator auth context for resuming a workflow without the original request
+   */
+  private async createRecoveryAuth(userId: string): Promise<NonNullable<AuthenticatedRequest['auth']>> {
+    const scopes = ['workflow.execute'];
+    const token = await generateAgentAccessToken(`${this.orchestratorId}_recovery`, scopes, 1800);
+    const validation = await validateAgentToken(token);
+
+    if (!validation.valid || !validation.claims) {
+      throw new Error(`Recovery token validation failed: ${validation.error}`);
+    }
+
+    return { claims: validation.claims, token, scopes, userId };
+  }
+
+  /**
+   * Validate and register a workflow definition so it can be executed without a redeploy
+   */
+  async registerWorkflowDefinition(definition: WorkflowDefinition, userId: string): Promise<WorkflowDefinition> {
+    const errors = [
+      ...validateWorkflowDefinition(definition, this.getSupportedActions(), agentRegistry.getCapabilityActions()),
+      ...this.validateStepScopes(definition.steps)
+    ];
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid workflow definition', errors);
+    }
+
+    return workflowRegistry.save(definition, userId);
+  }
+
+  /**
+   * Validate and store a response playbook. Custom steps are checked like a workflow definition.
+   */
+  async savePlaybook(playbook: ResponsePlaybook, userId: string): Promise<ResponsePlaybook> {
+    const errors = validatePlaybook(playbook);
+    if (playbook.steps !== undefined) {
+      errors.push(...validateWorkflowDefinition(
+        { id: playbook.id, name: playbook.name, version: 1, steps: playbook.steps },
+        this.getSupportedActions(),
+        agentRegistry.getCapabilityActions()
+      ));
+      if (Array.isArray(playbook.steps)) {
+        errors.push(...this.validateStepScopes(playbook.steps));
+      }
+    }
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid playbook', errors);
+    }
+
+    return playbookRegistry.save(playbook, userId);
+  }
+
+  /**
+   * Agent actions that workflow steps can reference
+   */
+  getSupportedActions(): Record<string, string[]> {
+    return agentRegistry.getSupportedActions();
+  }
+
+  /**
+   * Steps (and compensations) that ask for scopes their agent may not be granted
+   */
+  private validateStepScopes(steps: WorkflowStep[]): string[] {
+    const errors: string[] = [];
+    steps.forEach(step => {
+      if (step?.type === 'approval' || step?.type === 'risk_gate') {
+        return;
+      }
+      if (step?.agent_type && Array.isArray(step.required_scopes) && agentRegistry.get(step.agent_type)) {
+        const disallowed = agentRegistry.disallowedScopes(step.agent_type, step.required_scopes);
+        if (disallowed.length > 0) {
+          errors.push(`steps[${step.id}]: agent ${step.agent_type} may not be granted ${disallowed.join(', ')}`);
+        }
+      }
+      const compensation = step?.compensation;
+      if (compensation && Array.isArray(compensation.required_scopes) && agentRegistry.get(compensation.agent_type)) {
+        const disallowed = agentRegistry.disallowedScopes(compensation.agent_type, compensation.required_scopes);
+        if (disallowed.length > 0) {
+          errors.push(`steps[${step.id}]: compensation agent ${compensation.agent_type} may not be granted ${disallowed.join(', ')}`);
+        }
+      }
+    });
+    return errors;
+  }
+
+  /**
+   * Steps that name a capability instead of an agent run on the first registered agent offering it
+   */
+  private resolveStepAgent(step: WorkflowStep): WorkflowStep {
+    if (step.type === 'approval' || step.type === 'risk_gate' || step.agent_type) {
+      return step;
+    }
+    return { ...step, agent_type: agentRegistry.resolveAgentType(step) };
+  }
+
+  /**
+   * Resolve "$.path" references in a step template against the workflow context
+   */
+  private resolveTemplate(template: any, context: WorkflowContext): any {
+    if (typeof template === 'string' && template.startsWith('$.')) {
+      return template
+        .substring(2)
+        .split('.')
+        .reduce((value: any, key: string) => (value === undefined || value === null ? undefined : value[key]), context);
+    }
+
+    if (Array.isArray(template)) {
+      return template.map(item => this.resolveTemplate(item, context));
+    }
+
+    if (template && typeof template === 'object') {
+      const resolved: Record<string, any> = {};
+      Object.entries(template).forEach(([key, value]) => {
+        resolved[key] = this.resolveTemplate(value, context);
+      });
+      return resolved;
+    }
+
+    return template;
+  }
+
+  /**
+   * Enforce a step's declared input or output schema
+   */
+  private assertSchema(step: WorkflowStep, direction: 'input' | 'output', value: any): void {
+    const schema = direction === 'input' ? step.input_schema : step.output_schema;
+    const errors = validateAgainstSchema(schema, value, `${step.id}.${direction}`);
+
+    if (errors.length > 0) {
+      throw new ValidationError(`Step ${step.id} ${direction} does not match its schema`, errors);
+    }
   }
 
   /**
@@ -234,7 +1570,8 @@ export class AgentOrchestrator {
     data: any,
     requiredScopes: string[],
     auth: NonNullable<AuthenticatedRequest['auth']>,
-    communications: AgentCommunication[]
+    communications: AgentCommunication[],
+    signal?: AbortSignal
   ): Promise<any> {
     try {
       // Generate scoped token for the agent
@@ -252,7 +1589,7 @@ export class AgentOrchestrator {
 
       const hasScopes = verifyAgentScopes(requiredScopes, validation.claims.scope?.split(' ') || []);
       if (!hasScopes) {
-        throw new Error(`Agent lacks required scopes: ${requiredScopes.join(', ')}`);
+        throw new AuthorizationError(`Agent lacks required scopes: ${requiredScopes.join(', ')}`);
       }
 
       // Log the agent communication
@@ -266,26 +1603,9 @@ export class AgentOrchestrator {
       };
       communications.push(communication);
 
-      // Execute the agent task based on type
-      let result: any;
+      // Execute the agent task based on type and action
       const agentAuth = { ...auth, token: agentToken, claims: validation.claims };
-
-      switch (agentType) {
-        case 'alert_agent':
-          result = await this.alertAgent.processAlert(data.alertId, agentAuth);
-          break;
-        case 'verifier_agent':
-          result = await this.verifierAgent.verifyContent(data, agentAuth);
-          break;
-        case 'scheduler_agent':
-          result = await this.schedulerAgent.scheduleRelief(data, agentAuth);
-          break;
-        case 'notifier_agent':
-          result = await this.notifierAgent.sendEmergencyNotifications(data, agentAuth);
-          break;
-        default:
-          throw new Error(`Unknown agent type: ${agentType}`);
-      }
+      const result = await this.invokeAgent(agentType, action, requiredScopes, data, agentAuth, signal);
 
       logger.info(`Agent task completed: ${agentType}.${action}`, {
         agentType,
@@ -312,7 +1632,8 @@ export class AgentOrchestrator {
     auth: NonNullable<AuthenticatedRequest['auth']>,
     userId: string,
     consentId: string,
-    communications: AgentCommunication[]
+    communications: AgentCommunication[],
+    signal?: AbortSignal
   ): Promise<any> {
     try {
       // Create delegated token with user consent
@@ -347,19 +1668,8 @@ export class AgentOrchestrator {
       communications.push(communication);
 
       // Execute the agent task with delegated authority
-      let result: any;
       const delegatedAuth = { ...auth, token: delegatedToken, claims: validation.claims };
-
-      switch (agentType) {
-        case 'scheduler_agent':
-          result = await this.schedulerAgent.scheduleRelief(data, delegatedAuth);
-          break;
-        case 'notifier_agent':
-          result = await this.notifierAgent.sendEmergencyNotifications(data, delegatedAuth);
-          break;
-        default:
-          throw new Error(`Agent type ${agentType} does not support delegation`);
-      }
+      const result = await this.invokeAgent(agentType, action, requiredScopes, data, delegatedAuth, signal);
 
       logger.info(`Delegated agent task completed: ${agentType}.${action}`, {
         agentType,
@@ -377,6 +1687,33 @@ export class AgentOrchestrator {
     }
   }
 
+  /**
+   * Run a registered agent's handler, refusing scopes the agent may not be granted
+   */
+  private async invokeAgent(
+    agentType: string,
+    action: string,
+    requiredScopes: string[],
+    data: any,
+    auth: NonNullable<AuthenticatedRequest['auth']>,
+    signal?: AbortSignal
+  ): Promise<any> {
+    const handler = agentRegistry.getHandler(agentType, action);
+    const disallowed = agentRegistry.disallowedScopes(agentType, requiredScopes);
+    if (disallowed.length > 0) {
+      throw new AuthorizationError(`Agent ${agentType} may not be granted scopes: ${disallowed.join(', ')}`);
+    }
+
+    try {
+      const result = await handler(data, auth, signal);
+      agentRegistry.recordInvocation(agentType);
+      return result;
+    } catch (error) {
+      agentRegistry.recordInvocation(agentType, error instanceof Error ? error : new Error(String(error)));
+      throw error;
+    }
+  }
+
   /**
    * Determine overall workflow status based on agent results
    */
@@ -402,17 +1739,30 @@ export class AgentOrchestrator {
       id: this.orchestratorId,
       name: 'Multi-Agent Emergency Response Orchestrator',
       description: 'Coordinates secure communication between specialized emergency response agents',
-      agents: [
-        this.alertAgent.getAgentInfo(),
-        this.verifierAgent.getAgentInfo(),
-        this.schedulerAgent.getAgentInfo(),
-        this.notifierAgent.getAgentInfo()
-      ],
+      agents: agentRegistry.list().map(agent => agent.info?.() || {
+        type: agent.name,
+        name: agent.display_name,
+        description: agent.description,
+        capabilities: agent.capabilities,
+        status: 'active'
+      }),
       capabilities: [
         'secure_agent_communication',
         'scoped_access_control',
         'delegated_consent_management',
         'workflow_orchestration',
+        'declarative_workflow_definitions',
+        'parallel_workflow_branches',
+        'step_timeouts_and_retries',
+        'saga_compensation',
+        'workflow_cancellation',
+        'human_approval_gates',
+        'dry_run_planning',
+        'risk_gated_broadcast',
+        'hazard_playbooks',
+        'severity_priority_queue',
+        'dead_letter_redrive',
+        'dynamic_agent_registry',
         'audit_trail_generation'
       ],
       security_features: [
@@ -426,3 +1776,6 @@ export class AgentOrchestrator {
     };
   }
 }
+
+// Export singleton instance
+export const agentOrchestrator = new AgentOrchestrator();
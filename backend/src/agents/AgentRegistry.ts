@@ -0,0 +1,240 @@
+import { logger, logAuditEvent } from '../utils/logger';
+import { AuthenticatedRequest, CrisisAssistError, NotFoundError, ValidationError, WorkflowStep } from '../types';
+
+export type AgentHandler = (data: any, auth: NonNullable<AuthenticatedRequest['auth']>, signal?: AbortSignal) => Promise<any>;
+
+// Side-effect-free preview of a handler, used by plan mode. Receives the workflow context.
+export type AgentPlanner = (data: any, context: { alert: any; steps: Record<string, any>; [key: string]: any }) => Promise<any>;
+
+export interface AgentRegistration {
+  name: string; // What workflow steps reference as agent_type, e.g. "shelter_agent"
+  display_name: string;
+  description?: string;
+  capabilities: string[];
+  scopes: string[]; // The most a step may grant this agent's tokens
+  handlers: Record<string, AgentHandler>;
+  planners?: Record<string, AgentPlanner>;
+  info?: () => Record<string, any>; // Extra details shown in the status listing
+}
+
+export interface RegisteredAgentStatus {
+  name: string;
+  display_name: string;
+  description?: string;
+  capabilities: string[];
+  scopes: string[];
+  actions: string[];
+  plannable_actions: string[];
+  registered_at: Date;
+  invocations: number;
+  failures: number;
+  last_activity?: Date;
+  last_error?: string;
+  details?: Record<string, any>;
+}
+
+const NAME_PATTERN = /^[a-z][a-z0-9_]{2,63}$/;
+
+/**
+ * Agents the orchestrator can run. Implementations register a name, their capabilities, the
+ * scopes they may be granted and their handlers; workflow steps then reference an agent either
+ * by name (agent_type) or by capability, so new agents need no orchestrator changes.
+ */
+export class AgentRegistry {
+  private agents: Map<string, AgentRegistration & { registered_at: Date }> = new Map();
+  private activity: Map<string, { invocations: number; failures: number; last_activity?: Date; last_error?: string }> = new Map();
+
+  /**
+   * Register an agent. Registering a name twice is an error unless `replace` is set.
+   */
+  register(registration: AgentRegistration, options: { replace?: boolean } = {}): void {
+    const errors = this.validate(registration);
+    if (errors.length > 0) {
+      throw new ValidationError(`Invalid agent registration ${registration?.name}`, errors);
+    }
+    if (this.agents.has(registration.name) && !options.replace) {
+      throw new CrisisAssistError(`Agent ${registration.name} is already registered`, 'AGENT_ALREADY_REGISTERED', 409);
+    }
+
+    this.agents.set(registration.name, { ...registration, registered_at: new Date() });
+    if (!this.activity.has(registration.name)) {
+      this.activity.set(registration.name, { invocations: 0, failures: 0 });
+    }
+
+    logAuditEvent({
+      actor: 'orchestrator_001',
+      action: 'agent.register',
+      resource: `agent:${registration.name}`,
+      result: 'success',
+      details: {
+        capabilities: registration.capabilities,
+        scopes: registration.scopes,
+        actions: Object.keys(registration.handlers)
+      }
+    });
+    logger.info(`Agent registered: ${registration.name}`, { capabilities: registration.capabilities });
+  }
+
+  unregister(name: string): boolean {
+    const removed = this.agents.delete(name);
+    if (removed) {
+      logger.info(`Agent unregistered: ${name}`);
+    }
+    return removed;
+  }
+
+  get(name: string): AgentRegistration | undefined {
+    return this.agents.get(name);
+  }
+
+  list(): AgentRegistration[] {
+    return [...this.agents.values()];
+  }
+
+  /**
+   * Agents offering a capability, in registration order
+   */
+  findByCapability(capability: string, action?: string): AgentRegistration[] {
+    return this.list().filter(agent =>
+      agent.capabilities.includes(capability) && (!action || Boolean(agent.handlers[action]))
+    );
+  }
+
+  /**
+   * The agent a step runs on: the named agent_type, or else the first agent with the step's
+   * capability that supports its action
+   */
+  resolveAgentType(step: Pick<WorkflowStep, 'agent_type' | 'capability' | 'action'>): string {
+    if (step.agent_type) {
+      return step.agent_type;
+    }
+
+    const [agent] = this.findByCapability(step.capability!, step.action);
+    if (!agent) {
+      throw new NotFoundError(`No registered agent provides capability ${step.capability} with action ${step.action}`);
+    }
+    return agent.name;
+  }
+
+  getHandler(name: string, action: string): AgentHandler {
+    const agent = this.agents.get(name);
+    if (!agent) {
+      throw new Error(`Unknown agent type: ${name}`);
+    }
+    if (!agent.handlers[action]) {
+      throw new Error(`Agent type ${name} does not support action ${action}`);
+    }
+    return agent.handlers[action];
+  }
+
+  getPlanner(name: string, action: string): AgentPlanner | undefined {
+    return this.agents.get(name)?.planners?.[action];
+  }
+
+  /**
+   * Actions per agent name, for validating workflow definitions
+   */
+  getSupportedActions(): Record<string, string[]> {
+    const supported: Record<string, string[]> = {};
+    this.agents.forEach((agent, name) => {
+      supported[name] = Object.keys(agent.handlers);
+    });
+    return supported;
+  }
+
+  /**
+   * Actions available per capability, across every agent that offers it
+   */
+  getCapabilityActions(): Record<string, string[]> {
+    const capabilities: Record<string, string[]> = {};
+    this.agents.forEach(agent => {
+      agent.capabilities.forEach(capability => {
+        capabilities[capability] = [...new Set([...(capabilities[capability] || []), ...Object.keys(agent.handlers)])];
+      });
+    });
+    return capabilities;
+  }
+
+  /**
+   * Scopes a step asks for that the agent may not be granted
+   */
+  disallowedScopes(name: string, requiredScopes: string[]): string[] {
+    const agent = this.agents.get(name);
+    if (!agent) {
+      return requiredScopes;
+    }
+    return requiredScopes.filter(scope => !agent.scopes.includes(scope));
+  }
+
+  recordInvocation(name: string, error?: Error): void {
+    const activity = this.activity.get(name);
+    if (!activity) {
+      return;
+    }
+
+    activity.invocations++;
+    activity.last_activity = new Date();
+    if (error) {
+      activity.failures++;
+      activity.last_error = error.message;
+    }
+  }
+
+  describe(): RegisteredAgentStatus[] {
+    return [...this.agents.values()].map(agent => {
+      const activity = this.activity.get(agent.name) || { invocations: 0, failures: 0 };
+      return {
+        name: agent.name,
+        display_name: agent.display_name,
+        description: agent.description,
+        capabilities: agent.capabilities,
+        scopes: agent.scopes,
+        actions: Object.keys(agent.handlers),
+        plannable_actions: Object.keys(agent.planners || {}),
+        registered_at: agent.registered_at,
+        invocations: activity.invocations,
+        failures: activity.failures,
+        last_activity: activity.last_activity,
+        last_error: activity.last_error,
+        details: agent.info?.()
+      };
+    });
+  }
+
+  private validate(registration: AgentRegistration): string[] {
+    const errors: string[] = [];
+    if (!registration || typeof registration !== 'object') {
+      return ['Registration must be an object'];
+    }
+
+    if (typeof registration.name !== 'string' || !NAME_PATTERN.test(registration.name)) {
+      errors.push('name must be 3-64 characters of lowercase letters, digits or "_", starting with a letter');
+    }
+    if (registration.name === 'orchestrator') {
+      errors.push('name "orchestrator" is reserved');
+    }
+    if (typeof registration.display_name !== 'string' || registration.display_name.length === 0) {
+      errors.push('display_name is required');
+    }
+    if (!Array.isArray(registration.capabilities) || registration.capabilities.some(capability => typeof capability !== 'string')) {
+      errors.push('capabilities must be an array of strings');
+    }
+    if (!Array.isArray(registration.scopes) || registration.scopes.some(scope => typeof scope !== 'string')) {
+      errors.push('scopes must be an array of strings');
+    }
+    if (!registration.handlers || Object.keys(registration.handlers).length === 0 ||
+      Object.values(registration.handlers).some(handler => typeof handler !== 'function')) {
+      errors.push('handlers must map at least one action to a function');
+    }
+    Object.keys(registration.planners || {}).forEach(action => {
+      if (!registration.handlers?.[action]) {
+        errors.push(`planner ${action} has no matching handler`);
+      }
+    });
+
+    return errors;
+  }
+}
+
+// Export singleton instance
+export const agentRegistry = new AgentRegistry();
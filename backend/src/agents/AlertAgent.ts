@@ -1,11 +1,23 @@
 import { query } from '../database/connection';
 import { logger, logAuditEvent } from '../utils/logger';
-import { AuthenticatedRequest, NotFoundError } from '../types';
+import { AffectedArea, AnalysisRuleSet, AuthenticatedRequest, GeocodeResult, NotFoundError, PopulationExposure, ValidationError } from '../types';
 import { genkitMultiAgentFramework } from '../utils/genkitAgentFramework';
 import { streamingService } from '../utils/realTimeStreaming';
 import axios from 'axios';
 import { SlackService } from '../utils/slack';
 import { twilioService } from '../utils/twilio';
+import { alertCorrelator, CorrelationMatch } from './AlertCorrelator';
+import { areaBoundingBox, areaCenter, validateAffectedArea } from '../utils/geo';
+import { gazetteer } from '../utils/gazetteer';
+import { populationGrid } from '../utils/populationGrid';
+import { analysisRuleRegistry, evaluateAnalysisRules } from './AnalysisRuleRegistry';
+
+// Placeholder when an address cannot be geocoded at all (Indore city centre)
+const DEFAULT_LOCATION = { lat: 22.7196, lng: 75.8577 };
+// Population is counted within this distance of alerts that have a location but no affected area
+const POPULATION_POINT_RADIUS_M = parseInt(process.env.POPULATION_POINT_RADIUS_M || '2000');
+// Below this geocoding confidence a point is too uncertain to count the people around it
+const MIN_EXPOSURE_LOCATION_CONFIDENCE = 0.5;
 
 export interface AlertProcessingResult {
   alert_id: string;
@@ -15,12 +27,14 @@ export interface AlertProcessingResult {
     affected_population: number;
     required_resources: string[];
     recommended_actions: string[];
+    population_exposure?: PopulationExposure; // Set when a population grid covers the alert; affected_population is then its total
   };
   next_steps: {
     schedule_relief: boolean;
     notify_authorities: boolean;
     evacuate_area: boolean;
   };
+  rules: { version: number; source: AnalysisRuleSet['source']; matched: string[] }; // Analysis rule set applied
   processing_time: number;
 }
 
@@ -47,21 +61,36 @@ export class AlertAgent {
       lat?: number;
       lng?: number;
     };
+    affected_area?: AffectedArea;
     metadata?: any;
-  }, auth: NonNullable<AuthenticatedRequest['auth']>): Promise<{ alert_id: string; immediate_actions: any[] }> {
+  }, auth: NonNullable<AuthenticatedRequest['auth']>, options: { draft?: boolean } = {}): Promise<{ alert_id: string; immediate_actions: any[]; location: GeocodeResult; correlation?: CorrelationMatch }> {
     const startTime = Date.now();
     
     try {
-      // 1. Validate location using Geoapify (real geocoding)
-      const validatedLocation = await this.validateAndEnhanceLocation(crisisData.location);
+      if (crisisData.affected_area) {
+        const areaErrors = validateAffectedArea(crisisData.affected_area);
+        if (areaErrors.length > 0) {
+          throw new ValidationError('Invalid affected area', areaErrors);
+        }
+      }
+
+      // 1. Validate location using Geoapify (real geocoding); an area without a point is located at its centre
+      const validatedLocation = await this.validateAndEnhanceLocation(
+        crisisData.affected_area && crisisData.location.lat == null
+          ? { ...crisisData.location, ...areaCenter(crisisData.affected_area) }
+          : crisisData.location
+      );
       
-      // 2. Create alert in database
-      const alertId = await this.createAlertRecord(crisisData, validatedLocation);
+      // 2. Create alert in database; drafts wait for activateDraftAlert before anyone is told
+      const alertId = await this.createAlertRecord(crisisData, validatedLocation, options.draft ? 'draft' : 'active');
+
+      // 3. Near-duplicates of an active alert join its incident instead of notifying everyone again
+      const correlation = options.draft ? null : await this.correlateAlert(alertId, crisisData, validatedLocation);
       
-      // 3. Immediately broadcast to internal team (REAL Slack notification)
-      const immediateNotifications = await this.sendImmediateAlerts(alertId, crisisData);
+      // 4. Immediately broadcast to internal team (REAL Slack notification)
+      const immediateNotifications = correlation || options.draft ? [] : await this.sendImmediateAlerts(alertId, crisisData);
       
-      // 4. Log the real detection
+      // 5. Log the real detection
       logAuditEvent({
         actor: this.agentId,
         action: 'crisis.detect',
@@ -72,11 +101,16 @@ export class AlertAgent {
           type: crisisData.type,
           severity: crisisData.severity,
           location: validatedLocation.address,
-          immediate_notifications: immediateNotifications.length
+          location_confidence: validatedLocation.confidence,
+          location_source: validatedLocation.source,
+          immediate_notifications: immediateNotifications.length,
+          incident_id: correlation?.incident_id,
+          correlated_with: correlation?.matched_alert_id,
+          draft: options.draft || undefined
         }
       });
 
-      logger.info(`🚨 CRISIS DETECTED AND ALERT CREATED: ${alertId}`, {
+      logger.info(`🚨 CRISIS DETECTED AND ${options.draft ? 'DRAFT ' : ''}ALERT CREATED: ${alertId}`, {
         agentId: this.agentId,
         source: crisisData.source,
         type: crisisData.type,
@@ -86,7 +120,9 @@ export class AlertAgent {
 
       return {
         alert_id: alertId,
-        immediate_actions: immediateNotifications
+        immediate_actions: immediateNotifications,
+        location: validatedLocation,
+        correlation: correlation || undefined
       };
     } catch (error) {
       logger.error('Crisis detection failed:', error);
@@ -95,21 +131,23 @@ export class AlertAgent {
   }
 
   /**
-   * 🌍 REAL WORK: Validate location using Geoapify API
+   * 🌍 REAL WORK: Validate location using Geoapify API, falling back to the offline gazetteer.
+   * Every result carries a confidence; the Indore placeholder is only used when nothing matched
+   * and is reported with confidence 0. Supplied coordinates are kept as given and never geocoded.
    */
-  private async validateAndEnhanceLocation(location: { address: string; lat?: number; lng?: number }): Promise<{ address: string; lat: number; lng: number; formatted_address: string }> {
+  private async validateAndEnhanceLocation(location: { address: string; lat?: number; lng?: number }): Promise<GeocodeResult> {
+    // Sensors, CAP areas and callers with a fix know better than a geocode of the address text
+    if (location.lat != null && location.lng != null) {
+      return this.offlineLocation(location);
+    }
+
     try {
       // Use Geoapify for real geocoding (free tier available)
       const geoapifyKey = process.env.GEOAPIFY_API_KEY || 'demo_key';
       
       if (geoapifyKey === 'demo_key') {
-        // Demo mode - return mock coordinates
-        return {
-          address: location.address,
-          lat: location.lat || 22.7196,
-          lng: location.lng || 75.8577,
-          formatted_address: `${location.address}, India`
-        };
+        // Demo mode - no geocoding service, resolve offline
+        return this.offlineLocation(location);
       }
 
       const response = await axios.get(`https://api.geoapify.com/v1/geocode/search`, {
@@ -126,37 +164,70 @@ export class AlertAgent {
           address: location.address,
           lat: feature.geometry.coordinates[1],
           lng: feature.geometry.coordinates[0],
-          formatted_address: feature.properties.formatted
+          formatted_address: feature.properties.formatted,
+          confidence: feature.properties.rank?.confidence ?? 0.8,
+          source: 'geoapify'
         };
       }
 
-      // Fallback to provided coordinates or defaults
+      return this.offlineLocation(location);
+    } catch (error) {
+      logger.warn('Geoapify geocoding failed, using offline gazetteer:', error);
+      return this.offlineLocation(location);
+    }
+  }
+
+  private offlineLocation(location: { address: string; lat?: number; lng?: number }): GeocodeResult {
+    if (location.lat != null && location.lng != null) {
+      const nearest = gazetteer.reverse(location.lat, location.lng);
       return {
         address: location.address,
-        lat: location.lat || 22.7196,
-        lng: location.lng || 75.8577,
-        formatted_address: location.address
+        lat: location.lat,
+        lng: location.lng,
+        formatted_address: location.address || nearest?.formatted_address || `${location.lat}, ${location.lng}`,
+        confidence: 1,
+        source: 'provided',
+        matched_place: nearest?.entry.name
       };
-    } catch (error) {
-      logger.warn('Geoapify geocoding failed, using fallback:', error);
+    }
+
+    const match = gazetteer.geocode(location.address);
+    if (match) {
       return {
         address: location.address,
-        lat: location.lat || 22.7196,
-        lng: location.lng || 75.8577,
-        formatted_address: location.address
+        lat: match.entry.lat,
+        lng: match.entry.lng,
+        formatted_address: match.formatted_address,
+        confidence: match.confidence,
+        source: 'gazetteer',
+        matched_place: match.entry.name
       };
     }
+
+    logger.warn(`Could not geocode "${location.address}"; using default coordinates`);
+    return {
+      address: location.address,
+      lat: DEFAULT_LOCATION.lat,
+      lng: DEFAULT_LOCATION.lng,
+      formatted_address: location.address,
+      confidence: 0,
+      source: 'default'
+    };
   }
 
   /**
    * 💾 REAL WORK: Create alert record in database
    */
-  private async createAlertRecord(crisisData: any, location: any): Promise<string> {
+  private async createAlertRecord(crisisData: any, location: GeocodeResult, status: 'draft' | 'active'): Promise<string> {
     const alertId = `alert_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const area: AffectedArea | undefined = crisisData.affected_area;
+    const box = area ? areaBoundingBox(area) : null;
     
     await query(`
-      INSERT INTO alerts (id, type, severity, title, description, location_address, location_lat, location_lng, metadata, status, created_at, updated_at)
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, NOW(), NOW())
+      INSERT INTO alerts (id, type, severity, title, description, location_address, location_lat, location_lng, metadata, status,
+                          affected_area, area_min_lat, area_max_lat, area_min_lng, area_max_lng, location_confidence, location_source,
+                          created_at, updated_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, NOW(), NOW())
     `, [
       alertId,
       crisisData.type,
@@ -167,12 +238,84 @@ export class AlertAgent {
       location.lat,
       location.lng,
       JSON.stringify({ source: crisisData.source, ...crisisData.metadata }),
-      'active'
+      status,
+      area ? JSON.stringify(area) : null,
+      box?.min_lat ?? null,
+      box?.max_lat ?? null,
+      box?.min_lng ?? null,
+      box?.max_lng ?? null,
+      location.confidence ?? null,
+      location.source || null
     ]);
 
     return alertId;
   }
 
+  /**
+   * ✅ Make a verified draft a live alert: it is correlated and the team is notified as if it
+   * had just been detected. Returns null when the alert is not (or no longer) a draft.
+   */
+  async activateDraftAlert(alertId: string, auth: NonNullable<AuthenticatedRequest['auth']>): Promise<{ alert_id: string; immediate_actions: any[]; correlation?: CorrelationMatch } | null> {
+    const result = await query(`
+      UPDATE alerts SET status = 'active', updated_at = NOW()
+      WHERE id = $1 AND status = 'draft'
+      RETURNING id, type, severity, title, description, location_address, location_lat, location_lng, metadata
+    `, [alertId]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const row = result.rows[0];
+    const metadata = typeof row.metadata === 'string' ? JSON.parse(row.metadata) : row.metadata || {};
+    const crisisData = {
+      source: metadata.source,
+      type: row.type,
+      severity: row.severity,
+      title: row.title,
+      description: row.description,
+      location: { address: row.location_address }
+    };
+    const location = { lat: parseFloat(row.location_lat), lng: parseFloat(row.location_lng) };
+
+    const correlation = await this.correlateAlert(alertId, crisisData, location);
+    const immediateNotifications = correlation ? [] : await this.sendImmediateAlerts(alertId, crisisData);
+
+    logAuditEvent({
+      actor: auth.agentId || auth.userId || this.agentId,
+      action: 'alert.activate',
+      resource: `alert:${alertId}`,
+      result: 'success',
+      details: {
+        source: crisisData.source,
+        immediate_notifications: immediateNotifications.length,
+        incident_id: correlation?.incident_id,
+        correlated_with: correlation?.matched_alert_id
+      }
+    });
+
+    return { alert_id: alertId, immediate_actions: immediateNotifications, correlation: correlation || undefined };
+  }
+
+  /**
+   * 🔗 Attach the alert to the incident of a matching active alert. Correlation problems never
+   * block detection; the alert is then treated as new.
+   */
+  private async correlateAlert(alertId: string, crisisData: any, location: any): Promise<CorrelationMatch | null> {
+    try {
+      return await alertCorrelator.correlate(alertId, {
+        type: crisisData.type,
+        title: crisisData.title,
+        description: crisisData.description,
+        lat: location.lat,
+        lng: location.lng
+      });
+    } catch (error) {
+      logger.warn(`Alert correlation failed for ${alertId}, treating it as a new alert:`, error);
+      return null;
+    }
+  }
+
   /**
    * 📢 REAL WORK: Send immediate alerts to internal team via Slack and SMS
    */
@@ -299,7 +442,8 @@ Immediate response required!`;
     try {
       // Fetch alert from database
       const alertResult = await query(`
-        SELECT id, type, severity, title, description, location_address, location_lat, location_lng, metadata, status
+        SELECT id, type, severity, title, description, location_address, location_lat, location_lng,
+               location_confidence, location_source, source, metadata, status, affected_area
         FROM alerts 
         WHERE id = $1
       `, [alertId]);
@@ -314,8 +458,9 @@ Immediate response required!`;
       await query('UPDATE alerts SET status = $1, updated_at = NOW() WHERE id = $2', ['processing', alertId]);
 
       // Analyze alert and determine response
-      const analysis = await this.analyzeAlert(alert);
-      const nextSteps = this.determineNextSteps(alert, analysis);
+      const ruleSet = await analysisRuleRegistry.current();
+      const analysis = this.withPopulationExposure(await this.analyzeAlert(alert, ruleSet), alert);
+      const outcome = evaluateAnalysisRules(ruleSet.rules, alert, { risk_level: analysis.risk_level });
 
       const processingTime = Date.now() - startTime;
 
@@ -323,7 +468,8 @@ Immediate response required!`;
         alert_id: alertId,
         status: 'processed',
         analysis,
-        next_steps: nextSteps,
+        next_steps: outcome.next_steps,
+        rules: { version: ruleSet.version, source: ruleSet.source, matched: outcome.matched_rules },
         processing_time: processingTime
       };
 
@@ -337,6 +483,8 @@ Immediate response required!`;
           alert_type: alert.type,
           severity: alert.severity,
           risk_level: analysis.risk_level,
+          affected_population: analysis.affected_population,
+          rules_version: ruleSet.version,
           processing_time: processingTime
         }
       });
@@ -371,11 +519,66 @@ Immediate response required!`;
   }
 
   /**
-   * Analyze alert to determine risk level and required resources
+   * Rule-based processing result for an alert without updating its status or calling
+   * external models (plan mode)
    */
-  private async analyzeAlert(alert: any): Promise<AlertProcessingResult['analysis']> {
-    const { type, severity, location_address, title, description } = alert;
+  async previewAlertProcessing(alert: any): Promise<AlertProcessingResult> {
+    const ruleSet = await analysisRuleRegistry.current();
+    const outcome = evaluateAnalysisRules(ruleSet.rules, alert);
 
+    return {
+      alert_id: alert.id,
+      status: 'processed',
+      analysis: this.withPopulationExposure({
+        risk_level: outcome.risk_level,
+        affected_population: outcome.affected_population,
+        required_resources: outcome.required_resources,
+        recommended_actions: outcome.recommended_actions
+      }, alert),
+      next_steps: outcome.next_steps,
+      rules: { version: ruleSet.version, source: ruleSet.source, matched: outcome.matched_rules },
+      processing_time: 0
+    };
+  }
+
+  /**
+   * Replace the estimated affected population with the population grid count for the alert's
+   * area (or a circle around its location). Accepts alert rows and Alert objects. A point that
+   * is the ungeocoded placeholder or below the confidence threshold is not counted around, so
+   * the estimate stands rather than the population of wherever the placeholder is.
+   */
+  private withPopulationExposure(analysis: AlertProcessingResult['analysis'], alert: any): AlertProcessingResult['analysis'] {
+    if (!populationGrid.loaded) {
+      return analysis;
+    }
+
+    const source = alert.location_source ?? alert.location?.geocoder;
+    const confidence = alert.location_confidence ?? alert.location?.confidence;
+    const trusted = source !== 'default' && (confidence == null || Number(confidence) >= MIN_EXPOSURE_LOCATION_CONFIDENCE);
+    const coordinates = alert.location?.coordinates
+      || (alert.location_lat != null && alert.location_lng != null ? { lat: Number(alert.location_lat), lng: Number(alert.location_lng) } : null);
+    const point = trusted ? coordinates : null;
+
+    const area: AffectedArea | null = alert.affected_area
+      || (point ? { type: 'Circle', coordinates: [point.lng, point.lat], radius_m: POPULATION_POINT_RADIUS_M } : null);
+    if (!area) {
+      if (coordinates) {
+        logger.info(`No population exposure for alert ${alert.id}: its location is too uncertain`, { source, confidence });
+      }
+      return analysis;
+    }
+
+    const exposure = populationGrid.exposure(area, point || areaCenter(area));
+    if (!exposure) {
+      return analysis;
+    }
+    return { ...analysis, affected_population: exposure.total, population_exposure: exposure };
+  }
+
+  /**
+   * Analyze alert to determine risk level and required resources
+   */
+  private async analyzeAlert(alert: any, ruleSet: AnalysisRuleSet): Promise<AlertProcessingResult['analysis']> {
     // Try Genkit agent framework analysis first, fallback to rule-based
     try {
       return await this.genkitFrameworkAnalysis(alert);
@@ -383,8 +586,8 @@ Immediate response required!`;
       logger.warn('Genkit framework analysis failed, falling back to rule-based analysis:', error);
     }
 
-    // Rule-based analysis (existing logic)
-    return this.ruleBasedAnalysis(alert);
+    // Rule-based analysis with the configured rule set
+    return this.ruleBasedAnalysis(alert, ruleSet);
   }
 
   /**
@@ -414,129 +617,14 @@ Immediate response required!`;
   /**
    * Rule-based alert analysis (fallback)
    */
-  private ruleBasedAnalysis(alert: any): AlertProcessingResult['analysis'] {
-    const { type, severity, location_address } = alert;
-
-    // Risk level calculation based on type and severity
-    let riskLevel: 'low' | 'medium' | 'high' | 'critical' = 'medium';
-    
-    if (severity === 'critical') {
-      riskLevel = 'critical';
-    } else if (severity === 'high') {
-      riskLevel = type === 'fire' || type === 'earthquake' ? 'critical' : 'high';
-    } else if (severity === 'medium') {
-      riskLevel = 'medium';
-    } else {
-      riskLevel = 'low';
-    }
-
-    // Estimate affected population (simplified logic)
-    let affectedPopulation = 100; // Default estimate
-    if (location_address.toLowerCase().includes('mumbai') || location_address.toLowerCase().includes('delhi')) {
-      affectedPopulation = 5000; // High density urban areas
-    } else if (location_address.toLowerCase().includes('city') || location_address.toLowerCase().includes('town')) {
-      affectedPopulation = 1000; // Urban areas
-    } else {
-      affectedPopulation = 500; // Rural areas
-    }
-
-    // Adjust based on severity
-    const severityMultiplier: Record<string, number> = {
-      'low': 0.5,
-      'medium': 1,
-      'high': 2,
-      'critical': 5
-    };
-    affectedPopulation = Math.floor(affectedPopulation * (severityMultiplier[severity] || 1));
-
-    // Determine required resources based on alert type
-    const requiredResources = this.getRequiredResources(type, severity);
-    
-    // Generate recommended actions
-    const recommendedActions = this.getRecommendedActions(type, severity, riskLevel);
-
-    return {
-      risk_level: riskLevel,
-      affected_population: affectedPopulation,
-      required_resources: requiredResources,
-      recommended_actions: recommendedActions
-    };
-  }
-
-  /**
-   * Determine required resources based on alert type and severity
-   */
-  private getRequiredResources(type: string, severity: string): string[] {
-    const baseResources: Record<string, string[]> = {
-      flood: ['rescue_boats', 'water_pumps', 'emergency_shelters', 'medical_supplies'],
-      fire: ['fire_trucks', 'firefighters', 'water_tankers', 'evacuation_buses'],
-      earthquake: ['search_rescue_teams', 'medical_teams', 'heavy_machinery', 'emergency_shelters'],
-      storm: ['emergency_shelters', 'power_restoration_crews', 'medical_supplies', 'communication_equipment'],
-      medical: ['ambulances', 'medical_teams', 'hospital_beds', 'medical_supplies'],
-      security: ['police_units', 'security_personnel', 'communication_equipment', 'evacuation_routes']
-    };
-
-    let resources = baseResources[type] || ['emergency_response_team'];
-
-    // Add additional resources for high severity incidents
-    if (severity === 'high' || severity === 'critical') {
-      resources.push('helicopter_support', 'additional_personnel', 'mobile_command_center');
-    }
-
-    return resources;
-  }
-
-  /**
-   * Generate recommended actions based on alert analysis
-   */
-  private getRecommendedActions(type: string, severity: string, riskLevel: string): string[] {
-    const actions: string[] = [];
-
-    // Base actions for all alerts
-    actions.push('notify_local_authorities', 'activate_emergency_protocols');
-
-    // Type-specific actions
-    switch (type) {
-      case 'flood':
-        actions.push('issue_evacuation_warning', 'deploy_rescue_teams', 'setup_relief_camps');
-        break;
-      case 'fire':
-        actions.push('deploy_fire_suppression', 'evacuate_surrounding_areas', 'establish_safety_perimeter');
-        break;
-      case 'earthquake':
-        actions.push('search_and_rescue_operations', 'structural_damage_assessment', 'medical_triage_setup');
-        break;
-      case 'storm':
-        actions.push('secure_loose_objects', 'power_grid_protection', 'shelter_in_place_advisory');
-        break;
-      case 'medical':
-        actions.push('deploy_medical_teams', 'quarantine_if_necessary', 'contact_health_authorities');
-        break;
-      case 'security':
-        actions.push('deploy_security_forces', 'establish_secure_perimeter', 'investigate_threat');
-        break;
-    }
-
-    // Severity-based additional actions
-    if (severity === 'critical' || riskLevel === 'critical') {
-      actions.push('declare_emergency_state', 'request_external_assistance', 'media_communication');
-    }
-
-    return actions;
-  }
-
-  /**
-   * Determine next steps in the workflow
-   */
-  private determineNextSteps(alert: any, analysis: AlertProcessingResult['analysis']): AlertProcessingResult['next_steps'] {
-    const { type, severity } = alert;
-    const { risk_level } = analysis;
+  private ruleBasedAnalysis(alert: any, ruleSet: AnalysisRuleSet): AlertProcessingResult['analysis'] {
+    const outcome = evaluateAnalysisRules(ruleSet.rules, alert);
 
     return {
-      schedule_relief: risk_level === 'high' || risk_level === 'critical',
-      notify_authorities: true, // Always notify authorities
-      evacuate_area: (type === 'fire' || type === 'flood' || type === 'earthquake') && 
-                     (severity === 'high' || severity === 'critical')
+      risk_level: outcome.risk_level,
+      affected_population: outcome.affected_population,
+      required_resources: outcome.required_resources,
+      recommended_actions: outcome.recommended_actions
     };
   }
 
@@ -0,0 +1,182 @@
+import { query } from '../database/connection';
+import { logger, logAuditEvent } from '../utils/logger';
+import { haversineKm } from '../utils/geo';
+import { Incident } from '../types';
+import { incidentManager } from './IncidentManager';
+
+export interface CorrelationCandidate {
+  type: string;
+  title: string;
+  description: string;
+  lat: number;
+  lng: number;
+}
+
+export interface CorrelationMatch {
+  incident_id: string;
+  matched_alert_id: string;
+  created_incident: boolean;
+  distance_km: number;
+  minutes_apart: number;
+  text_similarity: number;
+  score: number;
+}
+
+type AlertMatch = Omit<CorrelationMatch, 'incident_id' | 'created_incident'> & { incident_id: string | null };
+
+export interface CorrelationConfig {
+  enabled: boolean;
+  radius_km: number;
+  window_minutes: number;
+  min_text_similarity: number;
+}
+
+// Words that carry no meaning about which event a report describes
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have', 'in', 'is', 'it',
+  'near', 'of', 'on', 'or', 'the', 'there', 'this', 'to', 'was', 'were', 'with'
+]);
+
+export function loadCorrelationConfig(): CorrelationConfig {
+  return {
+    enabled: process.env.ENABLE_ALERT_CORRELATION !== 'false',
+    radius_km: parseFloat(process.env.ALERT_CORRELATION_RADIUS_KM || '2'),
+    window_minutes: parseInt(process.env.ALERT_CORRELATION_WINDOW_MINUTES || '120', 10),
+    min_text_similarity: parseFloat(process.env.ALERT_CORRELATION_MIN_SIMILARITY || '0.2')
+  };
+}
+
+/**
+ * Jaccard similarity of the meaningful words in two texts (0-1)
+ */
+export function textSimilarity(a: string, b: string): number {
+  const tokens = (text: string) => new Set(
+    (text || '').toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length > 2 && !STOP_WORDS.has(word))
+  );
+  const left = tokens(a);
+  const right = tokens(b);
+  if (left.size === 0 || right.size === 0) {
+    return 0;
+  }
+
+  const shared = [...left].filter(word => right.has(word)).length;
+  return shared / (left.size + right.size - shared);
+}
+
+/**
+ * Decides whether a newly detected alert describes an event that is already being handled,
+ * so it can join that incident instead of starting a second response.
+ *
+ * A candidate must have the same type, be within the radius and the time window of an active
+ * alert, and share enough wording with it. The best match wins; its incident is used, or one is
+ * opened to hold both alerts if the earlier alert was not yet part of an incident.
+ */
+export class AlertCorrelator {
+  private readonly agentId = 'agent_alert_001';
+
+  constructor(private config: CorrelationConfig = loadCorrelationConfig()) {}
+
+  /**
+   * Best-scoring active alert the candidate correlates with. incident_id is null when that
+   * alert is not part of an incident yet.
+   */
+  async findMatch(candidate: CorrelationCandidate, excludeAlertId?: string): Promise<AlertMatch | null> {
+    if (!this.config.enabled || candidate.lat == null || candidate.lng == null) {
+      return null;
+    }
+
+    const result = await query(`
+      SELECT a.id, a.title, a.description, a.location_lat, a.location_lng, a.created_at, a.incident_id
+      FROM alerts a
+      LEFT JOIN incidents i ON i.id = a.incident_id
+      WHERE a.type = $1
+        AND a.status = 'active'
+        AND a.location_lat IS NOT NULL AND a.location_lng IS NOT NULL
+        AND a.created_at >= NOW() - ($2 || ' minutes')::interval
+        AND (a.incident_id IS NULL OR i.status IN ('open', 'monitoring'))
+        AND a.id <> $3
+      ORDER BY a.created_at DESC
+      LIMIT 200
+    `, [candidate.type, this.config.window_minutes, excludeAlertId || '']);
+
+    let best: AlertMatch | null = null;
+
+    for (const row of result.rows) {
+      const distance = haversineKm(candidate.lat, candidate.lng, parseFloat(row.location_lat), parseFloat(row.location_lng));
+      if (distance > this.config.radius_km) {
+        continue;
+      }
+
+      const similarity = textSimilarity(`${candidate.title} ${candidate.description}`, `${row.title} ${row.description}`);
+      if (similarity < this.config.min_text_similarity) {
+        continue;
+      }
+
+      const minutesApart = Math.abs(Date.now() - new Date(row.created_at).getTime()) / 60000;
+      // Closer in space, closer in time and more alike in wording all count equally
+      const score = (
+        (1 - distance / this.config.radius_km) +
+        (1 - minutesApart / this.config.window_minutes) +
+        similarity
+      ) / 3;
+
+      if (!best || score > best.score) {
+        best = {
+          incident_id: row.incident_id || null,
+          matched_alert_id: row.id,
+          distance_km: Math.round(distance * 1000) / 1000,
+          minutes_apart: Math.round(minutesApart),
+          text_similarity: Math.round(similarity * 100) / 100,
+          score: Math.round(score * 100) / 100
+        };
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Attach an alert that has just been recorded to the incident of its best match.
+   * Returns null when the alert is unrelated to anything already active.
+   */
+  async correlate(alertId: string, candidate: CorrelationCandidate): Promise<CorrelationMatch | null> {
+    const match = await this.findMatch(candidate, alertId);
+    if (!match) {
+      return null;
+    }
+
+    let incident: Incident;
+    let createdIncident = false;
+    if (match.incident_id) {
+      incident = await incidentManager.merge(match.incident_id, { alert_ids: [alertId] }, this.agentId);
+    } else {
+      incident = await incidentManager.create({
+        title: candidate.title,
+        summary: `Opened automatically when alert ${alertId} matched active alert ${match.matched_alert_id}`,
+        alert_ids: [match.matched_alert_id, alertId]
+      }, this.agentId);
+      createdIncident = true;
+    }
+
+    const correlation: CorrelationMatch = { ...match, incident_id: incident.id, created_incident: createdIncident };
+
+    logAuditEvent({
+      actor: this.agentId,
+      action: 'alert.correlate',
+      resource: `alert:${alertId}`,
+      result: 'success',
+      details: correlation
+    });
+
+    logger.info(`Alert ${alertId} correlated with ${match.matched_alert_id} into incident ${incident.id}`, {
+      distance_km: correlation.distance_km,
+      text_similarity: correlation.text_similarity,
+      score: correlation.score
+    });
+
+    return correlation;
+  }
+}
+
+// Export singleton instance
+export const alertCorrelator = new AlertCorrelator();
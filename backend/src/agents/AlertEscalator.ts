@@ -0,0 +1,360 @@
+import cron from 'node-cron';
+import { v4 as uuidv4 } from 'uuid';
+import { query } from '../database/connection';
+import { logger, logAuditEvent } from '../utils/logger';
+import { generateAgentAccessToken, validateAgentToken } from '../utils/descope-real';
+import { Alert, AuthenticatedRequest, CrisisAssistError, NotFoundError, PlaybookEscalationRule } from '../types';
+import { NotifierAgent, NotificationRequest } from './NotifierAgent';
+import { playbookRegistry } from './PlaybookRegistry';
+
+/**
+ * Tiers used when no playbook matches the alert. The first tier widens the alert to the
+ * response channel; the second adds email to the duty officers.
+ */
+export const DEFAULT_ESCALATION_RULES: PlaybookEscalationRule[] = [
+  { after_minutes: 15, channels: ['slack', 'sms'], recipients: { slack: ['#crisis-response'] } },
+  { after_minutes: 30, channels: ['slack', 'sms', 'email'], recipients: { email: ['duty-officers@crisisassist.ai'] } }
+];
+
+// Channels and recipients the alert was first posted to (AlertAgent.sendImmediateAlerts)
+const BASE_RECIPIENTS: Record<string, string[]> = {
+  slack: ['#emergency-alerts'],
+  sms: ['+1234567890'],
+  email: []
+};
+
+const SEVERITY_RANK: Record<Alert['severity'], number> = { low: 0, medium: 1, high: 2, critical: 3 };
+
+export interface AlertEscalation {
+  id: string;
+  alert_id: string;
+  tier: number;
+  channels: string[];
+  recipients: Record<string, string[]>;
+  previous_severity: string;
+  new_severity: string;
+  playbook_id?: string;
+  notifications: Array<{ channel: string; status: string; sent_count: number; error?: string }>;
+  escalated_at: Date;
+}
+
+/**
+ * Re-sends unacknowledged alerts to progressively wider recipient tiers on a cron schedule,
+ * optionally raising their severity. Escalation stops once someone acknowledges the alert
+ * or it is no longer active.
+ */
+export class AlertEscalator {
+  private readonly agentId = 'agent_escalator_001';
+  private notifier: NotifierAgent;
+  private task: cron.ScheduledTask | null = null;
+  private checking = false;
+
+  constructor() {
+    this.notifier = new NotifierAgent();
+  }
+
+  /**
+   * Start the escalation check (every minute unless ALERT_ESCALATION_CRON says otherwise)
+   */
+  start(schedule: string = process.env.ALERT_ESCALATION_CRON || '* * * * *'): void {
+    if (this.task) {
+      return;
+    }
+    if (!cron.validate(schedule)) {
+      throw new Error(`Invalid alert escalation schedule: ${schedule}`);
+    }
+
+    this.task = cron.schedule(schedule, () => {
+      this.checkUnacknowledgedAlerts().catch(error => {
+        logger.error('Alert escalation check failed:', error);
+      });
+    });
+    logger.info('Alert escalation timers started', { schedule });
+  }
+
+  stop(): void {
+    this.task?.stop();
+    this.task = null;
+  }
+
+  /**
+   * Escalate every active, unacknowledged alert whose next tier is due.
+   * Overlapping ticks are skipped so a slow run cannot double-send.
+   *
+   * Alerts in an incident escalate once per incident: only its oldest active alert is escalated,
+   * and acknowledging any active alert in the incident stops escalation for all of them.
+   */
+  async checkUnacknowledgedAlerts(): Promise<{ checked: number; escalated: number }> {
+    if (this.checking) {
+      return { checked: 0, escalated: 0 };
+    }
+    this.checking = true;
+
+    try {
+      const result = await query(`
+        SELECT a.id, a.type, a.severity, a.title, a.description, a.location_address, a.status, a.created_at, a.escalation_level,
+               a.last_escalated_at
+        FROM alerts a
+        WHERE a.status = 'active' AND a.acknowledged_at IS NULL
+          AND (a.incident_id IS NULL OR NOT EXISTS (
+            SELECT 1 FROM alerts other
+            WHERE other.incident_id = a.incident_id AND other.status = 'active' AND other.id <> a.id
+              AND (other.acknowledged_at IS NOT NULL OR (other.created_at, other.id) < (a.created_at, a.id))
+          ))
+        ORDER BY a.created_at ASC
+      `);
+
+      let escalated = 0;
+      for (const alert of result.rows) {
+        try {
+          if (await this.escalateIfDue(alert)) {
+            escalated++;
+          }
+        } catch (error) {
+          logger.error(`Failed to escalate alert ${alert.id}:`, error);
+        }
+      }
+
+      return { checked: result.rows.length, escalated };
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  /**
+   * Mark an alert as picked up by a human, which stops any further escalation
+   */
+  async acknowledge(alertId: string, userId: string, note?: string): Promise<{ alert_id: string; acknowledged_by: string; acknowledged_at: Date; escalation_level: number }> {
+    const existing = await query('SELECT id, acknowledged_at, acknowledged_by, escalation_level FROM alerts WHERE id = $1', [alertId]);
+    if (existing.rows.length === 0) {
+      throw new NotFoundError(`Alert with ID ${alertId} not found`);
+    }
+    if (existing.rows[0].acknowledged_at) {
+      throw new CrisisAssistError(
+        `Alert ${alertId} was already acknowledged by ${existing.rows[0].acknowledged_by}`,
+        'ALERT_ALREADY_ACKNOWLEDGED',
+        409
+      );
+    }
+
+    const result = await query(`
+      UPDATE alerts SET acknowledged_at = NOW(), acknowledged_by = $1, updated_at = NOW()
+      WHERE id = $2
+      RETURNING acknowledged_at, escalation_level
+    `, [userId, alertId]);
+
+    const escalationLevel = result.rows[0]?.escalation_level || 0;
+
+    logAuditEvent({
+      actor: userId,
+      action: 'alert.acknowledge',
+      resource: `alert:${alertId}`,
+      result: 'success',
+      details: { escalation_level: escalationLevel, note }
+    });
+
+    return {
+      alert_id: alertId,
+      acknowledged_by: userId,
+      acknowledged_at: result.rows[0]?.acknowledged_at || new Date(),
+      escalation_level: escalationLevel
+    };
+  }
+
+  /**
+   * Escalation history for an alert, oldest first
+   */
+  async listEscalations(alertId: string): Promise<AlertEscalation[]> {
+    const result = await query(`
+      SELECT id, alert_id, tier, channels, recipients, previous_severity, new_severity, playbook_id,
+             notifications, escalated_at
+      FROM alert_escalations
+      WHERE alert_id = $1
+      ORDER BY escalated_at ASC
+    `, [alertId]);
+
+    const parse = (value: any) => (typeof value === 'string' ? JSON.parse(value) : value);
+    return result.rows.map((row: any) => ({
+      id: row.id,
+      alert_id: row.alert_id,
+      tier: row.tier,
+      channels: parse(row.channels) || [],
+      recipients: parse(row.recipients) || {},
+      previous_severity: row.previous_severity,
+      new_severity: row.new_severity,
+      playbook_id: row.playbook_id || undefined,
+      notifications: parse(row.notifications) || [],
+      escalated_at: row.escalated_at
+    }));
+  }
+
+  private async escalateIfDue(alert: any): Promise<boolean> {
+    const playbook = await playbookRegistry.match(alert.type, alert.severity);
+    const rules = playbook?.escalation_rules?.length ? playbook.escalation_rules : DEFAULT_ESCALATION_RULES;
+    const level: number = alert.escalation_level || 0;
+    const elapsedMinutes = (Date.now() - new Date(alert.created_at).getTime()) / 60000;
+
+    // Several tiers may be overdue after downtime; jump straight to the widest one that is
+    const dueLevel = rules.filter(rule => elapsedMinutes >= rule.after_minutes).length;
+    if (dueLevel <= level) {
+      return false;
+    }
+
+    const tier = rules[dueLevel - 1];
+    const newSeverity = tier.raise_severity_to && SEVERITY_RANK[tier.raise_severity_to] > SEVERITY_RANK[alert.severity as Alert['severity']]
+      ? tier.raise_severity_to
+      : alert.severity;
+
+    // Sign the escalator in before claiming, so a token failure leaves the tier due for the next tick
+    const auth = await this.createEscalationAuth();
+
+    // Claim the tier first; if someone acknowledged in the meantime nothing is claimed and nothing is sent
+    const claimed = await query(`
+      UPDATE alerts
+      SET escalation_level = $1, severity = $2, last_escalated_at = NOW(), updated_at = NOW()
+      WHERE id = $3 AND acknowledged_at IS NULL AND status = 'active' AND COALESCE(escalation_level, 0) = $4
+      RETURNING id
+    `, [dueLevel, newSeverity, alert.id, level]);
+
+    if (claimed.rows.length === 0) {
+      return false;
+    }
+
+    const recipients = this.tierRecipients(rules.slice(0, dueLevel), tier.channels, playbook?.recipients);
+    const escalatedAlert = { ...alert, severity: newSeverity };
+    const notifications: AlertEscalation['notifications'] = [];
+
+    for (const channel of tier.channels) {
+      if (recipients[channel].length === 0) {
+        continue;
+      }
+
+      const request: NotificationRequest = {
+        alert_id: alert.id,
+        channel_type: channel as NotificationRequest['channel_type'],
+        recipients: recipients[channel],
+        message: {
+          subject: `ESCALATION ${dueLevel}: ${alert.title}`,
+          content: this.formatEscalationMessage(escalatedAlert, dueLevel, elapsedMinutes, alert.severity)
+        },
+        priority: 'urgent'
+      };
+
+      try {
+        const result = await this.notifier.sendNotification(request, auth);
+        notifications.push({ channel, status: result.status, sent_count: result.sent_count });
+      } catch (error) {
+        notifications.push({ channel, status: 'failed', sent_count: 0, error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+
+    // Nothing reached anyone: give the tier back so the next tick retries it. The attempt is still recorded.
+    const delivered = notifications.some(notification => notification.sent_count > 0);
+    const retry = notifications.length > 0 && !delivered;
+    if (retry) {
+      await query(`
+        UPDATE alerts
+        SET escalation_level = $1, severity = $2, last_escalated_at = $3, updated_at = NOW()
+        WHERE id = $4 AND escalation_level = $5
+      `, [level, alert.severity, alert.last_escalated_at || null, alert.id, dueLevel]);
+    }
+
+    await query(`
+      INSERT INTO alert_escalations (id, alert_id, tier, channels, recipients, previous_severity, new_severity,
+                                     playbook_id, notifications, escalated_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, NOW())
+    `, [
+      uuidv4(),
+      alert.id,
+      dueLevel,
+      JSON.stringify(tier.channels),
+      JSON.stringify(recipients),
+      alert.severity,
+      newSeverity,
+      playbook?.id || null,
+      JSON.stringify(notifications)
+    ]);
+
+    logAuditEvent({
+      actor: this.agentId,
+      action: 'alert.escalate',
+      resource: `alert:${alert.id}`,
+      result: delivered ? 'success' : 'failure',
+      details: {
+        tier: dueLevel,
+        unacknowledged_minutes: Math.floor(elapsedMinutes),
+        playbook_id: playbook?.id,
+        channels: tier.channels,
+        recipients,
+        previous_severity: alert.severity,
+        new_severity: newSeverity,
+        notifications
+      }
+    });
+
+    if (retry) {
+      logger.error(`Escalating alert ${alert.id} to tier ${dueLevel} failed on every channel; retrying on the next check`, {
+        notifications
+      });
+      return false;
+    }
+
+    logger.warn(`Alert ${alert.id} unacknowledged for ${Math.floor(elapsedMinutes)} minutes; escalated to tier ${dueLevel}`, {
+      severity: newSeverity,
+      channels: tier.channels
+    });
+
+    return true;
+  }
+
+  /**
+   * Each tier adds to everyone reached so far, so later tiers only ever widen the audience
+   */
+  private tierRecipients(
+    tiers: PlaybookEscalationRule[],
+    channels: string[],
+    baseRecipients: Record<string, string[]> = BASE_RECIPIENTS
+  ): Record<string, string[]> {
+    const recipients: Record<string, string[]> = {};
+
+    channels.forEach(channel => {
+      const all = [
+        ...(baseRecipients[channel] || BASE_RECIPIENTS[channel] || []),
+        ...tiers.flatMap(tier => tier.recipients?.[channel] || [])
+      ];
+      recipients[channel] = [...new Set(all)];
+    });
+
+    return recipients;
+  }
+
+  private formatEscalationMessage(alert: any, tier: number, elapsedMinutes: number, previousSeverity: string): string {
+    const severityLine = alert.severity !== previousSeverity
+      ? `Severity raised: ${previousSeverity.toUpperCase()} → ${alert.severity.toUpperCase()}`
+      : `Severity: ${alert.severity.toUpperCase()}`;
+
+    return `⏰ UNACKNOWLEDGED ALERT - ESCALATION TIER ${tier} ⏰
+
+${alert.type.toUpperCase()}: ${alert.title}
+Location: ${alert.location_address || 'Unknown'}
+${severityLine}
+No one has acknowledged this alert for ${Math.floor(elapsedMinutes)} minutes.
+
+Acknowledge alert ${alert.id} to stop further escalation.`;
+  }
+
+  private async createEscalationAuth(): Promise<NonNullable<AuthenticatedRequest['auth']>> {
+    const scopes = ['message.send', 'notification.create'];
+    const token = await generateAgentAccessToken(this.agentId, scopes, 600);
+    const validation = await validateAgentToken(token);
+
+    if (!validation.valid || !validation.claims) {
+      throw new Error(`Escalation token validation failed: ${validation.error}`);
+    }
+
+    return { claims: validation.claims, token, scopes, agentId: this.agentId };
+  }
+}
+
+// Export singleton instance
+export const alertEscalator = new AlertEscalator();
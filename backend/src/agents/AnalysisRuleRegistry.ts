@@ -0,0 +1,630 @@
+import fs from 'fs';
+import { RE2JS } from 're2js';
+import { query, transaction } from '../database/connection';
+import { logger, logAuditEvent } from '../utils/logger';
+import { haversineKm } from '../utils/geo';
+import { AnalysisRule, AnalysisRuleCondition, AnalysisRuleOutcome, AnalysisRuleSet, CrisisAssistError, NotFoundError, ValidationError } from '../types';
+
+const RISK_LEVELS: AnalysisRuleOutcome['risk_level'][] = ['low', 'medium', 'high', 'critical'];
+const OPERATORS: AnalysisRuleCondition['operator'][] = ['eq', 'neq', 'in', 'not_in', 'gt', 'gte', 'lt', 'lte', 'contains', 'matches', 'exists', 'within_km'];
+const NEXT_STEPS: Array<keyof AnalysisRuleOutcome['next_steps']> = ['schedule_relief', 'notify_authorities', 'evacuate_area'];
+const MAX_RULES = 500;
+// How long the active rule set is used before checking the database or file for a newer one
+const DEFAULT_REFRESH_SECONDS = 30;
+const MAX_PATTERN_LENGTH = 500;
+
+// `matches` patterns run on caller-supplied text (citizen SMS, evaluate requests), so they use
+// RE2, which matches in linear time and cannot be made to backtrack catastrophically
+const compiledPatterns = new Map<string, RE2JS>();
+
+function compilePattern(pattern: string): RE2JS {
+  let compiled = compiledPatterns.get(pattern);
+  if (!compiled) {
+    compiled = RE2JS.compile(pattern, RE2JS.CASE_INSENSITIVE);
+    if (compiledPatterns.size >= 1000) {
+      compiledPatterns.clear();
+    }
+    compiledPatterns.set(pattern, compiled);
+  }
+  return compiled;
+}
+
+const type = (value: string | string[]): AnalysisRuleCondition =>
+  ({ field: 'type', operator: Array.isArray(value) ? 'in' : 'eq', value });
+const severity = (value: string | string[]): AnalysisRuleCondition =>
+  ({ field: 'severity', operator: Array.isArray(value) ? 'in' : 'eq', value });
+
+/**
+ * The analysis AlertAgent has always done, as rules. Used until a rule set is published or
+ * a rules file is configured.
+ */
+export const BUILT_IN_ANALYSIS_RULES: AnalysisRuleSet = {
+  version: 0,
+  source: 'built_in',
+  description: 'Built-in analysis rules',
+  rules: [
+    { id: 'risk-low', when: { all: [severity('low')] }, then: { risk_level: 'low' } },
+    { id: 'risk-medium', when: { all: [severity('medium')] }, then: { risk_level: 'medium' } },
+    { id: 'risk-high', when: { all: [severity('high')] }, then: { risk_level: 'high' } },
+    { id: 'risk-critical', when: { all: [severity('critical')] }, then: { risk_level: 'critical' } },
+    {
+      id: 'risk-high-fire-earthquake',
+      description: 'Fires and earthquakes spread or cascade; treat high severity as critical',
+      when: { all: [severity('high'), type(['fire', 'earthquake'])] },
+      then: { risk_level: 'critical' }
+    },
+
+    { id: 'population-rural', then: { affected_population: 500 } },
+    {
+      id: 'population-urban',
+      when: { all: [{ field: 'location_address', operator: 'matches', value: 'city|town' }] },
+      then: { affected_population: 1000 }
+    },
+    {
+      id: 'population-metro',
+      when: { all: [{ field: 'location_address', operator: 'matches', value: 'mumbai|delhi' }] },
+      then: { affected_population: 5000 }
+    },
+    { id: 'population-low-severity', when: { all: [severity('low')] }, then: { population_multiplier: 0.5 } },
+    { id: 'population-high-severity', when: { all: [severity('high')] }, then: { population_multiplier: 2 } },
+    { id: 'population-critical-severity', when: { all: [severity('critical')] }, then: { population_multiplier: 5 } },
+
+    { id: 'base-actions', then: { actions: ['notify_local_authorities', 'activate_emergency_protocols'] } },
+    {
+      id: 'flood',
+      when: { all: [type('flood')] },
+      then: {
+        resources: ['rescue_boats', 'water_pumps', 'emergency_shelters', 'medical_supplies'],
+        actions: ['issue_evacuation_warning', 'deploy_rescue_teams', 'setup_relief_camps']
+      }
+    },
+    {
+      id: 'fire',
+      when: { all: [type('fire')] },
+      then: {
+        resources: ['fire_trucks', 'firefighters', 'water_tankers', 'evacuation_buses'],
+        actions: ['deploy_fire_suppression', 'evacuate_surrounding_areas', 'establish_safety_perimeter']
+      }
+    },
+    {
+      id: 'earthquake',
+      when: { all: [type('earthquake')] },
+      then: {
+        resources: ['search_rescue_teams', 'medical_teams', 'heavy_machinery', 'emergency_shelters'],
+        actions: ['search_and_rescue_operations', 'structural_damage_assessment', 'medical_triage_setup']
+      }
+    },
+    {
+      id: 'storm',
+      when: { all: [type('storm')] },
+      then: {
+        resources: ['emergency_shelters', 'power_restoration_crews', 'medical_supplies', 'communication_equipment'],
+        actions: ['secure_loose_objects', 'power_grid_protection', 'shelter_in_place_advisory']
+      }
+    },
+    {
+      id: 'medical',
+      when: { all: [type('medical')] },
+      then: {
+        resources: ['ambulances', 'medical_teams', 'hospital_beds', 'medical_supplies'],
+        actions: ['deploy_medical_teams', 'quarantine_if_necessary', 'contact_health_authorities']
+      }
+    },
+    {
+      id: 'security',
+      when: { all: [type('security')] },
+      then: {
+        resources: ['police_units', 'security_personnel', 'communication_equipment', 'evacuation_routes'],
+        actions: ['deploy_security_forces', 'establish_secure_perimeter', 'investigate_threat']
+      }
+    },
+    {
+      id: 'other-types',
+      when: { all: [{ field: 'type', operator: 'not_in', value: ['flood', 'fire', 'earthquake', 'storm', 'medical', 'security'] }] },
+      then: { resources: ['emergency_response_team'] }
+    },
+    {
+      id: 'severe-resources',
+      when: { all: [severity(['high', 'critical'])] },
+      then: { resources: ['helicopter_support', 'additional_personnel', 'mobile_command_center'] }
+    },
+    {
+      id: 'critical-actions',
+      when: { any: [severity('critical'), { field: 'risk_level', operator: 'eq', value: 'critical' }] },
+      then: { actions: ['declare_emergency_state', 'request_external_assistance', 'media_communication'] }
+    },
+
+    { id: 'notify-authorities', then: { next_steps: { notify_authorities: true } } },
+    {
+      id: 'schedule-relief',
+      when: { all: [{ field: 'risk_level', operator: 'in', value: ['high', 'critical'] }] },
+      then: { next_steps: { schedule_relief: true } }
+    },
+    {
+      id: 'evacuate',
+      when: { all: [type(['fire', 'flood', 'earthquake']), severity(['high', 'critical'])] },
+      then: { next_steps: { evacuate_area: true } }
+    }
+  ]
+};
+
+const parse = (value: any) => (typeof value === 'string' ? JSON.parse(value) : value);
+
+const toNumber = (value: any): number | undefined => {
+  const number = typeof value === 'number' ? value : typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+  return Number.isFinite(number) ? number : undefined;
+};
+
+// Severities and risk levels compare by rank, so "severity gte high" works
+const rank = (value: any): number | undefined =>
+  typeof value === 'string' && RISK_LEVELS.includes(value as any) ? RISK_LEVELS.indexOf(value as any) : toNumber(value);
+
+const same = (a: any, b: any) =>
+  typeof a === 'string' && typeof b === 'string' ? a.toLowerCase() === b.toLowerCase() : a === b;
+
+/**
+ * The fields rules can test, from a stored alert row or an alert as the API returns it
+ */
+function analysisRuleContext(alert: any): Record<string, any> {
+  const metadata = parse(alert.metadata) || {};
+  return {
+    type: alert.type,
+    severity: alert.severity,
+    title: alert.title || '',
+    description: alert.description || '',
+    source: alert.source || metadata.source,
+    location_address: alert.location_address ?? alert.location?.address ?? '',
+    location: {
+      lat: toNumber(alert.location_lat ?? alert.location?.lat ?? alert.location?.coordinates?.lat),
+      lng: toNumber(alert.location_lng ?? alert.location?.lng ?? alert.location?.coordinates?.lng),
+      confidence: toNumber(alert.location_confidence ?? alert.location?.confidence),
+      source: alert.location_source ?? alert.location?.geocoder
+    },
+    metadata
+  };
+}
+
+function resolveField(context: Record<string, any>, field: string): any {
+  return field.split('.').reduce((value, key) => (value == null ? undefined : value[key]), context);
+}
+
+function conditionMatches(condition: AnalysisRuleCondition, context: Record<string, any>): boolean {
+  const actual = resolveField(context, condition.field);
+  const expected = condition.value;
+
+  switch (condition.operator) {
+    case 'exists':
+      return (actual !== undefined && actual !== null && actual !== '') === (expected !== false);
+    case 'eq':
+      return same(actual, expected);
+    case 'neq':
+      return !same(actual, expected);
+    case 'in':
+      return Array.isArray(expected) && expected.some(candidate => same(actual, candidate));
+    case 'not_in':
+      return Array.isArray(expected) && !expected.some(candidate => same(actual, candidate));
+    case 'contains':
+      return Array.isArray(actual)
+        ? actual.some(item => same(item, expected))
+        : typeof actual === 'string' && actual.toLowerCase().includes(String(expected).toLowerCase());
+    case 'matches':
+      return actual != null && compilePattern(expected).matcher(String(actual)).find();
+    case 'within_km': {
+      const point = actual || {};
+      return toNumber(point.lat) !== undefined && toNumber(point.lng) !== undefined &&
+        haversineKm(point.lat, point.lng, expected.lat, expected.lng) <= expected.radius_km;
+    }
+    default: {
+      const left = rank(actual);
+      const right = rank(expected);
+      if (left === undefined || right === undefined) {
+        return false;
+      }
+      return condition.operator === 'gt' ? left > right
+        : condition.operator === 'gte' ? left >= right
+        : condition.operator === 'lt' ? left < right
+        : left <= right;
+    }
+  }
+}
+
+function ruleMatches(rule: AnalysisRule, context: Record<string, any>): boolean {
+  const all = rule.when?.all || [];
+  const any = rule.when?.any || [];
+  return all.every(condition => conditionMatches(condition, context)) &&
+    (any.length === 0 || any.some(condition => conditionMatches(condition, context)));
+}
+
+/**
+ * Run the rules over an alert in order. Conditions on risk_level see the level set by the
+ * rules before them, which is how next steps can depend on the assessed risk. `risk_level`
+ * sets a starting level, e.g. one assessed by a model; `trace` records every rule checked.
+ */
+export function evaluateAnalysisRules(
+  rules: AnalysisRule[],
+  alert: any,
+  options: { risk_level?: AnalysisRuleOutcome['risk_level']; trace?: boolean } = {}
+): AnalysisRuleOutcome {
+  const context = analysisRuleContext(alert);
+  let riskLevel: AnalysisRuleOutcome['risk_level'] | undefined = options.risk_level;
+  let population: number | undefined;
+  let multiplier = 1;
+  const resources: string[] = [];
+  const actions: string[] = [];
+  const nextSteps: AnalysisRuleOutcome['next_steps'] = { schedule_relief: false, notify_authorities: false, evacuate_area: false };
+  const matched: string[] = [];
+  const trace: NonNullable<AnalysisRuleOutcome['trace']> = [];
+
+  for (const rule of rules) {
+    const applies = ruleMatches(rule, { ...context, risk_level: riskLevel });
+    if (options.trace) {
+      trace.push({ rule_id: rule.id, matched: applies, risk_level_before: riskLevel });
+    }
+    if (!applies) {
+      continue;
+    }
+    matched.push(rule.id);
+
+    const output = rule.then;
+    if (output.risk_level && (!riskLevel || RISK_LEVELS.indexOf(output.risk_level) > RISK_LEVELS.indexOf(riskLevel))) {
+      riskLevel = output.risk_level;
+    }
+    if (output.affected_population !== undefined) {
+      population = Math.max(population ?? 0, output.affected_population);
+    }
+    if (output.population_multiplier !== undefined) {
+      multiplier *= output.population_multiplier;
+    }
+    (output.resources || []).forEach(resource => !resources.includes(resource) && resources.push(resource));
+    (output.actions || []).forEach(action => !actions.includes(action) && actions.push(action));
+    Object.assign(nextSteps, output.next_steps);
+
+    if (rule.stop) {
+      break;
+    }
+  }
+
+  return {
+    risk_level: riskLevel || 'medium',
+    affected_population: Math.floor((population ?? 100) * multiplier),
+    required_resources: resources,
+    recommended_actions: actions,
+    next_steps: nextSteps,
+    matched_rules: matched,
+    trace: options.trace ? trace : undefined
+  };
+}
+
+/**
+ * Problems with a rule set; an empty list means it is valid
+ */
+export function validateAnalysisRules(rules: any): string[] {
+  if (!Array.isArray(rules) || rules.length === 0) {
+    return ['rules must be a non-empty array'];
+  }
+  if (rules.length > MAX_RULES) {
+    return [`A rule set may hold at most ${MAX_RULES} rules`];
+  }
+
+  const errors: string[] = [];
+  const ids = new Set<string>();
+  const stringList = (value: any) => Array.isArray(value) && value.every(item => typeof item === 'string' && item.length > 0);
+
+  rules.forEach((rule: any, index: number) => {
+    const label = `rules[${index}]`;
+    if (!rule || typeof rule !== 'object') {
+      errors.push(`${label} must be an object`);
+      return;
+    }
+    if (typeof rule.id !== 'string' || !rule.id) {
+      errors.push(`${label}.id is required`);
+    } else if (ids.has(rule.id)) {
+      errors.push(`${label}.id ${rule.id} is used twice`);
+    }
+    ids.add(rule.id);
+
+    if (rule.when !== undefined) {
+      if (!rule.when || typeof rule.when !== 'object') {
+        errors.push(`${label}.when must be an object with all and/or any`);
+      } else {
+        (['all', 'any'] as const).forEach(group => {
+          if (rule.when[group] === undefined) {
+            return;
+          }
+          if (!Array.isArray(rule.when[group])) {
+            errors.push(`${label}.when.${group} must be an array of conditions`);
+            return;
+          }
+          rule.when[group].forEach((condition: any, conditionIndex: number) =>
+            errors.push(...validateCondition(condition, `${label}.when.${group}[${conditionIndex}]`)));
+        });
+      }
+    }
+
+    const output = rule.then;
+    if (!output || typeof output !== 'object' || Object.keys(output).length === 0) {
+      errors.push(`${label}.then must set at least one output`);
+      return;
+    }
+    if (output.risk_level !== undefined && !RISK_LEVELS.includes(output.risk_level)) {
+      errors.push(`${label}.then.risk_level must be one of ${RISK_LEVELS.join(', ')}`);
+    }
+    (['affected_population', 'population_multiplier'] as const).forEach(field => {
+      if (output[field] !== undefined && (typeof output[field] !== 'number' || !Number.isFinite(output[field]) || output[field] < 0)) {
+        errors.push(`${label}.then.${field} must be a non-negative number`);
+      }
+    });
+    (['resources', 'actions'] as const).forEach(field => {
+      if (output[field] !== undefined && !stringList(output[field])) {
+        errors.push(`${label}.then.${field} must be an array of names`);
+      }
+    });
+    if (output.next_steps !== undefined) {
+      if (!output.next_steps || typeof output.next_steps !== 'object') {
+        errors.push(`${label}.then.next_steps must be an object`);
+      } else {
+        Object.entries(output.next_steps).forEach(([step, value]) => {
+          if (!NEXT_STEPS.includes(step as any) || typeof value !== 'boolean') {
+            errors.push(`${label}.then.next_steps.${step} must be one of ${NEXT_STEPS.join(', ')} set to true or false`);
+          }
+        });
+      }
+    }
+    if (rule.stop !== undefined && typeof rule.stop !== 'boolean') {
+      errors.push(`${label}.stop must be boolean`);
+    }
+  });
+
+  return errors;
+}
+
+function validateCondition(condition: any, label: string): string[] {
+  if (!condition || typeof condition !== 'object') {
+    return [`${label} must be an object`];
+  }
+  if (typeof condition.field !== 'string' || !condition.field) {
+    return [`${label}.field is required`];
+  }
+  if (!OPERATORS.includes(condition.operator)) {
+    return [`${label}.operator must be one of ${OPERATORS.join(', ')}`];
+  }
+
+  const value = condition.value;
+  switch (condition.operator) {
+    case 'exists':
+      return value === undefined || typeof value === 'boolean' ? [] : [`${label}.value must be true or false`];
+    case 'in':
+    case 'not_in':
+      return Array.isArray(value) ? [] : [`${label}.value must be an array`];
+    case 'gt':
+    case 'gte':
+    case 'lt':
+    case 'lte':
+      return rank(value) !== undefined ? [] : [`${label}.value must be a number or a severity`];
+    case 'matches':
+      if (typeof value !== 'string' || value.length > MAX_PATTERN_LENGTH) {
+        return [`${label}.value must be a regular expression of at most ${MAX_PATTERN_LENGTH} characters`];
+      }
+      try {
+        compilePattern(value);
+        return [];
+      } catch (error) {
+        return [`${label}.value is not a valid RE2 regular expression (lookaround and backreferences are not supported)`];
+      }
+    case 'within_km':
+      return value && Number.isFinite(value.lat) && Number.isFinite(value.lng) && Number.isFinite(value.radius_km) && value.radius_km > 0
+        ? []
+        : [`${label}.value must be { lat, lng, radius_km }`];
+    default:
+      return value === undefined ? [`${label}.value is required`] : [];
+  }
+}
+
+/**
+ * The rule set AlertAgent analyses alerts with. Rules come from the file at ANALYSIS_RULES_PATH
+ * when set, otherwise from the active published version in the database, otherwise the
+ * built-ins. The source is re-checked every ANALYSIS_RULES_REFRESH_SECONDS, so edits to the
+ * file or a version activated on another instance are picked up without a restart. A rule set
+ * that fails validation is logged and the previous one stays in use.
+ */
+export class AnalysisRuleRegistry {
+  private active: AnalysisRuleSet = BUILT_IN_ANALYSIS_RULES;
+  private checkedAt = 0;
+  private fileModifiedAt = 0;
+  private reloading: Promise<AnalysisRuleSet> | null = null;
+
+  /**
+   * The rule set in use, refreshed from its source when the refresh interval has passed
+   */
+  async current(): Promise<AnalysisRuleSet> {
+    const refreshSeconds = parseInt(process.env.ANALYSIS_RULES_REFRESH_SECONDS || '', 10);
+    if (Date.now() - this.checkedAt >= (Number.isNaN(refreshSeconds) ? DEFAULT_REFRESH_SECONDS : refreshSeconds) * 1000) {
+      await this.reload();
+    }
+    return this.active;
+  }
+
+  /**
+   * Re-read the rule source now
+   */
+  async reload(): Promise<AnalysisRuleSet> {
+    if (!this.reloading) {
+      this.reloading = (process.env.ANALYSIS_RULES_PATH ? this.reloadFile(process.env.ANALYSIS_RULES_PATH) : this.reloadDatabase())
+        .catch(error => {
+          logger.error('Analysis rules could not be reloaded; keeping the current rule set', {
+            version: this.active.version,
+            source: this.active.source,
+            error: error instanceof Error ? error.message : error
+          });
+          return this.active;
+        })
+        .finally(() => {
+          this.checkedAt = Date.now();
+          this.reloading = null;
+        });
+    }
+    return this.reloading;
+  }
+
+  async listVersions(): Promise<Array<Omit<AnalysisRuleSet, 'rules'> & { rule_count: number }>> {
+    const result = await query(`
+      SELECT version, description, active, jsonb_array_length(rules) AS rule_count, created_by, created_at
+      FROM analysis_rule_versions
+      ORDER BY version DESC
+    `);
+
+    return result.rows.map((row: any) => ({
+      version: row.version,
+      source: 'database' as const,
+      description: row.description || undefined,
+      active: row.active,
+      rule_count: parseInt(row.rule_count, 10),
+      created_by: row.created_by || undefined,
+      created_at: row.created_at
+    }));
+  }
+
+  async getVersion(version: number): Promise<AnalysisRuleSet | null> {
+    if (version === 0) {
+      return BUILT_IN_ANALYSIS_RULES;
+    }
+    const result = await query('SELECT * FROM analysis_rule_versions WHERE version = $1', [version]);
+    return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Store a rule set as the next version, optionally making it the active one
+   */
+  async publish(rules: AnalysisRule[], options: { description?: string; activate?: boolean }, userId: string): Promise<AnalysisRuleSet> {
+    const errors = validateAnalysisRules(rules);
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid analysis rules', errors.slice(0, 50));
+    }
+    if (options.activate) {
+      this.assertDatabaseManaged();
+    }
+
+    const saved = await transaction(async client => {
+      if (options.activate) {
+        await client.query('UPDATE analysis_rule_versions SET active = false WHERE active');
+      }
+      const result = await client.query(`
+        INSERT INTO analysis_rule_versions (version, description, rules, active, created_by)
+        SELECT COALESCE(MAX(version), 0) + 1, $1, $2, $3, $4 FROM analysis_rule_versions
+        RETURNING *
+      `, [options.description || null, JSON.stringify(rules), !!options.activate, userId]);
+      return this.mapRow(result.rows[0]);
+    });
+
+    logAuditEvent({
+      actor: userId,
+      action: 'analysis_rules.publish',
+      resource: `analysis_rules:${saved.version}`,
+      result: 'success',
+      details: { rules: rules.length, activated: !!options.activate }
+    });
+
+    if (options.activate) {
+      this.use(saved);
+    }
+    return saved;
+  }
+
+  /**
+   * Make a published version the active one; activating an older version rolls back.
+   * Version 0 returns to the built-in rules.
+   */
+  async activate(version: number, userId: string): Promise<AnalysisRuleSet> {
+    this.assertDatabaseManaged();
+
+    const ruleSet = await transaction(async client => {
+      await client.query('UPDATE analysis_rule_versions SET active = false WHERE active');
+      if (version === 0) {
+        return BUILT_IN_ANALYSIS_RULES;
+      }
+      const result = await client.query('UPDATE analysis_rule_versions SET active = true WHERE version = $1 RETURNING *', [version]);
+      if (result.rows.length === 0) {
+        throw new NotFoundError(`Analysis rules version ${version} not found`);
+      }
+      return this.mapRow(result.rows[0]);
+    });
+
+    logAuditEvent({
+      actor: userId,
+      action: 'analysis_rules.activate',
+      resource: `analysis_rules:${version}`,
+      result: 'success',
+      details: { previous_version: this.active.version }
+    });
+
+    this.use(ruleSet);
+    return ruleSet;
+  }
+
+  private async reloadDatabase(): Promise<AnalysisRuleSet> {
+    const result = await query('SELECT version FROM analysis_rule_versions WHERE active');
+    const version: number = result.rows[0]?.version ?? 0;
+    if (version === this.active.version && this.active.source !== 'file') {
+      return this.active;
+    }
+
+    const ruleSet = await this.getVersion(version);
+    if (!ruleSet) {
+      return this.active;
+    }
+    return this.use(ruleSet);
+  }
+
+  private async reloadFile(filePath: string): Promise<AnalysisRuleSet> {
+    const modifiedAt = fs.statSync(filePath).mtimeMs;
+    if (modifiedAt === this.fileModifiedAt && this.active.source === 'file') {
+      return this.active;
+    }
+
+    // A bare array of rules, or { version, description, rules }
+    const data = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    const rules = Array.isArray(data) ? data : data?.rules;
+    const errors = validateAnalysisRules(rules);
+    this.fileModifiedAt = modifiedAt;
+    if (errors.length > 0) {
+      throw new Error(`${filePath}: ${errors.slice(0, 5).join('; ')}`);
+    }
+
+    return this.use({
+      version: Number.isInteger(data?.version) ? data.version : 1,
+      source: 'file',
+      description: data?.description || filePath,
+      rules
+    });
+  }
+
+  private use(ruleSet: AnalysisRuleSet): AnalysisRuleSet {
+    if (ruleSet.version !== this.active.version || ruleSet.source !== this.active.source) {
+      logger.info(`Analysis rules version ${ruleSet.version} in use`, { source: ruleSet.source, rules: ruleSet.rules.length });
+    }
+    this.active = ruleSet;
+    this.checkedAt = Date.now();
+    return ruleSet;
+  }
+
+  private assertDatabaseManaged() {
+    if (process.env.ANALYSIS_RULES_PATH) {
+      throw new CrisisAssistError('Analysis rules are loaded from ANALYSIS_RULES_PATH; edit that file instead', 'ANALYSIS_RULES_FILE_MANAGED', 409);
+    }
+  }
+
+  private mapRow(row: any): AnalysisRuleSet {
+    return {
+      version: row.version,
+      source: 'database',
+      description: row.description || undefined,
+      rules: parse(row.rules),
+      active: row.active,
+      created_by: row.created_by || undefined,
+      created_at: row.created_at
+    };
+  }
+}
+
+// Export singleton instance
+export const analysisRuleRegistry = new AnalysisRuleRegistry();
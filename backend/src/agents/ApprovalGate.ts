@@ -0,0 +1,350 @@
+import { v4 as uuidv4 } from 'uuid';
+import { query } from '../database/connection';
+import { logger, logAuditEvent } from '../utils/logger';
+import { SlackService } from '../utils/slack';
+import { streamingService } from '../utils/realTimeStreaming';
+import { AuthorizationError, CrisisAssistError, NotFoundError, WorkflowApproval, WorkflowStep } from '../types';
+
+// setTimeout fires at once for delays above 2^31-1 ms, so longer windows are waited out in chunks
+const MAX_TIMER_MS = 2147483647;
+
+export interface ApprovalDecision {
+  approval_id: string;
+  outcome: 'approved' | 'rejected';
+  decided_by: string;
+  justification: string;
+  timed_out: boolean;
+}
+
+/**
+ * Suspends approval steps until a designated approver decides, or the step times out
+ * and its default outcome applies. Approvals are persisted so a restarted workflow
+ * picks up the same pending request instead of asking again.
+ */
+export class ApprovalGate {
+  private slackService: SlackService;
+  private waiters: Map<string, { resolve: (decision: ApprovalDecision) => void; timer: NodeJS.Timeout }> = new Map();
+
+  constructor() {
+    this.slackService = new SlackService();
+  }
+
+  /**
+   * Request approval for a step (or reuse the existing request) and wait for the decision
+   */
+  async awaitDecision(workflowId: string, step: WorkflowStep, alert: any, requestedBy: string): Promise<ApprovalDecision> {
+    let approval = await this.findForStep(workflowId, step.id);
+
+    if (approval && approval.status !== 'pending') {
+      return this.toDecision(approval);
+    }
+
+    if (!approval) {
+      approval = await this.create(workflowId, step, alert, requestedBy);
+      await this.notifyApprovers(approval, step, alert);
+    }
+
+    const pending = approval;
+    return new Promise<ApprovalDecision>(resolve => {
+      this.waiters.set(pending.id, { resolve, timer: this.scheduleExpiry(pending) });
+    });
+  }
+
+  /**
+   * Arm the timer that applies the default outcome, re-arming it until the window has passed
+   */
+  private scheduleExpiry(approval: WorkflowApproval): NodeJS.Timeout {
+    const remaining = Math.max(0, new Date(approval.expires_at).getTime() - Date.now());
+
+    return setTimeout(() => {
+      const waiter = this.waiters.get(approval.id);
+      if (remaining > MAX_TIMER_MS && waiter) {
+        waiter.timer = this.scheduleExpiry(approval);
+        return;
+      }
+
+      this.expire(approval).catch(error => {
+        logger.error(`Failed to apply default outcome for approval ${approval.id}:`, error);
+      });
+    }, Math.min(remaining, MAX_TIMER_MS));
+  }
+
+  /**
+   * Record an approver's decision and release the waiting workflow
+   */
+  async decide(approvalId: string, outcome: 'approved' | 'rejected', approverId: string, justification: string): Promise<WorkflowApproval> {
+    const approval = await this.get(approvalId);
+    if (!approval) {
+      throw new NotFoundError(`Approval ${approvalId} not found`);
+    }
+    if (approval.status !== 'pending') {
+      throw new CrisisAssistError(`Approval ${approvalId} was already ${approval.status}`, 'APPROVAL_ALREADY_DECIDED', 409);
+    }
+    if (approval.approvers.length > 0 && !approval.approvers.includes(approverId)) {
+      throw new AuthorizationError('You are not a designated approver for this step');
+    }
+
+    const decided = await this.recordDecision(approval, outcome, approverId, justification);
+
+    logAuditEvent({
+      actor: approverId,
+      action: `workflow.approval.${outcome === 'approved' ? 'approve' : 'reject'}`,
+      resource: `workflow:${approval.workflow_id}`,
+      result: 'success',
+      details: { approval_id: approvalId, step_id: approval.step_id, justification }
+    });
+
+    this.release(decided);
+    return decided;
+  }
+
+  /**
+   * Stop waiting on an approval because its workflow was cancelled
+   */
+  async cancel(workflowId: string, stepId: string): Promise<void> {
+    const approval = await this.findForStep(workflowId, stepId);
+    if (!approval || approval.status !== 'pending') {
+      return;
+    }
+
+    await query(`
+      UPDATE workflow_approvals SET status = 'cancelled', decided_at = NOW() WHERE id = $1 AND status = 'pending'
+    `, [approval.id]);
+
+    const waiter = this.waiters.get(approval.id);
+    if (waiter) {
+      clearTimeout(waiter.timer);
+      this.waiters.delete(approval.id);
+    }
+  }
+
+  /**
+   * List pending approvals, optionally only those a given user may decide
+   */
+  async listPending(approverId?: string): Promise<WorkflowApproval[]> {
+    const result = await query(`
+      SELECT id, workflow_id, step_id, prompt, approvers, status, default_outcome, requested_by,
+             decided_by, justification, requested_at, decided_at, expires_at
+      FROM workflow_approvals
+      WHERE status = 'pending'
+      ORDER BY requested_at ASC
+    `);
+
+    return result.rows
+      .map((row: any) => this.mapRow(row))
+      .filter((approval: WorkflowApproval) => !approverId || approval.approvers.length === 0 || approval.approvers.includes(approverId));
+  }
+
+  async get(approvalId: string): Promise<WorkflowApproval | null> {
+    const result = await query(`
+      SELECT id, workflow_id, step_id, prompt, approvers, status, default_outcome, requested_by,
+             decided_by, justification, requested_at, decided_at, expires_at
+      FROM workflow_approvals
+      WHERE id = $1
+    `, [approvalId]);
+
+    return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+  }
+
+  private async findForStep(workflowId: string, stepId: string): Promise<WorkflowApproval | null> {
+    const result = await query(`
+      SELECT id, workflow_id, step_id, prompt, approvers, status, default_outcome, requested_by,
+             decided_by, justification, requested_at, decided_at, expires_at
+      FROM workflow_approvals
+      WHERE workflow_id = $1 AND step_id = $2 AND status <> 'cancelled'
+      ORDER BY requested_at DESC
+      LIMIT 1
+    `, [workflowId, stepId]);
+
+    return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+  }
+
+  private async create(workflowId: string, step: WorkflowStep, alert: any, requestedBy: string): Promise<WorkflowApproval> {
+    const approval: WorkflowApproval = {
+      id: uuidv4(),
+      workflow_id: workflowId,
+      step_id: step.id,
+      prompt: step.approval!.prompt || `Approve "${step.name}" for ${alert?.title || 'this alert'}?`,
+      approvers: step.approval!.approvers || [],
+      status: 'pending',
+      default_outcome: step.approval!.default_outcome,
+      requested_by: requestedBy,
+      requested_at: new Date(),
+      expires_at: new Date(Date.now() + step.timeout_ms)
+    };
+
+    await query(`
+      INSERT INTO workflow_approvals (id, workflow_id, step_id, prompt, approvers, status, default_outcome,
+                                      requested_by, requested_at, expires_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+    `, [
+      approval.id,
+      approval.workflow_id,
+      approval.step_id,
+      approval.prompt,
+      JSON.stringify(approval.approvers),
+      approval.status,
+      approval.default_outcome,
+      approval.requested_by,
+      approval.requested_at,
+      approval.expires_at
+    ]);
+
+    logAuditEvent({
+      actor: requestedBy,
+      action: 'workflow.approval.request',
+      resource: `workflow:${workflowId}`,
+      result: 'success',
+      details: { approval_id: approval.id, step_id: step.id, approvers: approval.approvers, expires_at: approval.expires_at }
+    });
+
+    return approval;
+  }
+
+  /**
+   * Tell approvers a decision is needed: on the dashboard stream and in Slack
+   */
+  private async notifyApprovers(approval: WorkflowApproval, step: WorkflowStep, alert: any): Promise<void> {
+    if (streamingService) {
+      streamingService.emitWorkflowEvent(approval.workflow_id, 'approval_requested', {
+        approval_id: approval.id,
+        step_id: approval.step_id,
+        prompt: approval.prompt,
+        approvers: approval.approvers,
+        expires_at: approval.expires_at
+      });
+    }
+
+    const channel = step.approval!.slack_channel || process.env.APPROVAL_SLACK_CHANNEL || '#crisis-response';
+    try {
+      await this.slackService.sendMessage({
+        channel,
+        text: `🛑 Approval required: ${approval.prompt}\n` +
+          `Alert: ${alert?.title || 'Unknown'} (${alert?.severity || 'unknown'} ${alert?.type || ''})\n` +
+          `Approvers: ${approval.approvers.length > 0 ? approval.approvers.join(', ') : 'any operator'}\n` +
+          `Decide by ${new Date(approval.expires_at).toISOString()} or "${approval.default_outcome}" applies.\n` +
+          `Approval ID: ${approval.id}`
+      });
+    } catch (error) {
+      // The dashboard still lists the approval, so a Slack outage must not block the workflow
+      logger.warn(`Failed to post approval request ${approval.id} to Slack:`, error);
+    }
+  }
+
+  /**
+   * Apply the default outcome once the approval window has passed
+   */
+  private async expire(approval: WorkflowApproval): Promise<void> {
+    const current = await this.get(approval.id);
+    if (current && current.status !== 'pending') {
+      this.release(current);
+      return;
+    }
+    // Without a database (demo mode) the request was never stored; apply the default in memory
+    if (!current) {
+      this.release({
+        ...approval,
+        status: 'timed_out',
+        decided_by: 'system',
+        justification: 'No decision before the approval timeout; default outcome applied',
+        decided_at: new Date()
+      });
+      return;
+    }
+
+    let expired: WorkflowApproval;
+    try {
+      expired = await this.recordDecision(
+        current,
+        approval.default_outcome,
+        'system',
+        'No decision before the approval timeout; default outcome applied',
+        true
+      );
+    } catch (error) {
+      // An approver decided between the read above and the update; release with their decision
+      const decided = await this.get(approval.id);
+      if (decided && decided.status !== 'pending') {
+        this.release(decided);
+        return;
+      }
+      throw error;
+    }
+
+    logAuditEvent({
+      actor: 'system',
+      action: 'workflow.approval.timeout',
+      resource: `workflow:${approval.workflow_id}`,
+      result: 'success',
+      details: { approval_id: approval.id, step_id: approval.step_id, default_outcome: approval.default_outcome }
+    });
+
+    this.release(expired);
+  }
+
+  private async recordDecision(
+    approval: WorkflowApproval,
+    outcome: 'approved' | 'rejected',
+    decidedBy: string,
+    justification: string,
+    timedOut: boolean = false
+  ): Promise<WorkflowApproval> {
+    const status = timedOut ? 'timed_out' : outcome;
+
+    // Only the first decision counts: a concurrent decision or timeout finds the row already decided
+    const result = await query(`
+      UPDATE workflow_approvals
+      SET status = $1, decided_by = $2, justification = $3, decided_at = NOW()
+      WHERE id = $4 AND status = 'pending'
+      RETURNING decided_at
+    `, [status, decidedBy, justification, approval.id]);
+
+    if (result.rowCount === 0) {
+      throw new CrisisAssistError(`Approval ${approval.id} was already decided`, 'APPROVAL_ALREADY_DECIDED', 409);
+    }
+
+    return { ...approval, status, decided_by: decidedBy, justification, decided_at: result.rows[0].decided_at };
+  }
+
+  private release(approval: WorkflowApproval) {
+    const waiter = this.waiters.get(approval.id);
+    if (!waiter) {
+      return;
+    }
+
+    clearTimeout(waiter.timer);
+    this.waiters.delete(approval.id);
+    waiter.resolve(this.toDecision(approval));
+  }
+
+  private toDecision(approval: WorkflowApproval): ApprovalDecision {
+    return {
+      approval_id: approval.id,
+      outcome: approval.status === 'timed_out' ? approval.default_outcome : approval.status as 'approved' | 'rejected',
+      decided_by: approval.decided_by || 'system',
+      justification: approval.justification || '',
+      timed_out: approval.status === 'timed_out'
+    };
+  }
+
+  private mapRow(row: any): WorkflowApproval {
+    return {
+      id: row.id,
+      workflow_id: row.workflow_id,
+      step_id: row.step_id,
+      prompt: row.prompt,
+      approvers: typeof row.approvers === 'string' ? JSON.parse(row.approvers) : row.approvers || [],
+      status: row.status,
+      default_outcome: row.default_outcome,
+      requested_by: row.requested_by,
+      decided_by: row.decided_by || undefined,
+      justification: row.justification || undefined,
+      requested_at: row.requested_at,
+      decided_at: row.decided_at || undefined,
+      expires_at: row.expires_at
+    };
+  }
+}
+
+// Export singleton instance
+export const approvalGate = new ApprovalGate();
@@ -0,0 +1,422 @@
+import cron from 'node-cron';
+import axios from 'axios';
+import { query } from '../database/connection';
+import { logger, logAuditEvent } from '../utils/logger';
+import { AGENT_SCOPES, generateAgentAccessToken, validateAgentToken } from '../utils/descope-real';
+import { AuthenticatedRequest } from '../types';
+import { AlertAgent } from './AlertAgent';
+import {
+  CapAlert,
+  CapInfo,
+  capAreaToAffectedArea,
+  mapCapEventType,
+  mapCapSeverity,
+  parseCapAlert,
+  readCapAlert,
+  selectCapInfo
+} from '../utils/cap';
+import { areaBoundingBox, areaCenter } from '../utils/geo';
+import { childElement, childElements, childText, parseXml, XmlElement } from '../utils/xml';
+
+export interface CapIngestResult {
+  identifier: string;
+  sender: string;
+  msg_type: CapAlert['msgType'];
+  action: 'created' | 'updated' | 'cancelled' | 'duplicate' | 'ignored';
+  alert_ids: string[];
+  reason?: string;
+}
+
+export interface CapFeedStatus {
+  url: string;
+  last_polled_at?: Date;
+  last_error?: string;
+  messages_seen: number;
+  alerts_created: number;
+  failures: number;
+}
+
+const MAX_TITLE_LENGTH = 500;
+// Feed entries remembered per feed so unchanged entries are not fetched again
+const MAX_SEEN_ENTRIES = 1000;
+
+/**
+ * Turns Common Alerting Protocol messages into alerts, either pushed to the ingest endpoint
+ * or pulled from CAP feeds on a cron schedule. Alert messages create alerts through the
+ * AlertAgent; Update and Cancel messages change the alerts created from the messages they
+ * reference. Every message is recorded by sender and identifier so repeats are ignored.
+ */
+export class CapIngestor {
+  private readonly agentId = 'agent_cap_ingestor_001';
+  private alertAgent: AlertAgent;
+  private task: cron.ScheduledTask | null = null;
+  private polling = false;
+  private feeds: Map<string, CapFeedStatus & { seen: Set<string> }> = new Map();
+
+  constructor() {
+    this.alertAgent = new AlertAgent();
+  }
+
+  /**
+   * Ingest one CAP XML document
+   */
+  async ingest(xml: string, auth: NonNullable<AuthenticatedRequest['auth']>, options: { feed_url?: string } = {}): Promise<CapIngestResult> {
+    return this.ingestMessage(parseCapAlert(xml), auth, options);
+  }
+
+  async ingestMessage(cap: CapAlert, auth: NonNullable<AuthenticatedRequest['auth']>, options: { feed_url?: string } = {}): Promise<CapIngestResult> {
+    const actor = auth.userId || auth.agentId || auth.claims?.sub || this.agentId;
+    const result: CapIngestResult = { identifier: cap.identifier, sender: cap.sender, msg_type: cap.msgType, action: 'ignored', alert_ids: [] };
+
+    // Claim the message first so two deliveries of it cannot both create an alert
+    const claimed = await query(`
+      INSERT INTO cap_messages (sender, identifier, sent, msg_type, status, feed_url, received_at)
+      VALUES ($1, $2, $3, $4, $5, $6, NOW())
+      ON CONFLICT (sender, identifier) DO NOTHING
+      RETURNING id
+    `, [cap.sender, cap.identifier, cap.sent, cap.msgType, cap.status, options.feed_url || null]);
+
+    if (claimed.rows.length === 0) {
+      return { ...result, action: 'duplicate', alert_ids: await this.alertIdsFor(cap.sender, cap.identifier), reason: 'Message was already ingested' };
+    }
+
+    try {
+      if (cap.status !== 'Actual') {
+        result.reason = `${cap.status} messages are not turned into alerts`;
+      } else if (cap.msgType === 'Ack' || cap.msgType === 'Error') {
+        result.reason = `${cap.msgType} messages carry no alert`;
+      } else {
+        const info = selectCapInfo(cap, process.env.CAP_PREFERRED_LANGUAGE || 'en');
+        const referenced = cap.msgType === 'Alert' ? [] : await this.referencedAlertIds(cap);
+
+        if (cap.msgType === 'Cancel') {
+          if (referenced.length === 0) {
+            result.reason = 'No alert was created from the referenced messages';
+          } else {
+            result.action = 'cancelled';
+            result.alert_ids = await this.cancelAlerts(referenced, cap, actor);
+          }
+        } else if (cap.msgType === 'Update' && referenced.length > 0) {
+          result.action = 'updated';
+          result.alert_ids = await this.updateAlerts(referenced, cap, info!, actor);
+        } else {
+          // Alerts, and updates to messages we never received, become new alerts
+          result.action = 'created';
+          result.alert_ids = [await this.createAlert(cap, info!, auth)];
+        }
+      }
+
+      await query(`
+        UPDATE cap_messages SET action = $1, alert_ids = $2 WHERE sender = $3 AND identifier = $4
+      `, [result.action, JSON.stringify(result.alert_ids), cap.sender, cap.identifier]);
+    } catch (error) {
+      // Release the claim so the message can be delivered again
+      await query('DELETE FROM cap_messages WHERE sender = $1 AND identifier = $2', [cap.sender, cap.identifier]).catch(() => undefined);
+      throw error;
+    }
+
+    logAuditEvent({
+      actor,
+      action: 'alert.cap_ingest',
+      resource: `cap:${cap.sender}/${cap.identifier}`,
+      result: 'success',
+      details: { msg_type: cap.msgType, status: cap.status, action: result.action, alert_ids: result.alert_ids, feed_url: options.feed_url, reason: result.reason }
+    });
+
+    logger.info(`CAP message ${cap.identifier} from ${cap.sender}: ${result.action}`, { alertIds: result.alert_ids, reason: result.reason });
+    return result;
+  }
+
+  /**
+   * Start polling CAP_FEED_URLS (every five minutes unless CAP_FEED_POLL_CRON says otherwise)
+   */
+  start(schedule: string = process.env.CAP_FEED_POLL_CRON || '*/5 * * * *', urls: string[] = (process.env.CAP_FEED_URLS || '').split(',')): void {
+    if (this.task) {
+      return;
+    }
+    if (!cron.validate(schedule)) {
+      throw new Error(`Invalid CAP feed poll schedule: ${schedule}`);
+    }
+
+    urls.map(url => url.trim()).filter(Boolean).forEach(url => {
+      if (!this.feeds.has(url)) {
+        this.feeds.set(url, { url, messages_seen: 0, alerts_created: 0, failures: 0, seen: new Set() });
+      }
+    });
+    if (this.feeds.size === 0) {
+      logger.warn('CAP feed polling enabled but CAP_FEED_URLS is empty');
+      return;
+    }
+
+    this.task = cron.schedule(schedule, () => {
+      this.pollFeeds().catch(error => {
+        logger.error('CAP feed poll failed:', error);
+      });
+    });
+    logger.info('CAP feed polling started', { schedule, feeds: [...this.feeds.keys()] });
+  }
+
+  stop(): void {
+    this.task?.stop();
+    this.task = null;
+  }
+
+  getFeedStatus(): { polling: boolean; feeds: CapFeedStatus[] } {
+    return {
+      polling: this.task !== null,
+      feeds: [...this.feeds.values()].map(({ seen, ...status }) => status)
+    };
+  }
+
+  /**
+   * Poll every configured feed once. Overlapping polls are skipped.
+   */
+  async pollFeeds(): Promise<{ polled: number; ingested: CapIngestResult[] }> {
+    if (this.polling || this.feeds.size === 0) {
+      return { polled: 0, ingested: [] };
+    }
+    this.polling = true;
+
+    try {
+      const auth = await this.createPollerAuth();
+      const ingested: CapIngestResult[] = [];
+      for (const feed of this.feeds.values()) {
+        try {
+          ingested.push(...await this.pollFeed(feed, auth));
+          feed.last_error = undefined;
+        } catch (error) {
+          feed.failures++;
+          feed.last_error = error instanceof Error ? error.message : String(error);
+          logger.error(`Failed to poll CAP feed ${feed.url}:`, error);
+        }
+        feed.last_polled_at = new Date();
+      }
+      return { polled: this.feeds.size, ingested };
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * A feed URL may serve a single CAP alert, or an Atom/RSS index whose entries either embed
+   * the alert or link to it
+   */
+  private async pollFeed(feed: CapFeedStatus & { seen: Set<string> }, auth: NonNullable<AuthenticatedRequest['auth']>): Promise<CapIngestResult[]> {
+    const root = parseXml(await this.fetchXml(feed.url));
+    const maxEntries = parseInt(process.env.CAP_FEED_MAX_ENTRIES || '50');
+
+    let documents: Array<{ key: string; alert?: XmlElement; link?: string }>;
+    if (root.name === 'alert') {
+      documents = [{ key: `${childText(root, 'sender')}/${childText(root, 'identifier')}`, alert: root }];
+    } else if (root.name === 'feed') {
+      documents = childElements(root, 'entry').map(entry => {
+        const links = childElements(entry, 'link');
+        const link = links.find(candidate => /cap\+xml|xml/.test(candidate.attributes.type || '')) ||
+          links.find(candidate => !candidate.attributes.rel || candidate.attributes.rel === 'alternate') || links[0];
+        return {
+          key: childText(entry, 'id') || link?.attributes.href || '',
+          alert: childElement(childElement(entry, 'content'), 'alert'),
+          link: link?.attributes.href
+        };
+      });
+    } else if (root.name === 'rss') {
+      documents = childElements(childElement(root, 'channel'), 'item').map(item => ({
+        key: childText(item, 'guid') || childText(item, 'link') || '',
+        link: childText(item, 'link')
+      }));
+    } else {
+      throw new Error(`Unrecognised feed format <${root.name}>`);
+    }
+
+    const results: CapIngestResult[] = [];
+    for (const document of documents.filter(candidate => candidate.key && !feed.seen.has(candidate.key)).slice(0, maxEntries)) {
+      try {
+        const cap = document.alert
+          ? readCapAlert(document.alert)
+          : document.link ? parseCapAlert(await this.fetchXml(new URL(document.link, feed.url).toString())) : null;
+        if (cap) {
+          const result = await this.ingestMessage(cap, auth, { feed_url: feed.url });
+          feed.messages_seen++;
+          if (result.action === 'created') {
+            feed.alerts_created++;
+          }
+          results.push(result);
+        }
+        this.remember(feed, document.key);
+      } catch (error) {
+        feed.failures++;
+        logger.warn(`Skipping CAP feed entry ${document.key} from ${feed.url}:`, error instanceof Error ? error.message : error);
+        this.remember(feed, document.key);
+      }
+    }
+    return results;
+  }
+
+  private remember(feed: { seen: Set<string> }, key: string) {
+    feed.seen.add(key);
+    if (feed.seen.size > MAX_SEEN_ENTRIES) {
+      feed.seen.delete(feed.seen.values().next().value as string);
+    }
+  }
+
+  private async fetchXml(url: string): Promise<string> {
+    const response = await axios.get(url, {
+      responseType: 'text',
+      timeout: 15000,
+      maxContentLength: 5 * 1024 * 1024,
+      headers: { Accept: 'application/cap+xml, application/atom+xml, application/rss+xml, application/xml, text/xml' }
+    });
+    return response.data;
+  }
+
+  private async createAlert(cap: CapAlert, info: CapInfo, auth: NonNullable<AuthenticatedRequest['auth']>): Promise<string> {
+    const area = capAreaToAffectedArea(info.areas);
+    const { alert_id } = await this.alertAgent.detectAndCreateAlert({
+      source: 'api',
+      type: mapCapEventType(info),
+      severity: mapCapSeverity(info),
+      title: this.title(info),
+      description: this.description(info),
+      location: { address: this.areaDescription(cap, info) },
+      affected_area: area,
+      metadata: { cap: this.capMetadata(cap, info) }
+    }, auth);
+    return alert_id;
+  }
+
+  private async updateAlerts(alertIds: string[], cap: CapAlert, info: CapInfo, actor: string): Promise<string[]> {
+    const area = capAreaToAffectedArea(info.areas);
+    const box = area ? areaBoundingBox(area) : null;
+    const center = area ? areaCenter(area) : null;
+
+    // The location only moves when the update carries a shape
+    const result = await query(`
+      UPDATE alerts
+      SET severity = $1, title = $2, description = $3,
+          location_address = CASE WHEN $4::boolean THEN $5 ELSE location_address END,
+          location_lat = CASE WHEN $4::boolean THEN $6 ELSE location_lat END,
+          location_lng = CASE WHEN $4::boolean THEN $7 ELSE location_lng END,
+          affected_area = CASE WHEN $4::boolean THEN $8::jsonb ELSE affected_area END,
+          area_min_lat = CASE WHEN $4::boolean THEN $9 ELSE area_min_lat END,
+          area_max_lat = CASE WHEN $4::boolean THEN $10 ELSE area_max_lat END,
+          area_min_lng = CASE WHEN $4::boolean THEN $11 ELSE area_min_lng END,
+          area_max_lng = CASE WHEN $4::boolean THEN $12 ELSE area_max_lng END,
+          metadata = COALESCE(metadata, '{}'::jsonb) || $13::jsonb,
+          updated_at = NOW()
+      WHERE id = ANY($14) AND status <> 'cancelled'
+      RETURNING id
+    `, [
+      mapCapSeverity(info),
+      this.title(info),
+      this.description(info),
+      Boolean(area),
+      this.areaDescription(cap, info),
+      center?.lat ?? null,
+      center?.lng ?? null,
+      area ? JSON.stringify(area) : null,
+      box?.min_lat ?? null,
+      box?.max_lat ?? null,
+      box?.min_lng ?? null,
+      box?.max_lng ?? null,
+      JSON.stringify({ cap: this.capMetadata(cap, info) }),
+      alertIds
+    ]);
+
+    const updated = result.rows.map((row: any) => row.id);
+    updated.forEach((alertId: string) => logAuditEvent({
+      actor,
+      action: 'alert.cap_update',
+      resource: `alert:${alertId}`,
+      result: 'success',
+      details: { identifier: cap.identifier, sender: cap.sender, severity: mapCapSeverity(info), area_changed: Boolean(area) }
+    }));
+    return updated;
+  }
+
+  private async cancelAlerts(alertIds: string[], cap: CapAlert, actor: string): Promise<string[]> {
+    const result = await query(`
+      UPDATE alerts
+      SET status = 'cancelled', metadata = COALESCE(metadata, '{}'::jsonb) || $1::jsonb, updated_at = NOW()
+      WHERE id = ANY($2) AND status <> 'cancelled'
+      RETURNING id
+    `, [JSON.stringify({ cap_cancelled: { identifier: cap.identifier, sent: cap.sent, note: cap.note } }), alertIds]);
+
+    const cancelled = result.rows.map((row: any) => row.id);
+    cancelled.forEach((alertId: string) => logAuditEvent({
+      actor,
+      action: 'alert.cap_cancel',
+      resource: `alert:${alertId}`,
+      result: 'success',
+      details: { identifier: cap.identifier, sender: cap.sender, note: cap.note }
+    }));
+    return cancelled;
+  }
+
+  /**
+   * Alerts created or updated by the messages a CAP Update/Cancel references
+   */
+  private async referencedAlertIds(cap: CapAlert): Promise<string[]> {
+    const result = await query(`
+      SELECT alert_ids FROM cap_messages
+      WHERE (sender, identifier) IN (SELECT * FROM unnest($1::text[], $2::text[]))
+    `, [cap.references.map(reference => reference.sender), cap.references.map(reference => reference.identifier)]);
+
+    const parse = (value: any) => (typeof value === 'string' ? JSON.parse(value) : value);
+    return [...new Set<string>(result.rows.flatMap((row: any) => parse(row.alert_ids) || []))];
+  }
+
+  private async alertIdsFor(sender: string, identifier: string): Promise<string[]> {
+    const result = await query('SELECT alert_ids FROM cap_messages WHERE sender = $1 AND identifier = $2', [sender, identifier]);
+    const value = result.rows[0]?.alert_ids;
+    return (typeof value === 'string' ? JSON.parse(value) : value) || [];
+  }
+
+  private title(info: CapInfo): string {
+    return (info.headline || info.event).slice(0, MAX_TITLE_LENGTH);
+  }
+
+  private description(info: CapInfo): string {
+    return [info.description, info.instruction && `Instructions: ${info.instruction}`].filter(Boolean).join('\n\n') || info.event;
+  }
+
+  private areaDescription(cap: CapAlert, info: CapInfo): string {
+    return info.areas.map(area => area.areaDesc).filter(Boolean).join('; ') || info.senderName || cap.sender;
+  }
+
+  private capMetadata(cap: CapAlert, info: CapInfo): Record<string, any> {
+    return {
+      identifier: cap.identifier,
+      sender: cap.sender,
+      sender_name: info.senderName,
+      sent: cap.sent,
+      msg_type: cap.msgType,
+      scope: cap.scope,
+      event: info.event,
+      category: info.category,
+      urgency: info.urgency,
+      severity: info.severity,
+      certainty: info.certainty,
+      language: info.language,
+      effective: info.effective,
+      onset: info.onset,
+      expires: info.expires,
+      web: info.web,
+      geocodes: info.areas.flatMap(area => area.geocodes)
+    };
+  }
+
+  private async createPollerAuth(): Promise<NonNullable<AuthenticatedRequest['auth']>> {
+    const scopes = AGENT_SCOPES.ALERT_AGENT;
+    const token = await generateAgentAccessToken(this.agentId, scopes, 600);
+    const validation = await validateAgentToken(token);
+
+    if (!validation.valid || !validation.claims) {
+      throw new Error(`CAP poller token validation failed: ${validation.error}`);
+    }
+
+    return { claims: validation.claims, token, scopes, agentId: this.agentId };
+  }
+}
+
+// Export singleton instance
+export const capIngestor = new CapIngestor();
@@ -0,0 +1,420 @@
+import crypto from 'crypto';
+import { query } from '../database/connection';
+import { logger, logAuditEvent } from '../utils/logger';
+import { AGENT_SCOPES, generateAgentAccessToken, validateAgentToken } from '../utils/descope-real';
+import { Alert, AuthenticatedRequest, CitizenReport, CrisisAssistError, NotFoundError, ValidationError } from '../types';
+import { AlertAgent } from './AlertAgent';
+import { VerifierAgent } from './VerifierAgent';
+
+export interface ParsedCitizenSms {
+  kind: 'report' | 'help' | 'ignored';
+  type?: string;
+  severity?: Alert['severity'];
+  place?: string;
+  keyword?: string;
+}
+
+export interface CitizenSmsResult {
+  reply: string | null; // SMS text to send back; null sends nothing
+  report?: CitizenReport;
+  duplicate?: boolean; // Twilio retried a message we already have
+}
+
+// "FLOOD Vijay Nagar" style keywords; the rest of the message is the place
+const KEYWORDS: Record<string, string> = {
+  FLOOD: 'flood',
+  FLOODING: 'flood',
+  FIRE: 'fire',
+  SMOKE: 'fire',
+  QUAKE: 'earthquake',
+  EARTHQUAKE: 'earthquake',
+  STORM: 'storm',
+  CYCLONE: 'storm',
+  MEDICAL: 'medical',
+  INJURY: 'medical',
+  SECURITY: 'security',
+  CRIME: 'security'
+};
+const HELP_KEYWORDS = ['HELP', 'INFO', 'MENU'];
+// Twilio handles opt-out keywords itself but still forwards the message
+const OPT_OUT_KEYWORDS = ['STOP', 'STOPALL', 'UNSUBSCRIBE', 'CANCEL', 'END', 'QUIT', 'START', 'UNSTOP', 'YES'];
+
+// Free-text messages: the first pattern that matches decides the type
+const FREE_TEXT_TYPES: Array<[RegExp, string]> = [
+  [/flood|water ?logg|submerged|overflow|dam (break|burst)/i, 'flood'],
+  [/fire|burning|smoke|blaze/i, 'fire'],
+  [/earthquake|quake|tremor/i, 'earthquake'],
+  [/storm|cyclone|wind|lightning|hail|tree (fell|fallen)/i, 'storm'],
+  [/injur|unconscious|ambulance|bleeding|heart attack|sick|medical/i, 'medical'],
+  [/fight|riot|gun|shoot|robbery|attack|bomb/i, 'security']
+];
+const URGENT_PATTERN = /\b(trapped|stranded|injured|dying|dead|drowning|collapsed?|urgent|emergency|sos)\b/i;
+// "... in Vijay Nagar", "near the old bridge, ..."
+const PLACE_PATTERN = /\b(?:in|at|near|around)\s+([^.,;:!?\n]{3,80})/i;
+
+const CITIZEN_REPORT_RULES = ['content_length', 'profanity_filter', 'misinformation_detection', 'location_validation', 'urgency_validation'];
+const REFERENCE_ALPHABET = '23456789ABCDEFGHJKMNPQRSTUVWXYZ'; // No 0/O or 1/I/L to misread
+const MAX_BODY_LENGTH = 1600; // Twilio's limit for a concatenated SMS
+
+export const CITIZEN_SMS_HELP = 'CrisisAssist: text TYPE PLACE, e.g. "FLOOD Vijay Nagar". Types: FLOOD FIRE QUAKE STORM MEDICAL SECURITY. In danger now? Call 112.';
+
+const parse = (value: any) => (typeof value === 'string' ? JSON.parse(value) : value);
+
+/**
+ * Read what a citizen texted: a keyword report ("FLOOD Vijay Nagar: water rising"), a request
+ * for help with the format, an opt-out keyword, or free text we classify by its wording.
+ */
+export function parseCitizenSms(body: string): ParsedCitizenSms {
+  const text = (body || '').trim().replace(/\s+/g, ' ');
+  if (!text) {
+    return { kind: 'help' };
+  }
+
+  const [first, ...rest] = text.split(' ');
+  const word = first.toUpperCase().replace(/[^A-Z]/g, '');
+  if (HELP_KEYWORDS.includes(word) && rest.length === 0) {
+    return { kind: 'help' };
+  }
+  if (OPT_OUT_KEYWORDS.includes(word) && rest.length === 0) {
+    return { kind: 'ignored' };
+  }
+
+  const severity: Alert['severity'] = URGENT_PATTERN.test(text) ? 'high' : 'medium';
+
+  if (KEYWORDS[word]) {
+    // Anything after a separator is detail, not part of the place name
+    const place = rest.join(' ').replace(/^[\s:;,.!–-]+/, '').split(/[:;,!]|\s[-–]\s/)[0].trim();
+    if (!place) {
+      return { kind: 'help' };
+    }
+    return { kind: 'report', type: KEYWORDS[word], severity, place, keyword: word };
+  }
+
+  const type = FREE_TEXT_TYPES.find(([pattern]) => pattern.test(text))?.[1] || 'other';
+  const place = PLACE_PATTERN.exec(text)?.[1].trim();
+  return { kind: 'report', type, severity, place };
+}
+
+/**
+ * Reports texted in by citizens through the Twilio inbound webhook. Every report becomes a
+ * draft alert that the VerifierAgent checks; only a verified draft is activated, so an
+ * unverified SMS can never start a workflow or notify anyone. Unverified reports wait for an
+ * operator to correct and re-verify or reject them.
+ */
+export class CitizenReportIntake {
+  private readonly agentId = 'agent_citizen_intake_001';
+  private alertAgent: AlertAgent;
+  private verifierAgent: VerifierAgent;
+  // One verification per report at a time, so the webhook and an operator cannot both create a draft
+  private reportLocks: Map<string, Promise<unknown>> = new Map();
+
+  constructor() {
+    this.alertAgent = new AlertAgent();
+    this.verifierAgent = new VerifierAgent();
+  }
+
+  /**
+   * Handle one inbound SMS. The report is stored and answered with its reference right away;
+   * the draft alert and verification run afterwards so Twilio is not kept waiting.
+   */
+  async receiveSms(message: { message_sid: string; from: string; body: string }): Promise<CitizenSmsResult> {
+    if (!message.message_sid || !message.from) {
+      throw new ValidationError('MessageSid and From are required');
+    }
+
+    const body = (message.body || '').slice(0, MAX_BODY_LENGTH);
+    const parsed = parseCitizenSms(body);
+    if (parsed.kind === 'help') {
+      return { reply: CITIZEN_SMS_HELP };
+    }
+    if (parsed.kind === 'ignored') {
+      return { reply: null };
+    }
+
+    const { report, duplicate } = await this.store(message.message_sid, message.from, body, parsed);
+
+    if (!duplicate) {
+      logAuditEvent({
+        actor: this.agentId,
+        action: 'citizen_report.receive',
+        resource: `citizen_report:${report.reference}`,
+        result: 'success',
+        details: { from: maskPhoneNumber(report.from_number), type: report.type, severity: report.severity, keyword: report.keyword }
+      });
+
+      this.verify(report.reference).catch(error => {
+        logger.error(`Citizen report ${report.reference} could not be verified; it stays pending:`, error);
+      });
+    }
+
+    const where = report.place ? ` near ${report.place.slice(0, 40)}` : '';
+    return {
+      reply: `CrisisAssist: ${report.type === 'other' ? 'report' : `${report.type} report`}${where} received. Reference ${report.reference}. ` +
+        'Responders will review it. In danger now? Call 112.',
+      report,
+      duplicate
+    };
+  }
+
+  async get(reference: string): Promise<CitizenReport | null> {
+    const result = await query('SELECT * FROM citizen_reports WHERE reference = $1', [reference.toUpperCase()]);
+    return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+  }
+
+  async list(filters: { status?: CitizenReport['status']; type?: string; limit?: number } = {}): Promise<CitizenReport[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+    (['status', 'type'] as const).forEach(field => {
+      if (filters[field]) {
+        params.push(filters[field]);
+        conditions.push(`${field} = $${params.length}`);
+      }
+    });
+    params.push(Math.min(filters.limit || 50, 200));
+
+    const result = await query(`
+      SELECT * FROM citizen_reports
+      ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY created_at DESC
+      LIMIT $${params.length}
+    `, params);
+
+    return result.rows.map((row: any) => this.mapRow(row));
+  }
+
+  /**
+   * Run a report through the VerifierAgent, creating its draft alert first if needed. A
+   * verified report's draft is activated; otherwise the report is left unverified. Operators
+   * re-run this after correcting the location, which is what most often fails verification.
+   */
+  async verify(
+    reference: string,
+    options: { location?: { address: string; lat: number; lng: number }; userId?: string } = {}
+  ): Promise<CitizenReport> {
+    return this.withReportLock(reference.toUpperCase(), () => this.runVerification(reference.toUpperCase(), options));
+  }
+
+  /**
+   * Discard a report; its draft alert is cancelled
+   */
+  async reject(reference: string, userId: string, reason?: string): Promise<CitizenReport> {
+    return this.withReportLock(reference.toUpperCase(), async () => {
+      const report = await this.requireReport(reference.toUpperCase());
+      if (report.status === 'verified') {
+        throw new CrisisAssistError(`Citizen report ${report.reference} is verified; resolve or cancel alert ${report.alert_id} instead`, 'CITIZEN_REPORT_VERIFIED', 409);
+      }
+
+      if (report.alert_id) {
+        await query(`UPDATE alerts SET status = 'cancelled', updated_at = NOW() WHERE id = $1 AND status = 'draft'`, [report.alert_id]);
+      }
+      const result = await query(`
+        UPDATE citizen_reports SET status = 'rejected', reviewed_by = $2, updated_at = NOW()
+        WHERE reference = $1
+        RETURNING *
+      `, [report.reference, userId]);
+
+      logAuditEvent({
+        actor: userId,
+        action: 'citizen_report.reject',
+        resource: `citizen_report:${report.reference}`,
+        result: 'success',
+        details: { alert_id: report.alert_id, reason }
+      });
+
+      return this.mapRow(result.rows[0]);
+    });
+  }
+
+  private async runVerification(
+    reference: string,
+    options: { location?: { address: string; lat: number; lng: number }; userId?: string }
+  ): Promise<CitizenReport> {
+    let report = await this.requireReport(reference);
+    if (report.status === 'rejected' || report.status === 'verified') {
+      throw new CrisisAssistError(`Citizen report ${reference} is already ${report.status}`, 'CITIZEN_REPORT_CLOSED', 409);
+    }
+
+    const auth = await this.createIntakeAuth();
+
+    if (!report.alert_id) {
+      const { alert_id } = await this.alertAgent.detectAndCreateAlert({
+        source: 'citizen_report',
+        type: report.type,
+        severity: report.severity,
+        title: `Citizen report ${report.reference}: ${report.type}${report.place ? ` near ${report.place}` : ''}`.slice(0, 500),
+        description: report.body,
+        location: options.location || { address: report.place || report.body },
+        metadata: { citizen_report: report.reference, keyword: report.keyword }
+      }, auth, { draft: true });
+
+      await query('UPDATE citizen_reports SET alert_id = $1, updated_at = NOW() WHERE reference = $2', [alert_id, reference]);
+      report = { ...report, alert_id };
+    } else if (options.location) {
+      // Coordinates given by an operator are taken as exact
+      await query(`
+        UPDATE alerts
+        SET location_address = $2, location_lat = $3, location_lng = $4, location_confidence = 1, location_source = 'provided', updated_at = NOW()
+        WHERE id = $1 AND status = 'draft'
+      `, [report.alert_id, options.location.address, options.location.lat, options.location.lng]);
+    }
+    if (options.location) {
+      await query('UPDATE citizen_reports SET place = $1, updated_at = NOW() WHERE reference = $2', [options.location.address, reference]);
+    }
+
+    const draft = await query('SELECT location_address, location_confidence, location_source FROM alerts WHERE id = $1', [report.alert_id]);
+    const location = draft.rows[0] || {};
+
+    const verification = await this.verifierAgent.verifyContent({
+      content_type: 'alert',
+      content: {
+        source: 'citizen_report',
+        type: report.type,
+        severity: report.severity,
+        title: `Citizen report: ${report.type}`,
+        description: report.body,
+        location_address: location.location_address,
+        location_confidence: location.location_confidence != null ? parseFloat(location.location_confidence) : undefined,
+        location_source: location.location_source,
+        alert_id: report.alert_id
+      },
+      verification_rules: CITIZEN_REPORT_RULES
+    }, auth);
+
+    const activation = verification.verified ? await this.alertAgent.activateDraftAlert(report.alert_id!, auth) : null;
+    const status: CitizenReport['status'] = verification.verified ? 'verified' : 'unverified';
+
+    const result = await query(`
+      UPDATE citizen_reports
+      SET status = $2, verification_id = $3, risk_score = $4, verification_errors = $5,
+          reviewed_by = COALESCE($6, reviewed_by), updated_at = NOW()
+      WHERE reference = $1
+      RETURNING *
+    `, [
+      reference,
+      status,
+      verification.verification_id,
+      verification.verification_data.risk_score,
+      JSON.stringify(verification.errors),
+      options.userId || null
+    ]);
+
+    logAuditEvent({
+      actor: options.userId || this.agentId,
+      action: 'citizen_report.verify',
+      resource: `citizen_report:${reference}`,
+      result: verification.verified ? 'success' : 'failure',
+      details: {
+        alert_id: report.alert_id,
+        verification_id: verification.verification_id,
+        risk_score: verification.verification_data.risk_score,
+        errors: verification.errors,
+        incident_id: activation?.correlation?.incident_id
+      }
+    });
+
+    return this.mapRow(result.rows[0]);
+  }
+
+  /**
+   * Insert the report, or return the stored one when Twilio retries the same message
+   */
+  private async store(
+    messageSid: string,
+    from: string,
+    body: string,
+    parsed: ParsedCitizenSms
+  ): Promise<{ report: CitizenReport; duplicate: boolean }> {
+    // A fresh reference colliding with an old one is unlikely but possible; try again then
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const inserted = await query(`
+        INSERT INTO citizen_reports (reference, message_sid, from_number, body, type, severity, place, keyword, created_at, updated_at)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW(), NOW())
+        ON CONFLICT DO NOTHING
+        RETURNING *
+      `, [generateReference(), messageSid, from, body, parsed.type, parsed.severity, parsed.place || null, parsed.keyword || null]);
+
+      if (inserted.rows.length > 0) {
+        return { report: this.mapRow(inserted.rows[0]), duplicate: false };
+      }
+
+      const existing = await query('SELECT * FROM citizen_reports WHERE message_sid = $1', [messageSid]);
+      if (existing.rows.length > 0) {
+        return { report: this.mapRow(existing.rows[0]), duplicate: true };
+      }
+    }
+
+    throw new Error('Could not allocate a citizen report reference');
+  }
+
+  private async requireReport(reference: string): Promise<CitizenReport> {
+    const report = await this.get(reference);
+    if (!report) {
+      throw new NotFoundError(`Citizen report ${reference} not found`);
+    }
+    return report;
+  }
+
+  private async withReportLock<T>(reference: string, work: () => Promise<T>): Promise<T> {
+    const previous = this.reportLocks.get(reference) || Promise.resolve();
+    const run = previous.catch(() => undefined).then(work);
+    this.reportLocks.set(reference, run);
+    try {
+      return await run;
+    } finally {
+      if (this.reportLocks.get(reference) === run) {
+        this.reportLocks.delete(reference);
+      }
+    }
+  }
+
+  private async createIntakeAuth(): Promise<NonNullable<AuthenticatedRequest['auth']>> {
+    const scopes = AGENT_SCOPES.ALERT_AGENT;
+    const token = await generateAgentAccessToken(this.agentId, scopes, 600);
+    const validation = await validateAgentToken(token);
+
+    if (!validation.valid || !validation.claims) {
+      throw new Error(`Citizen report intake token validation failed: ${validation.error}`);
+    }
+
+    return { claims: validation.claims, token, scopes, agentId: this.agentId };
+  }
+
+  private mapRow(row: any): CitizenReport {
+    return {
+      reference: row.reference,
+      message_sid: row.message_sid,
+      from_number: row.from_number,
+      body: row.body,
+      type: row.type,
+      severity: row.severity,
+      place: row.place || undefined,
+      keyword: row.keyword || undefined,
+      status: row.status,
+      alert_id: row.alert_id || undefined,
+      verification_id: row.verification_id || undefined,
+      risk_score: row.risk_score != null ? parseFloat(row.risk_score) : undefined,
+      verification_errors: parse(row.verification_errors) || [],
+      reviewed_by: row.reviewed_by || undefined,
+      created_at: row.created_at,
+      updated_at: row.updated_at
+    };
+  }
+}
+
+function generateReference(): string {
+  let reference = 'CR-';
+  for (let i = 0; i < 6; i++) {
+    reference += REFERENCE_ALPHABET[crypto.randomInt(REFERENCE_ALPHABET.length)];
+  }
+  return reference;
+}
+
+/**
+ * "+919876543210" -> "+91******3210", for logs
+ */
+export function maskPhoneNumber(phoneNumber: string): string {
+  return phoneNumber.length > 7 ? `${phoneNumber.slice(0, 3)}${'*'.repeat(phoneNumber.length - 7)}${phoneNumber.slice(-4)}` : '****';
+}
+
+// Export singleton instance
+export const citizenReportIntake = new CitizenReportIntake();
@@ -0,0 +1,268 @@
+import { v4 as uuidv4 } from 'uuid';
+import { query } from '../database/connection';
+import { logger, logAuditEvent } from '../utils/logger';
+import {
+  AuthenticatedRequest,
+  CrisisAssistError,
+  DeadLetterAuthContext,
+  DeadLetterRedrive,
+  DeadLetterTask,
+  NotFoundError,
+  WorkflowStep,
+  WorkflowStepAttempt
+} from '../types';
+
+const parse = (value: any) => (typeof value === 'string' ? JSON.parse(value) : value);
+
+/**
+ * Strip an auth context down to who the task ran as. Tokens never reach the table.
+ */
+export function sanitizeAuthContext(auth: NonNullable<AuthenticatedRequest['auth']>): DeadLetterAuthContext {
+  return {
+    subject: auth.claims?.sub,
+    user_id: auth.userId || auth.claims?.user_id,
+    agent_id: auth.agentId || auth.claims?.agent_id,
+    agent_type: auth.claims?.agent_type,
+    scopes: auth.scopes || auth.claims?.scope?.split(' ') || [],
+    delegation: auth.claims?.delegation
+  };
+}
+
+/**
+ * Keeps agent tasks that failed after all retries so an admin can inspect them, fix their
+ * input and re-drive them. The orchestrator performs the re-drive; this store tracks the
+ * task's status and every attempt made.
+ */
+export class DeadLetterQueue {
+  /**
+   * Record a failed task. Failures are logged rather than thrown so a database problem
+   * does not change how the workflow itself handles the failed step.
+   */
+  async record(entry: {
+    workflow_id: string;
+    step: WorkflowStep;
+    input: Record<string, any>;
+    error: Error;
+    attempts: WorkflowStepAttempt[];
+    auth: NonNullable<AuthenticatedRequest['auth']>;
+  }): Promise<string | null> {
+    const id = uuidv4();
+
+    try {
+      await query(`
+        INSERT INTO dead_letter_tasks (id, workflow_id, step_id, agent_type, action, input, required_scopes, consent_id,
+                                       error, error_type, attempts, auth_context, status, created_at, updated_at)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, 'pending', NOW(), NOW())
+      `, [
+        id,
+        entry.workflow_id,
+        entry.step.id,
+        entry.step.agent_type,
+        entry.step.action,
+        JSON.stringify(entry.input || {}),
+        JSON.stringify(entry.step.required_scopes || []),
+        entry.step.delegation?.consent_id || null,
+        entry.error.message,
+        entry.error.name,
+        JSON.stringify(entry.attempts || []),
+        JSON.stringify(sanitizeAuthContext(entry.auth))
+      ]);
+    } catch (error) {
+      logger.error(`Failed to dead-letter step ${entry.step.id} of workflow ${entry.workflow_id}:`, error);
+      return null;
+    }
+
+    logAuditEvent({
+      actor: 'orchestrator_001',
+      action: 'agent_task.dead_letter',
+      resource: `workflow:${entry.workflow_id}`,
+      result: 'failure',
+      details: { dead_letter_id: id, step_id: entry.step.id, agent: `${entry.step.agent_type}.${entry.step.action}`, error: entry.error.message }
+    });
+
+    logger.warn(`Dead-lettered ${entry.step.agent_type}.${entry.step.action} from workflow ${entry.workflow_id}`, {
+      deadLetterId: id,
+      stepId: entry.step.id,
+      error: entry.error.message
+    });
+
+    return id;
+  }
+
+  async get(id: string): Promise<DeadLetterTask | null> {
+    const result = await query('SELECT * FROM dead_letter_tasks WHERE id = $1', [id]);
+    return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+  }
+
+  async list(filters: { status?: DeadLetterTask['status']; workflow_id?: string; agent_type?: string; limit?: number } = {}): Promise<DeadLetterTask[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+    (['status', 'workflow_id', 'agent_type'] as const).forEach(field => {
+      if (filters[field]) {
+        params.push(filters[field]);
+        conditions.push(`${field} = $${params.length}`);
+      }
+    });
+    params.push(Math.min(filters.limit || 50, 500));
+
+    const result = await query(`
+      SELECT * FROM dead_letter_tasks
+      ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY created_at DESC
+      LIMIT $${params.length}
+    `, params);
+
+    return result.rows.map((row: any) => this.mapRow(row));
+  }
+
+  /**
+   * Replace the input a task will be re-driven with, or discard the task
+   */
+  async update(id: string, changes: { input?: Record<string, any>; status?: 'discarded' }, userId: string): Promise<DeadLetterTask> {
+    const task = await this.requirePending(id);
+
+    await query(`
+      UPDATE dead_letter_tasks
+      SET input = $1, status = $2, edited_by = $3,
+          resolved_by = CASE WHEN $2 = 'discarded' THEN $3 ELSE resolved_by END,
+          resolved_at = CASE WHEN $2 = 'discarded' THEN NOW() ELSE resolved_at END,
+          updated_at = NOW()
+      WHERE id = $4
+    `, [JSON.stringify(changes.input ?? task.input), changes.status || task.status, userId, id]);
+
+    logAuditEvent({
+      actor: userId,
+      action: changes.status === 'discarded' ? 'agent_task.dead_letter.discard' : 'agent_task.dead_letter.edit',
+      resource: `workflow:${task.workflow_id}`,
+      result: 'success',
+      details: { dead_letter_id: id, step_id: task.step_id, input_changed: changes.input !== undefined }
+    });
+
+    return (await this.get(id))!;
+  }
+
+  /**
+   * Move a pending task to redriving. Only one re-drive of a task can run at a time.
+   */
+  async claim(id: string): Promise<DeadLetterTask> {
+    const claimed = await query(`
+      UPDATE dead_letter_tasks SET status = 'redriving', updated_at = NOW()
+      WHERE id = $1 AND status = 'pending'
+      RETURNING *
+    `, [id]);
+
+    if (claimed.rows.length === 0) {
+      await this.requirePending(id);
+      throw new CrisisAssistError(`Dead-letter task ${id} is already being re-driven`, 'DEAD_LETTER_NOT_PENDING', 409);
+    }
+
+    return this.mapRow(claimed.rows[0]);
+  }
+
+  /**
+   * Record the outcome of a re-drive. Success resolves the task; failure returns it to pending.
+   */
+  async recordRedrive(
+    task: DeadLetterTask,
+    attempt: { attempted_by: string; status: DeadLetterRedrive['status']; output?: any; error?: string; duration_ms: number }
+  ): Promise<DeadLetterRedrive> {
+    const redrive: DeadLetterRedrive = {
+      id: uuidv4(),
+      dead_letter_id: task.id,
+      workflow_id: task.workflow_id,
+      step_id: task.step_id,
+      attempted_by: attempt.attempted_by,
+      input: task.input,
+      status: attempt.status,
+      output: attempt.output,
+      error: attempt.error,
+      duration_ms: attempt.duration_ms,
+      attempted_at: new Date()
+    };
+
+    await query(`
+      INSERT INTO dead_letter_redrives (id, dead_letter_id, workflow_id, step_id, attempted_by, input, status, output, error, duration_ms, attempted_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, NOW())
+    `, [
+      redrive.id,
+      task.id,
+      task.workflow_id,
+      task.step_id,
+      attempt.attempted_by,
+      JSON.stringify(task.input),
+      attempt.status,
+      attempt.output === undefined ? null : JSON.stringify(attempt.output),
+      attempt.error || null,
+      attempt.duration_ms
+    ]);
+
+    const succeeded = attempt.status === 'succeeded';
+    await query(`
+      UPDATE dead_letter_tasks
+      SET status = $1, redrive_count = redrive_count + 1, last_error = $2,
+          resolved_by = $3, resolved_at = CASE WHEN $1 = 'resolved' THEN NOW() ELSE NULL END, updated_at = NOW()
+      WHERE id = $4
+    `, [succeeded ? 'resolved' : 'pending', succeeded ? task.last_error || null : attempt.error, succeeded ? attempt.attempted_by : null, task.id]);
+
+    return redrive;
+  }
+
+  async listRedrives(id: string): Promise<DeadLetterRedrive[]> {
+    const result = await query(`
+      SELECT * FROM dead_letter_redrives WHERE dead_letter_id = $1 ORDER BY attempted_at ASC
+    `, [id]);
+
+    return result.rows.map((row: any) => ({
+      id: row.id,
+      dead_letter_id: row.dead_letter_id,
+      workflow_id: row.workflow_id,
+      step_id: row.step_id,
+      attempted_by: row.attempted_by,
+      input: parse(row.input) || {},
+      status: row.status,
+      output: parse(row.output) || undefined,
+      error: row.error || undefined,
+      duration_ms: row.duration_ms,
+      attempted_at: row.attempted_at
+    }));
+  }
+
+  private async requirePending(id: string): Promise<DeadLetterTask> {
+    const task = await this.get(id);
+    if (!task) {
+      throw new NotFoundError(`Dead-letter task ${id} not found`);
+    }
+    if (task.status !== 'pending') {
+      throw new CrisisAssistError(`Dead-letter task ${id} is ${task.status}`, 'DEAD_LETTER_NOT_PENDING', 409);
+    }
+    return task;
+  }
+
+  private mapRow(row: any): DeadLetterTask {
+    return {
+      id: row.id,
+      workflow_id: row.workflow_id,
+      step_id: row.step_id,
+      agent_type: row.agent_type,
+      action: row.action,
+      input: parse(row.input) || {},
+      required_scopes: parse(row.required_scopes) || [],
+      consent_id: row.consent_id || undefined,
+      error: row.error,
+      error_type: row.error_type || undefined,
+      attempts: parse(row.attempts) || [],
+      auth_context: parse(row.auth_context) || {},
+      status: row.status,
+      redrive_count: row.redrive_count || 0,
+      last_error: row.last_error || undefined,
+      edited_by: row.edited_by || undefined,
+      resolved_by: row.resolved_by || undefined,
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+      resolved_at: row.resolved_at || undefined
+    };
+  }
+}
+
+// Export singleton instance
+export const deadLetterQueue = new DeadLetterQueue();
@@ -0,0 +1,335 @@
+import { PoolClient } from 'pg';
+import { v4 as uuidv4 } from 'uuid';
+import { query, transaction } from '../database/connection';
+import { logger, logAuditEvent } from '../utils/logger';
+import { Alert, CrisisAssistError, Incident, NotFoundError, ValidationError } from '../types';
+
+const SEVERITY_RANK: Record<Alert['severity'], number> = { low: 0, medium: 1, high: 2, critical: 3 };
+
+/**
+ * Lifecycle transitions an incident may make. Closed and merged incidents are final.
+ */
+export const INCIDENT_TRANSITIONS: Record<Incident['status'], Incident['status'][]> = {
+  open: ['monitoring', 'resolved'],
+  monitoring: ['open', 'resolved'],
+  resolved: ['open', 'closed'],
+  closed: [],
+  merged: []
+};
+
+const ACTIVE_STATUSES: Incident['status'][] = ['open', 'monitoring'];
+
+/**
+ * Groups related alerts, and the events and messages raised for them, into incidents
+ * with their own lifecycle, commander and summary.
+ */
+export class IncidentManager {
+  /**
+   * Create an incident, optionally moving existing alerts into it
+   */
+  async create(data: { title: string; summary?: string; commander_id?: string; alert_ids?: string[] }, userId: string): Promise<Incident> {
+    const incidentId = uuidv4();
+
+    await transaction(async client => {
+      await client.query(`
+        INSERT INTO incidents (id, title, summary, status, severity, commander_id, created_by, created_at, updated_at)
+        VALUES ($1, $2, $3, 'open', 'low', $4, $5, NOW(), NOW())
+      `, [incidentId, data.title, data.summary || null, data.commander_id || null, userId]);
+
+      if (data.alert_ids?.length) {
+        await this.moveAlerts(client, data.alert_ids, incidentId);
+      }
+    });
+
+    logAuditEvent({
+      actor: userId,
+      action: 'incident.create',
+      resource: `incident:${incidentId}`,
+      result: 'success',
+      details: { title: data.title, commander_id: data.commander_id, alert_ids: data.alert_ids || [] }
+    });
+
+    return (await this.get(incidentId))!;
+  }
+
+  async get(incidentId: string): Promise<Incident | null> {
+    const result = await query(`
+      SELECT i.id, i.title, i.summary, i.status, i.severity, i.commander_id, i.merged_into, i.created_by,
+             i.created_at, i.updated_at, i.resolved_at, i.closed_at,
+             COALESCE(json_agg(a.id ORDER BY a.created_at) FILTER (WHERE a.id IS NOT NULL), '[]') AS alert_ids
+      FROM incidents i
+      LEFT JOIN alerts a ON a.incident_id = i.id
+      WHERE i.id = $1
+      GROUP BY i.id
+    `, [incidentId]);
+
+    return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+  }
+
+  /**
+   * An incident with its alerts, events and messages
+   */
+  async getDetails(incidentId: string): Promise<{ incident: Incident; alerts: any[]; events: any[]; messages: any[] }> {
+    const incident = await this.get(incidentId);
+    if (!incident) {
+      throw new NotFoundError(`Incident ${incidentId} not found`);
+    }
+
+    const [alerts, events, messages] = await Promise.all([
+      query(`
+        SELECT id, type, severity, title, location_address, status, acknowledged_at, created_at
+        FROM alerts WHERE incident_id = $1 ORDER BY created_at ASC
+      `, [incidentId]),
+      query(`
+        SELECT id, alert_id, title, start_time, end_time, location, status
+        FROM events WHERE incident_id = $1 ORDER BY start_time ASC
+      `, [incidentId]),
+      query(`
+        SELECT id, alert_id, event_id, channel_type, recipient, subject, status, sent_at
+        FROM messages WHERE incident_id = $1 ORDER BY sent_at ASC
+      `, [incidentId])
+    ]);
+
+    return { incident, alerts: alerts.rows, events: events.rows, messages: messages.rows };
+  }
+
+  async list(filters: { status?: Incident['status']; limit?: number } = {}): Promise<Incident[]> {
+    const params: any[] = [];
+    let whereClause = '';
+    if (filters.status) {
+      params.push(filters.status);
+      whereClause = `WHERE i.status = $${params.length}`;
+    }
+    params.push(Math.min(filters.limit || 50, 500));
+
+    const result = await query(`
+      SELECT i.id, i.title, i.summary, i.status, i.severity, i.commander_id, i.merged_into, i.created_by,
+             i.created_at, i.updated_at, i.resolved_at, i.closed_at,
+             COALESCE(json_agg(a.id ORDER BY a.created_at) FILTER (WHERE a.id IS NOT NULL), '[]') AS alert_ids
+      FROM incidents i
+      LEFT JOIN alerts a ON a.incident_id = i.id
+      ${whereClause}
+      GROUP BY i.id
+      ORDER BY i.updated_at DESC
+      LIMIT $${params.length}
+    `, params);
+
+    return result.rows.map((row: any) => this.mapRow(row));
+  }
+
+  /**
+   * Update title, summary, commander or lifecycle status
+   */
+  async update(
+    incidentId: string,
+    changes: { title?: string; summary?: string; commander_id?: string; status?: Incident['status'] },
+    userId: string
+  ): Promise<Incident> {
+    const incident = await this.requireIncident(incidentId);
+
+    if (changes.status && changes.status !== incident.status && !INCIDENT_TRANSITIONS[incident.status].includes(changes.status)) {
+      throw new CrisisAssistError(
+        `Incident ${incidentId} cannot move from ${incident.status} to ${changes.status}`,
+        'INCIDENT_INVALID_TRANSITION',
+        409,
+        { allowed: INCIDENT_TRANSITIONS[incident.status] }
+      );
+    }
+
+    const status = changes.status || incident.status;
+    await query(`
+      UPDATE incidents
+      SET title = $1, summary = $2, commander_id = $3, status = $4,
+          resolved_at = CASE WHEN $4 = 'resolved' AND status <> 'resolved' THEN NOW() WHEN $4 = 'open' THEN NULL ELSE resolved_at END,
+          closed_at = CASE WHEN $4 = 'closed' THEN NOW() ELSE closed_at END,
+          updated_at = NOW()
+      WHERE id = $5
+    `, [
+      changes.title ?? incident.title,
+      changes.summary ?? incident.summary ?? null,
+      changes.commander_id ?? incident.commander_id ?? null,
+      status,
+      incidentId
+    ]);
+
+    logAuditEvent({
+      actor: userId,
+      action: changes.status && changes.status !== incident.status ? `incident.${status}` : 'incident.update',
+      resource: `incident:${incidentId}`,
+      result: 'success',
+      details: { changes, previous_status: incident.status, previous_commander: incident.commander_id }
+    });
+
+    return (await this.get(incidentId))!;
+  }
+
+  /**
+   * Move alerts (with their events and messages) into an incident. Alerts may come from
+   * another incident; whole incidents can be merged by passing their IDs.
+   */
+  async merge(incidentId: string, input: { alert_ids?: string[]; incident_ids?: string[] }, userId: string): Promise<Incident> {
+    const target = await this.requireActive(incidentId);
+    const sourceIncidents = (input.incident_ids || []).filter(id => id !== incidentId);
+
+    for (const sourceId of sourceIncidents) {
+      const source = await this.requireIncident(sourceId);
+      if (source.status === 'merged') {
+        throw new CrisisAssistError(`Incident ${sourceId} was already merged into ${source.merged_into}`, 'INCIDENT_ALREADY_MERGED', 409);
+      }
+    }
+
+    const affected = await transaction(async client => {
+      const moved = input.alert_ids?.length ? await this.moveAlerts(client, input.alert_ids, target.id) : [];
+
+      for (const sourceId of sourceIncidents) {
+        const sourceAlerts = await client.query('SELECT id FROM alerts WHERE incident_id = $1', [sourceId]);
+        await this.moveAlerts(client, sourceAlerts.rows.map((row: any) => row.id), target.id);
+        await client.query(`
+          UPDATE incidents SET status = 'merged', merged_into = $1, updated_at = NOW() WHERE id = $2
+        `, [target.id, sourceId]);
+      }
+
+      return moved;
+    });
+
+    logAuditEvent({
+      actor: userId,
+      action: 'incident.merge',
+      resource: `incident:${incidentId}`,
+      result: 'success',
+      details: { alert_ids: input.alert_ids || [], merged_incidents: sourceIncidents, previous_incidents: affected }
+    });
+
+    logger.info(`Merged into incident ${incidentId}`, { alerts: input.alert_ids?.length || 0, incidents: sourceIncidents.length });
+
+    return (await this.get(incidentId))!;
+  }
+
+  /**
+   * Split alerts out of an incident into a new incident, or just detach them
+   */
+  async split(
+    incidentId: string,
+    input: { alert_ids: string[]; create_incident?: boolean; title?: string; summary?: string; commander_id?: string },
+    userId: string
+  ): Promise<{ incident: Incident; new_incident: Incident | null }> {
+    const incident = await this.requireActive(incidentId);
+
+    const outsiders = input.alert_ids.filter(alertId => !incident.alert_ids.includes(alertId));
+    if (outsiders.length > 0) {
+      throw new ValidationError(`Alerts do not belong to incident ${incidentId}`, outsiders);
+    }
+    if (input.alert_ids.length >= incident.alert_ids.length) {
+      throw new ValidationError('At least one alert must remain in the incident; resolve or close it instead');
+    }
+
+    const createIncident = input.create_incident !== false;
+    const newIncidentId = createIncident ? uuidv4() : null;
+
+    await transaction(async client => {
+      if (newIncidentId) {
+        await client.query(`
+          INSERT INTO incidents (id, title, summary, status, severity, commander_id, created_by, created_at, updated_at)
+          VALUES ($1, $2, $3, 'open', 'low', $4, $5, NOW(), NOW())
+        `, [
+          newIncidentId,
+          input.title || `Split from ${incident.title}`,
+          input.summary || null,
+          input.commander_id || incident.commander_id || null,
+          userId
+        ]);
+      }
+      await this.moveAlerts(client, input.alert_ids, newIncidentId);
+    });
+
+    logAuditEvent({
+      actor: userId,
+      action: 'incident.split',
+      resource: `incident:${incidentId}`,
+      result: 'success',
+      details: { alert_ids: input.alert_ids, new_incident_id: newIncidentId }
+    });
+
+    return {
+      incident: (await this.get(incidentId))!,
+      new_incident: newIncidentId ? await this.get(newIncidentId) : null
+    };
+  }
+
+  /**
+   * Re-link alerts and their events and messages, then recompute severity for every incident touched.
+   * Returns the incidents the alerts previously belonged to.
+   */
+  private async moveAlerts(client: PoolClient, alertIds: string[], incidentId: string | null): Promise<string[]> {
+    if (alertIds.length === 0) {
+      return [];
+    }
+
+    const existing = await client.query('SELECT id, incident_id FROM alerts WHERE id = ANY($1)', [alertIds]);
+    const missing = alertIds.filter(alertId => !existing.rows.some((row: any) => row.id === alertId));
+    if (missing.length > 0) {
+      throw new NotFoundError(`Alerts not found: ${missing.join(', ')}`);
+    }
+
+    const previousIncidents: string[] = [...new Set<string>(
+      existing.rows.map((row: any) => row.incident_id).filter((id: string | null) => id && id !== incidentId)
+    )];
+
+    await client.query('UPDATE alerts SET incident_id = $1, updated_at = NOW() WHERE id = ANY($2)', [incidentId, alertIds]);
+    await client.query('UPDATE events SET incident_id = $1 WHERE alert_id = ANY($2)', [incidentId, alertIds]);
+    await client.query('UPDATE messages SET incident_id = $1 WHERE alert_id = ANY($2)', [incidentId, alertIds]);
+
+    for (const id of [...previousIncidents, ...(incidentId ? [incidentId] : [])]) {
+      await this.refreshSeverity(client, id);
+    }
+
+    return previousIncidents;
+  }
+
+  private async refreshSeverity(client: PoolClient, incidentId: string): Promise<void> {
+    const alerts = await client.query('SELECT severity FROM alerts WHERE incident_id = $1', [incidentId]);
+    const severity = alerts.rows
+      .map((row: any) => row.severity as Alert['severity'])
+      .reduce((highest: Alert['severity'], current: Alert['severity']) =>
+        (SEVERITY_RANK[current] > SEVERITY_RANK[highest] ? current : highest), 'low');
+
+    await client.query('UPDATE incidents SET severity = $1, updated_at = NOW() WHERE id = $2', [severity, incidentId]);
+  }
+
+  private async requireIncident(incidentId: string): Promise<Incident> {
+    const incident = await this.get(incidentId);
+    if (!incident) {
+      throw new NotFoundError(`Incident ${incidentId} not found`);
+    }
+    return incident;
+  }
+
+  private async requireActive(incidentId: string): Promise<Incident> {
+    const incident = await this.requireIncident(incidentId);
+    if (!ACTIVE_STATUSES.includes(incident.status)) {
+      throw new CrisisAssistError(`Incident ${incidentId} is ${incident.status}`, 'INCIDENT_NOT_ACTIVE', 409);
+    }
+    return incident;
+  }
+
+  private mapRow(row: any): Incident {
+    return {
+      id: row.id,
+      title: row.title,
+      summary: row.summary || undefined,
+      status: row.status,
+      severity: row.severity,
+      commander_id: row.commander_id || undefined,
+      merged_into: row.merged_into || undefined,
+      alert_ids: typeof row.alert_ids === 'string' ? JSON.parse(row.alert_ids) : row.alert_ids || [],
+      created_by: row.created_by,
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+      resolved_at: row.resolved_at || undefined,
+      closed_at: row.closed_at || undefined
+    };
+  }
+}
+
+// Export singleton instance
+export const incidentManager = new IncidentManager();
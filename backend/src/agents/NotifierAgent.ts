@@ -1,7 +1,7 @@
 import { v4 as uuidv4 } from 'uuid';
 import { query } from '../database/connection';
 import { logger, logAuditEvent, logExternalApiCall } from '../utils/logger';
-import { AuthenticatedRequest, ExternalServiceError } from '../types';
+import { AuthenticatedRequest, CancellationError, ExternalServiceError, ResponsePlaybook } from '../types';
 import { SlackService } from '../utils/slack';
 import { twilioService } from '../utils/twilio';
 import { genkitMultiAgentFramework } from '../utils/genkitAgentFramework';
@@ -57,18 +57,20 @@ export class NotifierAgent {
   /**
    * Send emergency notifications across multiple channels
    */
-  async sendEmergencyNotifications(data: any, auth: NonNullable<AuthenticatedRequest['auth']>): Promise<any> {
+  async sendEmergencyNotifications(data: any, auth: NonNullable<AuthenticatedRequest['auth']>, signal?: AbortSignal): Promise<any> {
     const notifications = [];
     
     for (const channel of data.channels || ['slack']) {
+      // Stop before the next channel if the workflow was cancelled
+      if (signal?.aborted) {
+        throw new CancellationError('Notification sending cancelled', { sent_channels: notifications.map(n => n.channel_type) });
+      }
+
       const request: NotificationRequest = {
         alert_id: data.alert_data?.id,
         channel_type: channel as any,
-        recipients: this.getDefaultRecipients(channel),
-        message: {
-          subject: `Emergency Alert: ${data.alert_data?.title || 'Crisis Response'}`,
-          content: this.formatEmergencyMessage(data)
-        },
+        recipients: this.getRecipients(channel, data.playbook),
+        message: this.buildEmergencyMessage(channel, data),
         priority: 'urgent'
       };
       
@@ -83,6 +85,77 @@ export class NotifierAgent {
     };
   }
 
+  /**
+   * Render the messages sendEmergencyNotifications would send, per channel, without sending
+   * or storing anything (plan mode). Uses template rendering; live sends may be AI-enhanced.
+   */
+  planEmergencyNotifications(data: any): Array<{ channel_type: string; recipients: string[]; subject?: string; content: string }> {
+    return (data.channels || ['slack']).map((channel: string) => {
+      const message = this.templateBasedEnhancement(this.buildEmergencyMessage(channel, data), { alert: data.alert_data });
+
+      return {
+        channel_type: channel,
+        recipients: this.getRecipients(channel, data.playbook),
+        subject: message.subject,
+        content: channel === 'sms' ? this.truncateForSMS(message.content) : message.content
+      };
+    });
+  }
+
+  /**
+   * Retract previously sent emergency notifications on every channel that delivered (workflow compensation)
+   */
+  async sendRetraction(data: any, auth: NonNullable<AuthenticatedRequest['auth']>): Promise<any> {
+    const retractions = [];
+    const deliveredChannels = (data.notifications || [])
+      .filter((notification: NotificationResult) => notification.sent_count > 0)
+      .map((notification: NotificationResult) => notification.channel_type);
+
+    for (const channel of deliveredChannels) {
+      const request: NotificationRequest = {
+        alert_id: data.alert_data?.id,
+        channel_type: channel as any,
+        recipients: this.getRecipients(channel, data.playbook),
+        message: {
+          subject: `Retraction: ${data.alert_data?.title || 'Emergency Alert'}`,
+          content: this.formatRetractionMessage(data)
+        },
+        priority: 'urgent'
+      };
+
+      retractions.push(await this.sendNotification(request, auth));
+    }
+
+    return {
+      notifications: retractions,
+      total_channels: deliveredChannels.length,
+      status: retractions.every(n => n.status === 'sent') ? 'sent' : 'partial'
+    };
+  }
+
+  /**
+   * Format retraction message content
+   */
+  private formatRetractionMessage(data: any): string {
+    const alert = data.alert_data;
+
+    return `⚠️ ALERT RETRACTION ⚠️
+
+The emergency alert for ${alert?.type || 'an incident'} at ${alert?.location_address || 'an unknown location'} has been withdrawn.
+Reason: ${data.reason || 'The emergency response workflow could not be completed'}
+
+Please disregard the previous message. Further updates will follow if needed.
+
+This is an automated message from CrisisAssist AI Emergency Response System.`;
+  }
+
+  /**
+   * Recipients for a channel: the response playbook's list when it names the channel, otherwise the defaults
+   */
+  private getRecipients(channel: string, playbook?: ResponsePlaybook): string[] {
+    return playbook?.recipients?.[channel] || this.getDefaultRecipients(channel);
+  }
+
   /**
    * Get default recipients for a channel
    */
@@ -95,6 +168,35 @@ export class NotifierAgent {
     return recipients[channel] || [];
   }
 
+  /**
+   * Emergency message for a channel, rendered from the playbook's template for that channel
+   * (or its "default" template) when there is one
+   */
+  private buildEmergencyMessage(channel: string, data: any): { subject?: string; content: string } {
+    const subject = `Emergency Alert: ${data.alert_data?.title || 'Crisis Response'}`;
+    const template = data.playbook?.message_templates?.[channel] || data.playbook?.message_templates?.default;
+
+    if (!template) {
+      return { subject, content: this.formatEmergencyMessage(data) };
+    }
+
+    const values = { alert: data.alert_data, analysis: data.analysis, verification: data.verification };
+    return {
+      subject: template.subject ? this.renderTemplate(template.subject, values) : subject,
+      content: this.renderTemplate(template.content, values)
+    };
+  }
+
+  /**
+   * Replace {{path.to.value}} placeholders; unknown paths render as "Unknown"
+   */
+  private renderTemplate(template: string, values: Record<string, any>): string {
+    return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_match, path: string) => {
+      const value = path.split('.').reduce((current: any, key) => (current === undefined || current === null ? undefined : current[key]), values);
+      return value === undefined || value === null ? 'Unknown' : String(value);
+    });
+  }
+
   /**
    * Format emergency message content
    */
@@ -587,8 +689,8 @@ This is an automated alert from CrisisAssist AI Emergency Response System.`;
   private async storeNotificationRecords(_messageId: string, request: NotificationRequest, deliveryResults: any[], _context: any): Promise<void> {
     for (const result of deliveryResults) {
       await query(`
-        INSERT INTO messages (id, event_id, alert_id, channel_type, channel_id, recipient, subject, content, message_id, status, sent_at)
-        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+        INSERT INTO messages (id, event_id, alert_id, incident_id, channel_type, channel_id, recipient, subject, content, message_id, status, sent_at)
+        VALUES ($1, $2, $3, (SELECT incident_id FROM alerts WHERE id = $3), $4, $5, $6, $7, $8, $9, $10, $11)
       `, [
         uuidv4(),
         request.event_id || null,
@@ -0,0 +1,356 @@
+import { query } from '../database/connection';
+import { logger, logAuditEvent } from '../utils/logger';
+import { Alert, CrisisAssistError, NotFoundError, ResponsePlaybook, WorkflowDefinition } from '../types';
+import { EMERGENCY_RESPONSE_WORKFLOW } from './WorkflowRegistry';
+
+const ALERT_TYPES: Alert['type'][] = ['flood', 'fire', 'earthquake', 'storm', 'medical', 'security'];
+const SEVERITIES: Alert['severity'][] = ['low', 'medium', 'high', 'critical'];
+const EVENT_TYPES: NonNullable<ResponsePlaybook['event_type']>[] = ['relief_camp', 'evacuation', 'medical_response', 'fire_suppression', 'search_rescue'];
+
+/**
+ * Example playbooks for the hazards we respond to most. They ship disabled because their
+ * recipients are placeholders: until operations staff save one under the same ID with their own
+ * channels and enable it, alerts run the built-in emergency workflow. Deleting the override
+ * restores the disabled example.
+ */
+export const BUILT_IN_PLAYBOOKS: ResponsePlaybook[] = [
+  {
+    id: 'flood_response',
+    name: 'Flood response',
+    description: 'Evacuation-led response for riverine and flash floods',
+    version: 1,
+    alert_types: ['flood'],
+    severities: [],
+    recipients: {
+      slack: ['#emergency-alerts', '#flood-response'],
+      sms: ['+1234567890'],
+      email: ['flood-desk@crisisassist.ai']
+    },
+    event_type: 'evacuation',
+    message_templates: {
+      sms: {
+        content: 'FLOOD {{alert.severity}}: {{alert.location_address}}. Move to higher ground now. Avoid flood water. Ref {{alert.id}}'
+      }
+    },
+    escalation_rules: [
+      { after_minutes: 10, channels: ['slack', 'sms'], recipients: { slack: ['#crisis-response'] } },
+      { after_minutes: 30, channels: ['slack', 'sms', 'email'], recipients: { email: ['district-collector@crisisassist.ai'] }, raise_severity_to: 'critical' }
+    ],
+    enabled: false
+  },
+  {
+    id: 'fire_response',
+    name: 'Fire response',
+    description: 'Suppression and perimeter evacuation for urban and wild fires',
+    version: 1,
+    alert_types: ['fire'],
+    severities: [],
+    recipients: {
+      slack: ['#emergency-alerts', '#fire-response'],
+      sms: ['+1234567890'],
+      email: ['fire-control@crisisassist.ai']
+    },
+    event_type: 'fire_suppression',
+    message_templates: {
+      sms: {
+        content: 'FIRE {{alert.severity}}: {{alert.location_address}}. Leave the area upwind and keep roads clear for crews. Ref {{alert.id}}'
+      }
+    },
+    escalation_rules: [
+      { after_minutes: 5, channels: ['slack', 'sms'], recipients: { slack: ['#crisis-response'] } },
+      { after_minutes: 15, channels: ['slack', 'sms', 'email'], raise_severity_to: 'critical' }
+    ],
+    enabled: false
+  },
+  {
+    id: 'earthquake_response',
+    name: 'Earthquake response',
+    description: 'Search and rescue with structural assessment after significant quakes',
+    version: 1,
+    alert_types: ['earthquake'],
+    severities: [],
+    recipients: {
+      slack: ['#emergency-alerts', '#search-rescue'],
+      sms: ['+1234567890'],
+      email: ['usar-command@crisisassist.ai']
+    },
+    event_type: 'search_rescue',
+    message_templates: {
+      sms: {
+        content: 'EARTHQUAKE {{alert.severity}} near {{alert.location_address}}. Expect aftershocks. Stay out of damaged buildings. Ref {{alert.id}}'
+      }
+    },
+    escalation_rules: [
+      { after_minutes: 10, channels: ['slack', 'sms', 'email'], recipients: { slack: ['#crisis-response'] } }
+    ],
+    enabled: false
+  },
+  {
+    id: 'medical_response',
+    name: 'Medical emergency response',
+    description: 'Medical teams and health authorities for outbreaks and mass-casualty incidents',
+    version: 1,
+    alert_types: ['medical'],
+    severities: [],
+    recipients: {
+      slack: ['#emergency-alerts', '#medical-response'],
+      email: ['health-authority@crisisassist.ai']
+    },
+    event_type: 'medical_response',
+    escalation_rules: [
+      { after_minutes: 15, channels: ['slack', 'email'], recipients: { email: ['chief-medical-officer@crisisassist.ai'] } }
+    ],
+    enabled: false
+  }
+];
+
+/**
+ * Validate a playbook's own fields. Its steps are validated as a workflow definition by the orchestrator.
+ */
+export function validatePlaybook(playbook: ResponsePlaybook): string[] {
+  const errors: string[] = [];
+
+  if (!playbook || typeof playbook !== 'object') {
+    return ['Playbook must be an object'];
+  }
+
+  if (typeof playbook.id !== 'string' || !/^[a-z0-9_\-]{3,100}$/.test(playbook.id)) {
+    errors.push('id must be 3-100 characters of lowercase letters, digits, "_" or "-"');
+  }
+  if (typeof playbook.name !== 'string' || playbook.name.trim().length === 0) {
+    errors.push('name is required');
+  }
+  if (!Array.isArray(playbook.alert_types) || playbook.alert_types.some(type => !ALERT_TYPES.includes(type))) {
+    errors.push(`alert_types must be an array of ${ALERT_TYPES.join(', ')}`);
+  }
+  if (!Array.isArray(playbook.severities) || playbook.severities.some(severity => !SEVERITIES.includes(severity))) {
+    errors.push(`severities must be an array of ${SEVERITIES.join(', ')}`);
+  }
+
+  if (!playbook.recipients || typeof playbook.recipients !== 'object' || Array.isArray(playbook.recipients)) {
+    errors.push('recipients must map channels to recipient lists');
+  } else {
+    Object.entries(playbook.recipients).forEach(([channel, recipients]) => {
+      if (!Array.isArray(recipients) || recipients.some(recipient => typeof recipient !== 'string')) {
+        errors.push(`recipients.${channel} must be an array of strings`);
+      }
+    });
+  }
+
+  if (playbook.event_type !== undefined && !EVENT_TYPES.includes(playbook.event_type)) {
+    errors.push(`event_type must be one of ${EVENT_TYPES.join(', ')}`);
+  }
+
+  Object.entries(playbook.message_templates || {}).forEach(([channel, template]) => {
+    if (!template || typeof template.content !== 'string' || template.content.trim().length === 0) {
+      errors.push(`message_templates.${channel}.content is required`);
+    }
+    if (template?.subject !== undefined && typeof template.subject !== 'string') {
+      errors.push(`message_templates.${channel}.subject must be a string`);
+    }
+  });
+
+  let previousMinutes = 0;
+  (playbook.escalation_rules || []).forEach((rule, index) => {
+    const label = `escalation_rules[${index}]`;
+    if (typeof rule.after_minutes !== 'number' || rule.after_minutes <= previousMinutes) {
+      errors.push(`${label}.after_minutes must be a number greater than the previous tier's`);
+    } else {
+      previousMinutes = rule.after_minutes;
+    }
+    if (!Array.isArray(rule.channels) || rule.channels.length === 0) {
+      errors.push(`${label}.channels must be a non-empty array`);
+    }
+    if (rule.raise_severity_to !== undefined && !SEVERITIES.includes(rule.raise_severity_to)) {
+      errors.push(`${label}.raise_severity_to must be one of ${SEVERITIES.join(', ')}`);
+    }
+  });
+
+  if (playbook.enabled !== undefined && typeof playbook.enabled !== 'boolean') {
+    errors.push('enabled must be a boolean');
+  }
+
+  return errors;
+}
+
+/**
+ * Workflow definition a playbook runs as. Executions record it as "playbook:<id>".
+ */
+export function playbookToWorkflowDefinition(playbook: ResponsePlaybook): WorkflowDefinition {
+  return {
+    id: `playbook:${playbook.id}`,
+    name: playbook.name,
+    description: playbook.description,
+    version: playbook.version,
+    steps: playbook.steps || EMERGENCY_RESPONSE_WORKFLOW.steps
+  };
+}
+
+/**
+ * Stores built-in and operator-maintained response playbooks and picks the one for an alert
+ */
+export class PlaybookRegistry {
+  /**
+   * Get a playbook, preferring a stored override over the built-in
+   */
+  async get(playbookId: string): Promise<ResponsePlaybook | null> {
+    const result = await query(`
+      SELECT id, name, description, version, alert_types, severities, steps, recipients, event_type,
+             message_templates, escalation_rules, enabled, created_by, created_at, updated_at
+      FROM response_playbooks
+      WHERE id = $1
+    `, [playbookId]);
+
+    if (result.rows.length > 0) {
+      return this.mapRow(result.rows[0]);
+    }
+
+    return BUILT_IN_PLAYBOOKS.find(playbook => playbook.id === playbookId) || null;
+  }
+
+  /**
+   * List stored playbooks and the built-ins they do not override
+   */
+  async list(): Promise<ResponsePlaybook[]> {
+    const result = await query(`
+      SELECT id, name, description, version, alert_types, severities, steps, recipients, event_type,
+             message_templates, escalation_rules, enabled, created_by, created_at, updated_at
+      FROM response_playbooks
+      ORDER BY name ASC
+    `);
+
+    const stored: ResponsePlaybook[] = result.rows.map((row: any) => this.mapRow(row));
+    const builtIns = BUILT_IN_PLAYBOOKS.filter(builtIn => !stored.some(playbook => playbook.id === builtIn.id));
+
+    return [...stored, ...builtIns];
+  }
+
+  /**
+   * Find the enabled playbook for an alert. A playbook naming both type and severity beats one naming
+   * only the type, which beats one naming only the severity; ties go to the narrower severity list.
+   */
+  async match(alertType: string, severity: string): Promise<ResponsePlaybook | null> {
+    const specificity = (playbook: ResponsePlaybook) =>
+      (playbook.alert_types.length > 0 ? 2 : 0) + (playbook.severities.length > 0 ? 1 : 0);
+
+    const candidates = (await this.list())
+      .filter(playbook => playbook.enabled)
+      .filter(playbook => playbook.alert_types.length === 0 || playbook.alert_types.includes(alertType as Alert['type']))
+      .filter(playbook => playbook.severities.length === 0 || playbook.severities.includes(severity as Alert['severity']))
+      .sort((a, b) =>
+        specificity(b) - specificity(a) ||
+        (a.severities.length || SEVERITIES.length) - (b.severities.length || SEVERITIES.length) ||
+        a.id.localeCompare(b.id)
+      );
+
+    return candidates[0] || null;
+  }
+
+  /**
+   * Persist a validated playbook, bumping its version if it already exists
+   */
+  async save(playbook: ResponsePlaybook, userId: string): Promise<ResponsePlaybook> {
+    const builtIn = BUILT_IN_PLAYBOOKS.find(candidate => candidate.id === playbook.id);
+
+    const result = await query(`
+      INSERT INTO response_playbooks (id, name, description, version, alert_types, severities, steps, recipients,
+                                      event_type, message_templates, escalation_rules, enabled, created_by)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+      ON CONFLICT (id) DO UPDATE SET
+        name = EXCLUDED.name,
+        description = EXCLUDED.description,
+        alert_types = EXCLUDED.alert_types,
+        severities = EXCLUDED.severities,
+        steps = EXCLUDED.steps,
+        recipients = EXCLUDED.recipients,
+        event_type = EXCLUDED.event_type,
+        message_templates = EXCLUDED.message_templates,
+        escalation_rules = EXCLUDED.escalation_rules,
+        enabled = EXCLUDED.enabled,
+        version = response_playbooks.version + 1,
+        updated_at = NOW()
+      RETURNING id, name, description, version, alert_types, severities, steps, recipients, event_type,
+                message_templates, escalation_rules, enabled, created_by, created_at, updated_at
+    `, [
+      playbook.id,
+      playbook.name,
+      playbook.description || null,
+      (builtIn?.version || 0) + 1,
+      JSON.stringify(playbook.alert_types),
+      JSON.stringify(playbook.severities),
+      playbook.steps ? JSON.stringify(playbook.steps) : null,
+      JSON.stringify(playbook.recipients),
+      playbook.event_type || null,
+      JSON.stringify(playbook.message_templates || {}),
+      JSON.stringify(playbook.escalation_rules || []),
+      playbook.enabled !== false,
+      userId
+    ]);
+
+    const saved = result.rows[0] ? this.mapRow(result.rows[0]) : { ...playbook, version: (builtIn?.version || 0) + 1 };
+
+    logAuditEvent({
+      actor: userId,
+      action: 'playbook.save',
+      resource: `playbook:${saved.id}`,
+      result: 'success',
+      details: { version: saved.version, alert_types: saved.alert_types, severities: saved.severities, overrides_built_in: !!builtIn }
+    });
+
+    logger.info(`Response playbook saved: ${saved.id}`, { version: saved.version, userId });
+
+    return saved;
+  }
+
+  /**
+   * Delete a stored playbook. Deleting an override of a built-in restores the disabled built-in example.
+   */
+  async remove(playbookId: string, userId: string): Promise<{ restored_built_in: boolean }> {
+    const result = await query(`
+      DELETE FROM response_playbooks WHERE id = $1 RETURNING id
+    `, [playbookId]);
+
+    const builtIn = BUILT_IN_PLAYBOOKS.some(playbook => playbook.id === playbookId);
+    if (result.rows.length === 0) {
+      if (builtIn) {
+        throw new CrisisAssistError(`Playbook ${playbookId} is built in; disable it instead`, 'PLAYBOOK_BUILT_IN', 409);
+      }
+      throw new NotFoundError(`Playbook ${playbookId} not found`);
+    }
+
+    logAuditEvent({
+      actor: userId,
+      action: 'playbook.delete',
+      resource: `playbook:${playbookId}`,
+      result: 'success',
+      details: { restored_built_in: builtIn }
+    });
+
+    return { restored_built_in: builtIn };
+  }
+
+  private mapRow(row: any): ResponsePlaybook {
+    const parse = (value: any) => (typeof value === 'string' ? JSON.parse(value) : value);
+
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description || undefined,
+      version: row.version,
+      alert_types: parse(row.alert_types) || [],
+      severities: parse(row.severities) || [],
+      steps: parse(row.steps) || undefined,
+      recipients: parse(row.recipients) || {},
+      event_type: row.event_type || undefined,
+      message_templates: parse(row.message_templates) || {},
+      escalation_rules: parse(row.escalation_rules) || [],
+      enabled: row.enabled,
+      created_by: row.created_by || undefined,
+      created_at: row.created_at,
+      updated_at: row.updated_at
+    };
+  }
+}
+
+// Export singleton instance
+export const playbookRegistry = new PlaybookRegistry();
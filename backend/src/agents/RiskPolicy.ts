@@ -0,0 +1,136 @@
+import { RiskDecision, RiskPolicyConfig, RiskPolicyRule } from '../types';
+
+/**
+ * Channels that reach only responders and operators, never the public
+ */
+export const DEFAULT_INTERNAL_CHANNELS = ['slack'];
+
+/**
+ * Built-in thresholds. Critical alerts lean towards getting word out to responders quickly,
+ * so an unverified critical alert is restricted to internal channels rather than held for review.
+ */
+export const DEFAULT_RISK_POLICY: RiskPolicyConfig = {
+  rules: [
+    {
+      severities: ['critical'],
+      block_above: 0.9,
+      manual_review_above: 0.7,
+      internal_only_above: 0.5,
+      when_unverified: 'internal_only'
+    },
+    {
+      block_above: 0.8,
+      manual_review_above: 0.6,
+      internal_only_above: 0.4,
+      when_unverified: 'manual_review'
+    }
+  ],
+  internal_channels: DEFAULT_INTERNAL_CHANNELS,
+  review_default_outcome: 'rejected'
+};
+
+const DECISION_RANK: Record<RiskDecision['decision'], number> = {
+  allow: 0,
+  internal_only: 1,
+  manual_review: 2,
+  block: 3
+};
+
+/**
+ * Find the first rule matching the alert's type and severity
+ */
+export function matchRiskRule(policy: RiskPolicyConfig, alertType: string, severity: string): RiskPolicyRule | undefined {
+  return policy.rules.find(rule =>
+    (!rule.alert_types || rule.alert_types.includes(alertType)) &&
+    (!rule.severities || rule.severities.includes(severity))
+  );
+}
+
+/**
+ * Decide how a verified (or unverified) alert may be broadcast. The strictest applicable outcome wins.
+ */
+export function evaluateRiskPolicy(
+  policy: RiskPolicyConfig,
+  alert: { type: string; severity: string },
+  verification: { verified: boolean; verification_data?: { risk_score?: number } },
+  requestedChannels: string[]
+): RiskDecision {
+  const rule = matchRiskRule(policy, alert.type, alert.severity) || {};
+  const riskScore = verification.verification_data?.risk_score ?? 1;
+  const internalChannels = policy.internal_channels || DEFAULT_INTERNAL_CHANNELS;
+  const reasons: string[] = [];
+  let decision: RiskDecision['decision'] = 'allow';
+
+  const escalate = (candidate: RiskDecision['decision'], reason: string) => {
+    reasons.push(reason);
+    if (DECISION_RANK[candidate] > DECISION_RANK[decision]) {
+      decision = candidate;
+    }
+  };
+
+  if (!verification.verified) {
+    escalate(rule.when_unverified || 'manual_review', 'content was not verified');
+  }
+  if (rule.block_above !== undefined && riskScore > rule.block_above) {
+    escalate('block', `risk score ${riskScore} above block threshold ${rule.block_above}`);
+  } else if (rule.manual_review_above !== undefined && riskScore > rule.manual_review_above) {
+    escalate('manual_review', `risk score ${riskScore} above manual review threshold ${rule.manual_review_above}`);
+  } else if (rule.internal_only_above !== undefined && riskScore > rule.internal_only_above) {
+    escalate('internal_only', `risk score ${riskScore} above internal-only threshold ${rule.internal_only_above}`);
+  }
+
+  return {
+    decision,
+    reasons,
+    risk_score: riskScore,
+    verified: verification.verified,
+    alert_type: alert.type,
+    severity: alert.severity,
+    rule_applied: rule,
+    requested_channels: requestedChannels,
+    allowed_channels: allowedChannelsFor(decision, requestedChannels, internalChannels),
+    broadcast_allowed: decision === 'allow' || decision === 'internal_only'
+  };
+}
+
+/**
+ * Channels a decision permits. Manual review and block hold every channel until a reviewer decides.
+ */
+export function allowedChannelsFor(decision: RiskDecision['decision'], requestedChannels: string[], internalChannels: string[]): string[] {
+  switch (decision) {
+    case 'allow':
+      return requestedChannels;
+    case 'internal_only':
+      return requestedChannels.filter(channel => internalChannels.includes(channel));
+    default:
+      return [];
+  }
+}
+
+/**
+ * Validate a risk policy configuration
+ */
+export function validateRiskPolicy(policy: RiskPolicyConfig, label: string): string[] {
+  const errors: string[] = [];
+
+  if (!Array.isArray(policy.rules) || policy.rules.length === 0) {
+    return [`${label}: risk_policy.rules must be a non-empty array`];
+  }
+
+  policy.rules.forEach((rule, index) => {
+    for (const field of ['block_above', 'manual_review_above', 'internal_only_above'] as const) {
+      if (rule[field] !== undefined && (typeof rule[field] !== 'number' || rule[field]! < 0 || rule[field]! > 1)) {
+        errors.push(`${label}: risk_policy.rules[${index}].${field} must be between 0 and 1`);
+      }
+    }
+    if (rule.when_unverified !== undefined && !['allow', 'internal_only', 'manual_review', 'block'].includes(rule.when_unverified)) {
+      errors.push(`${label}: risk_policy.rules[${index}].when_unverified must be allow, internal_only, manual_review or block`);
+    }
+  });
+
+  if (policy.review_default_outcome !== undefined && !['approved', 'rejected'].includes(policy.review_default_outcome)) {
+    errors.push(`${label}: risk_policy.review_default_outcome must be approved or rejected`);
+  }
+
+  return errors;
+}
@@ -1,8 +1,8 @@
 import { v4 as uuidv4 } from 'uuid';
 import { query } from '../database/connection';
 import { logger, logAuditEvent, logExternalApiCall } from '../utils/logger';
-import { AuthenticatedRequest, NotFoundError, ExternalServiceError } from '../types';
-import { GoogleCalendarService } from '../utils/googleCalendar';
+import { AuthenticatedRequest, NotFoundError, ExternalServiceError, PopulationExposure } from '../types';
+import { GoogleCalendarService, GoogleCalendarEvent } from '../utils/googleCalendar';
 
 export interface SchedulingRequest {
   alert_id: string;
@@ -11,6 +11,7 @@ export interface SchedulingRequest {
   duration_hours: number;
   resources: string[];
   assignees: string[];
+  population_exposure?: PopulationExposure; // From the alert analysis when a population grid is loaded
 }
 
 export interface SchedulingResult {
@@ -59,16 +60,54 @@ export class SchedulerAgent {
    * 📅 REAL WORK: Schedule relief operations with real resource allocation
    */
   async scheduleRelief(data: any, auth: NonNullable<AuthenticatedRequest['auth']>): Promise<SchedulingResult> {
-    const request: SchedulingRequest = {
+    return this.scheduleEvent(this.buildReliefRequest(data), auth);
+  }
+
+  /**
+   * Describe the event scheduleRelief would create, without writing it or calling Google Calendar (plan mode)
+   */
+  planRelief(data: any): Omit<SchedulingResult, 'event_id' | 'status' | 'external_integrations'> & {
+    event_type: SchedulingRequest['event_type'];
+    priority: SchedulingRequest['priority'];
+    calendar_event: GoogleCalendarEvent;
+  } {
+    const request = this.buildReliefRequest(data);
+    const alert = data.alert_data || {};
+    const eventDetails = this.generateEventDetails(alert, request);
+    const startDateTime = this.calculateStartTime(request.priority);
+    const endDateTime = new Date(startDateTime.getTime() + (request.duration_hours * 60 * 60 * 1000));
+
+    return {
+      event_type: request.event_type,
+      priority: request.priority,
+      title: eventDetails.title,
+      description: eventDetails.description,
+      start_time: startDateTime.toISOString(),
+      end_time: endDateTime.toISOString(),
+      location: alert.location_address,
+      assignees: request.assignees,
+      resources: request.resources,
+      calendar_event: {
+        summary: eventDetails.title,
+        description: eventDetails.description,
+        start: { dateTime: startDateTime.toISOString(), timeZone: 'Asia/Kolkata' },
+        end: { dateTime: endDateTime.toISOString(), timeZone: 'Asia/Kolkata' },
+        location: alert.location_address,
+        attendees: request.assignees.map(email => ({ email, displayName: email }))
+      }
+    };
+  }
+
+  private buildReliefRequest(data: any): SchedulingRequest {
+    return {
       alert_id: data.alert_id,
-      event_type: this.determineEventType(data.alert_data?.type, data.analysis?.risk_level),
+      event_type: data.playbook?.event_type || this.determineEventType(data.alert_data?.type, data.analysis?.risk_level),
       priority: data.analysis?.risk_level || data.urgency || 'medium',
       duration_hours: this.calculateOptimalDuration(data.alert_data?.type, data.analysis?.risk_level),
       resources: this.optimizeResourceAllocation(data.analysis?.required_resources || [], data.alert_data?.type),
-      assignees: this.assignOptimalPersonnel(data.alert_data?.type, data.analysis?.risk_level)
+      assignees: this.assignOptimalPersonnel(data.alert_data?.type, data.analysis?.risk_level),
+      population_exposure: data.analysis?.population_exposure
     };
-    
-    return this.scheduleEvent(request, auth);
   }
 
   /**
@@ -204,8 +243,8 @@ export class SchedulerAgent {
 
       // Create event in database
       await query(`
-        INSERT INTO events (id, alert_id, title, description, start_time, end_time, location, assignees, resources, status)
-        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+        INSERT INTO events (id, alert_id, incident_id, title, description, start_time, end_time, location, assignees, resources, status)
+        VALUES ($1, $2, (SELECT incident_id FROM alerts WHERE id = $2), $3, $4, $5, $6, $7, $8, $9, $10)
       `, [
         eventId,
         request.alert_id,
@@ -368,7 +407,7 @@ Response Details:
 - Duration: ${request.duration_hours} hours
 - Required Resources: ${request.resources.join(', ')}
 - Assigned Personnel: ${request.assignees.join(', ')}
-
+${this.describePopulationExposure(request.population_exposure)}
 This event was automatically scheduled by CrisisAssist Emergency Response System.
 For updates and coordination, please refer to the CrisisAssist dashboard.
     `.trim();
@@ -376,6 +415,29 @@ For updates and coordination, please refer to the CrisisAssist dashboard.
     return { title, description };
   }
 
+  /**
+   * Exposed population section for the event description, to size camps and pick their sites
+   */
+  private describePopulationExposure(exposure?: PopulationExposure): string {
+    if (!exposure) {
+      return '';
+    }
+
+    const rings = exposure.rings
+      .map(ring => `  - ${ring.from_km}${ring.to_km !== undefined ? `-${ring.to_km}` : '+'} km: ${ring.population.toLocaleString('en-IN')}`);
+    const cells = exposure.densest_cells
+      .map(cell => `  - ${cell.lat}, ${cell.lng}: ${cell.population.toLocaleString('en-IN')}`);
+
+    return `
+Exposed Population (${exposure.dataset}${exposure.coverage < 1 ? `, grid covers ${Math.round(exposure.coverage * 100)}% of the area` : ''}):
+- Total: ${exposure.total.toLocaleString('en-IN')}${exposure.radius_m ? ` within ${exposure.radius_m / 1000} km` : ''}
+- By distance from the alert location:
+${rings.join('\n')}
+- Most densely populated cells:
+${cells.join('\n')}
+`;
+  }
+
   /**
    * Calculate start time based on priority
    */
@@ -418,6 +480,49 @@ For updates and coordination, please refer to the CrisisAssist dashboard.
     }
   }
 
+  /**
+   * Cancel a scheduled event and remove its calendar entry (workflow compensation)
+   */
+  async cancelScheduledEvent(data: any, auth: NonNullable<AuthenticatedRequest['auth']>): Promise<any> {
+    await this.updateEventStatus(data.event_id, 'cancelled', auth);
+
+    let calendarDeleted = false;
+    if (data.calendar_event_id) {
+      const startTime = Date.now();
+      try {
+        await this.googleCalendar.deleteEvent(data.calendar_event_id);
+        calendarDeleted = true;
+      } finally {
+        logExternalApiCall({
+          service: 'google_calendar',
+          endpoint: `/calendar/v3/events/${data.calendar_event_id}`,
+          method: 'DELETE',
+          statusCode: calendarDeleted ? 204 : 500,
+          duration: Date.now() - startTime,
+          success: calendarDeleted
+        });
+      }
+    }
+
+    logAuditEvent({
+      actor: this.agentId,
+      action: 'event.cancel',
+      resource: `event:${data.event_id}`,
+      result: 'success',
+      details: {
+        reason: data.reason,
+        calendar_event_id: data.calendar_event_id,
+        calendar_deleted: calendarDeleted
+      }
+    });
+
+    return {
+      event_id: data.event_id,
+      status: 'cancelled',
+      calendar_deleted: calendarDeleted
+    };
+  }
+
   /**
    * Get scheduled events for an alert
    */
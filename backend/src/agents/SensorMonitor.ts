@@ -0,0 +1,525 @@
+import crypto from 'crypto';
+import { query } from '../database/connection';
+import { logger, logAuditEvent } from '../utils/logger';
+import { AGENT_SCOPES, generateAgentAccessToken, validateAgentToken } from '../utils/descope-real';
+import {
+  Alert,
+  AuthenticatedRequest,
+  AuthenticationError,
+  CrisisAssistError,
+  NotFoundError,
+  Sensor,
+  SensorReading,
+  SensorRule,
+  ValidationError
+} from '../types';
+import { AlertAgent } from './AlertAgent';
+
+export interface FiredSensorRule {
+  rule_id: string;
+  kind: SensorRule['kind'];
+  metric: string;
+  severity: Alert['severity'];
+  description: string;
+  observed: number; // The value, rate per minute or count that fired the rule
+  recorded_at: Date;
+}
+
+export interface SensorIngestResult {
+  sensor_id: string;
+  accepted: number;
+  fired: FiredSensorRule[];
+  alert?: { alert_id: string; status: 'created' | 'suppressed' };
+}
+
+const SENSOR_ID_PATTERN = /^[A-Za-z0-9_\-:.]{3,100}$/;
+const METRIC_PATTERN = /^[a-z][a-z0-9_]{0,63}$/;
+const OPERATORS: Record<NonNullable<SensorRule['operator']>, (a: number, b: number) => boolean> = {
+  '>': (a, b) => a > b,
+  '>=': (a, b) => a >= b,
+  '<': (a, b) => a < b,
+  '<=': (a, b) => a <= b
+};
+const SEVERITY_RANK: Record<Alert['severity'], number> = { low: 0, medium: 1, high: 2, critical: 3 };
+const MAX_BATCH = 500;
+const MAX_WINDOW_MINUTES = 24 * 60;
+// Readings stamped further ahead than this are rejected as clock errors
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+const parse = (value: any) => (typeof value === 'string' ? JSON.parse(value) : value);
+
+function hashKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Problems with a sensor's rules; an empty list means they are valid
+ */
+export function validateSensorRules(rules: any): string[] {
+  if (!Array.isArray(rules)) {
+    return ['rules must be an array'];
+  }
+
+  const errors: string[] = [];
+  const ids = new Set<string>();
+  rules.forEach((rule: any, index: number) => {
+    const label = `rules[${index}]`;
+    if (!rule || typeof rule !== 'object') {
+      errors.push(`${label} must be an object`);
+      return;
+    }
+    if (typeof rule.id !== 'string' || !rule.id) {
+      errors.push(`${label}.id is required`);
+    } else if (ids.has(rule.id)) {
+      errors.push(`${label}.id ${rule.id} is used twice`);
+    }
+    ids.add(rule.id);
+    if (typeof rule.metric !== 'string' || !METRIC_PATTERN.test(rule.metric)) {
+      errors.push(`${label}.metric must be a lowercase metric name`);
+    }
+    if (rule.severity !== undefined && SEVERITY_RANK[rule.severity as Alert['severity']] === undefined) {
+      errors.push(`${label}.severity must be low, medium, high or critical`);
+    }
+
+    const positive = (field: string, max?: number) => {
+      if (typeof rule[field] !== 'number' || !(rule[field] > 0) || (max !== undefined && rule[field] > max)) {
+        errors.push(`${label}.${field} must be a positive number${max !== undefined ? ` up to ${max}` : ''}`);
+      }
+    };
+    const comparison = () => {
+      if (!OPERATORS[rule.operator as keyof typeof OPERATORS]) {
+        errors.push(`${label}.operator must be one of ${Object.keys(OPERATORS).join(' ')}`);
+      }
+      if (typeof rule.value !== 'number' || !Number.isFinite(rule.value)) {
+        errors.push(`${label}.value must be a number`);
+      }
+    };
+
+    switch (rule.kind) {
+      case 'threshold':
+        comparison();
+        break;
+      case 'rate_of_change':
+        positive('change_per_minute');
+        positive('window_minutes', MAX_WINDOW_MINUTES);
+        if (rule.direction !== undefined && !['rise', 'fall', 'any'].includes(rule.direction)) {
+          errors.push(`${label}.direction must be rise, fall or any`);
+        }
+        break;
+      case 'count_in_window':
+        comparison();
+        positive('window_minutes', MAX_WINDOW_MINUTES);
+        if (!Number.isInteger(rule.count) || rule.count < 1) {
+          errors.push(`${label}.count must be a positive integer`);
+        }
+        break;
+      default:
+        errors.push(`${label}.kind must be threshold, rate_of_change or count_in_window`);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Registered telemetry sensors. Sensors push batches of readings with their API key; each
+ * batch is stored and the sensor's rules are evaluated against it and its recent history.
+ * When rules fire the AlertAgent raises one alert for the sensor, and further alerts from
+ * that sensor are suppressed until the alert is resolved or cancelled.
+ */
+export class SensorMonitor {
+  private readonly agentId = 'agent_sensor_monitor_001';
+  private alertAgent: AlertAgent;
+  // Batches from one sensor are evaluated one at a time so they cannot both raise an alert
+  private sensorLocks: Map<string, Promise<unknown>> = new Map();
+
+  constructor() {
+    this.alertAgent = new AlertAgent();
+  }
+
+  /**
+   * Register a sensor. The API key is returned only here; just its hash is stored.
+   */
+  async register(
+    input: { id: string; name: string; alert_type: string; location: Sensor['location']; rules?: SensorRule[] },
+    userId: string
+  ): Promise<{ sensor: Sensor; api_key: string }> {
+    if (!SENSOR_ID_PATTERN.test(input.id || '')) {
+      throw new ValidationError('Sensor id must be 3-100 characters of letters, digits, "_", "-", ":" or "."');
+    }
+    this.assertValidRules(input.rules || []);
+
+    const apiKey = crypto.randomBytes(24).toString('base64url');
+    const result = await query(`
+      INSERT INTO sensors (id, name, alert_type, location_address, location_lat, location_lng, rules, api_key_hash, status, created_by, created_at, updated_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, 'active', $9, NOW(), NOW())
+      ON CONFLICT (id) DO NOTHING
+      RETURNING *
+    `, [
+      input.id,
+      input.name,
+      input.alert_type,
+      input.location.address,
+      input.location.lat,
+      input.location.lng,
+      JSON.stringify(input.rules || []),
+      hashKey(apiKey),
+      userId
+    ]);
+
+    if (result.rows.length === 0) {
+      throw new CrisisAssistError(`Sensor ${input.id} is already registered`, 'SENSOR_ALREADY_REGISTERED', 409);
+    }
+
+    logAuditEvent({
+      actor: userId,
+      action: 'sensor.register',
+      resource: `sensor:${input.id}`,
+      result: 'success',
+      details: { alert_type: input.alert_type, rules: (input.rules || []).map(rule => rule.id) }
+    });
+
+    return { sensor: this.mapRow(result.rows[0]), api_key: apiKey };
+  }
+
+  async get(id: string): Promise<Sensor | null> {
+    const result = await query('SELECT * FROM sensors WHERE id = $1', [id]);
+    return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+  }
+
+  async list(filters: { status?: Sensor['status']; alert_type?: string } = {}): Promise<Sensor[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+    (['status', 'alert_type'] as const).forEach(field => {
+      if (filters[field]) {
+        params.push(filters[field]);
+        conditions.push(`${field} = $${params.length}`);
+      }
+    });
+
+    const result = await query(`
+      SELECT * FROM sensors
+      ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY id
+    `, params);
+
+    return result.rows.map((row: any) => this.mapRow(row));
+  }
+
+  /**
+   * Change a sensor's name, location, rules or status
+   */
+  async update(
+    id: string,
+    changes: Partial<Pick<Sensor, 'name' | 'alert_type' | 'location' | 'rules' | 'status'>>,
+    userId: string
+  ): Promise<Sensor> {
+    const sensor = await this.get(id);
+    if (!sensor) {
+      throw new NotFoundError(`Sensor ${id} not found`);
+    }
+    if (changes.rules) {
+      this.assertValidRules(changes.rules);
+    }
+
+    const location = changes.location || sensor.location;
+    await query(`
+      UPDATE sensors
+      SET name = $1, alert_type = $2, location_address = $3, location_lat = $4, location_lng = $5, rules = $6, status = $7, updated_at = NOW()
+      WHERE id = $8
+    `, [
+      changes.name ?? sensor.name,
+      changes.alert_type ?? sensor.alert_type,
+      location.address,
+      location.lat,
+      location.lng,
+      JSON.stringify(changes.rules ?? sensor.rules),
+      changes.status ?? sensor.status,
+      id
+    ]);
+
+    logAuditEvent({
+      actor: userId,
+      action: 'sensor.update',
+      resource: `sensor:${id}`,
+      result: 'success',
+      details: { changed: Object.keys(changes).filter(key => (changes as any)[key] !== undefined) }
+    });
+
+    return (await this.get(id))!;
+  }
+
+  async rotateKey(id: string, userId: string): Promise<{ sensor_id: string; api_key: string }> {
+    const apiKey = crypto.randomBytes(24).toString('base64url');
+    const result = await query('UPDATE sensors SET api_key_hash = $1, updated_at = NOW() WHERE id = $2 RETURNING id', [hashKey(apiKey), id]);
+    if (result.rows.length === 0) {
+      throw new NotFoundError(`Sensor ${id} not found`);
+    }
+
+    logAuditEvent({ actor: userId, action: 'sensor.rotate_key', resource: `sensor:${id}`, result: 'success' });
+    return { sensor_id: id, api_key: apiKey };
+  }
+
+  /**
+   * The sensor a request is from, if its API key matches and it is active
+   */
+  async authenticate(id: string, apiKey: string | undefined): Promise<Sensor> {
+    const result = apiKey ? await query('SELECT * FROM sensors WHERE id = $1', [id]) : { rows: [] as any[] };
+    const row = result.rows[0];
+    const expected = Buffer.from(row?.api_key_hash || '', 'hex');
+    const provided = Buffer.from(hashKey(apiKey || ''), 'hex');
+
+    if (!row || expected.length !== provided.length || !crypto.timingSafeEqual(expected, provided)) {
+      throw new AuthenticationError('Invalid sensor id or key');
+    }
+    if (row.status !== 'active') {
+      throw new CrisisAssistError(`Sensor ${id} is disabled`, 'SENSOR_DISABLED', 403);
+    }
+    return this.mapRow(row);
+  }
+
+  /**
+   * Store a batch of readings and evaluate the sensor's rules against it
+   */
+  async ingest(sensor: Sensor, readings: SensorReading[]): Promise<SensorIngestResult> {
+    const rows = this.validateReadings(readings);
+
+    const previous = this.sensorLocks.get(sensor.id) || Promise.resolve();
+    const run = previous.catch(() => undefined).then(() => this.processBatch(sensor, rows));
+    this.sensorLocks.set(sensor.id, run);
+    try {
+      return await run;
+    } finally {
+      if (this.sensorLocks.get(sensor.id) === run) {
+        this.sensorLocks.delete(sensor.id);
+      }
+    }
+  }
+
+  async recentReadings(id: string, limit: number = 100): Promise<Array<{ metric: string; value: number; recorded_at: Date }>> {
+    const result = await query(`
+      SELECT metric, value, recorded_at FROM sensor_readings
+      WHERE sensor_id = $1
+      ORDER BY recorded_at DESC
+      LIMIT $2
+    `, [id, Math.min(limit, 1000)]);
+
+    return result.rows.map((row: any) => ({ metric: row.metric, value: parseFloat(row.value), recorded_at: row.recorded_at }));
+  }
+
+  private async processBatch(authenticated: Sensor, rows: Array<{ metric: string; value: number; recorded_at: Date }>): Promise<SensorIngestResult> {
+    // Re-read under the lock: an earlier batch may have raised an alert or the rules may have changed
+    const sensor = (await this.get(authenticated.id)) || authenticated;
+
+    await query(`
+      INSERT INTO sensor_readings (sensor_id, metric, value, recorded_at)
+      SELECT $1, metric, value, recorded_at FROM unnest($2::text[], $3::double precision[], $4::timestamptz[]) AS r(metric, value, recorded_at)
+    `, [sensor.id, rows.map(row => row.metric), rows.map(row => row.value), rows.map(row => row.recorded_at)]);
+    await query('UPDATE sensors SET last_reading_at = GREATEST(COALESCE(last_reading_at, $1), $1) WHERE id = $2', [
+      new Date(Math.max(...rows.map(row => row.recorded_at.getTime()))),
+      sensor.id
+    ]);
+
+    const fired: FiredSensorRule[] = [];
+    for (const rule of sensor.rules.filter(candidate => rows.some(row => row.metric === candidate.metric))) {
+      const result = await this.evaluateRule(sensor.id, rule, rows.filter(row => row.metric === rule.metric));
+      if (result) {
+        fired.push(result);
+      }
+    }
+
+    const ingestResult: SensorIngestResult = { sensor_id: sensor.id, accepted: rows.length, fired };
+    if (fired.length > 0) {
+      ingestResult.alert = await this.raiseAlert(sensor, fired, rows);
+    }
+    return ingestResult;
+  }
+
+  private async evaluateRule(sensorId: string, rule: SensorRule, batch: Array<{ value: number; recorded_at: Date }>): Promise<FiredSensorRule | null> {
+    const latest = batch.reduce((a, b) => (b.recorded_at >= a.recorded_at ? b : a));
+    const fire = (observed: number, recordedAt: Date, description: string): FiredSensorRule => ({
+      rule_id: rule.id,
+      kind: rule.kind,
+      metric: rule.metric,
+      severity: rule.severity || 'high',
+      description: rule.description || description,
+      observed: Math.round(observed * 1000) / 1000,
+      recorded_at: recordedAt
+    });
+
+    if (rule.kind === 'threshold') {
+      const matches = batch.filter(reading => OPERATORS[rule.operator!](reading.value, rule.value!));
+      if (matches.length === 0) {
+        return null;
+      }
+      const last = matches.reduce((a, b) => (b.recorded_at >= a.recorded_at ? b : a));
+      return fire(last.value, last.recorded_at, `${rule.metric} ${last.value} ${rule.operator} ${rule.value}`);
+    }
+
+    // Windowed rules look back from the newest reading in the batch, across earlier batches too
+    const history = await query(`
+      SELECT value, recorded_at FROM sensor_readings
+      WHERE sensor_id = $1 AND metric = $2 AND recorded_at > $3 AND recorded_at <= $4
+      ORDER BY recorded_at ASC
+    `, [sensorId, rule.metric, new Date(latest.recorded_at.getTime() - rule.window_minutes! * 60000), latest.recorded_at]);
+    const window = history.rows.map((row: any) => ({ value: parseFloat(row.value), recorded_at: new Date(row.recorded_at) }));
+
+    if (rule.kind === 'count_in_window') {
+      const count = window.filter((reading: { value: number }) => OPERATORS[rule.operator!](reading.value, rule.value!)).length;
+      return count >= rule.count!
+        ? fire(count, latest.recorded_at, `${count} ${rule.metric} readings ${rule.operator} ${rule.value} within ${rule.window_minutes} min`)
+        : null;
+    }
+
+    // rate_of_change: oldest to newest reading in the window
+    if (window.length < 2) {
+      return null;
+    }
+    const first = window[0];
+    const last = window[window.length - 1];
+    const minutes = (last.recorded_at.getTime() - first.recorded_at.getTime()) / 60000;
+    if (minutes <= 0) {
+      return null;
+    }
+    const rate = (last.value - first.value) / minutes;
+    const direction = rule.direction || 'rise';
+    const exceeded = direction === 'rise' ? rate >= rule.change_per_minute!
+      : direction === 'fall' ? -rate >= rule.change_per_minute!
+      : Math.abs(rate) >= rule.change_per_minute!;
+
+    return exceeded
+      ? fire(rate, last.recorded_at, `${rule.metric} changing ${rate.toFixed(2)}/min (limit ${rule.change_per_minute}/min)`)
+      : null;
+  }
+
+  /**
+   * Raise an alert for the fired rules unless the sensor's previous alert is still open
+   */
+  private async raiseAlert(
+    sensor: Sensor,
+    fired: FiredSensorRule[],
+    rows: Array<{ metric: string; value: number; recorded_at: Date }>
+  ): Promise<{ alert_id: string; status: 'created' | 'suppressed' }> {
+    if (sensor.open_alert_id) {
+      const open = await query(`SELECT status FROM alerts WHERE id = $1 AND status IN ('active', 'processing')`, [sensor.open_alert_id]);
+      if (open.rows.length > 0) {
+        await query('UPDATE sensors SET suppressed_count = suppressed_count + 1, updated_at = NOW() WHERE id = $1', [sensor.id]);
+        logger.info(`Sensor ${sensor.id} rules fired while alert ${sensor.open_alert_id} is open; suppressed`, {
+          rules: fired.map(rule => rule.rule_id)
+        });
+        return { alert_id: sensor.open_alert_id, status: 'suppressed' };
+      }
+    }
+
+    const severity = fired.reduce<Alert['severity']>((highest, rule) =>
+      SEVERITY_RANK[rule.severity] > SEVERITY_RANK[highest] ? rule.severity : highest, 'low');
+    // Latest value of every metric in the batch, e.g. { temperature: 450, smoke_density: 0.9 }
+    const latestValues: Record<string, number> = {};
+    [...rows].sort((a, b) => a.recorded_at.getTime() - b.recorded_at.getTime()).forEach(row => {
+      latestValues[row.metric] = row.value;
+    });
+
+    const { alert_id } = await this.alertAgent.detectAndCreateAlert({
+      source: 'sensor',
+      type: sensor.alert_type,
+      severity,
+      title: `${sensor.name}: ${fired.map(rule => rule.description).join('; ')}`.slice(0, 500),
+      description: `Sensor ${sensor.id} at ${sensor.location.address} triggered ${fired.length} rule(s): ` +
+        fired.map(rule => `${rule.rule_id} (${rule.description})`).join(', '),
+      location: { ...sensor.location },
+      metadata: { sensor_id: sensor.id, rules_fired: fired, ...latestValues }
+    }, await this.createAlertAuth());
+
+    await query('UPDATE sensors SET open_alert_id = $1, last_alert_at = NOW(), updated_at = NOW() WHERE id = $2', [alert_id, sensor.id]);
+
+    logAuditEvent({
+      actor: this.agentId,
+      action: 'sensor.alert',
+      resource: `sensor:${sensor.id}`,
+      result: 'success',
+      details: { alert_id, severity, rules: fired.map(rule => rule.rule_id) }
+    });
+
+    return { alert_id, status: 'created' };
+  }
+
+  private validateReadings(readings: SensorReading[]): Array<{ metric: string; value: number; recorded_at: Date }> {
+    if (!Array.isArray(readings) || readings.length === 0) {
+      throw new ValidationError('readings must be a non-empty array');
+    }
+
+    const errors: string[] = [];
+    const rows: Array<{ metric: string; value: number; recorded_at: Date }> = [];
+    const receivedAt = new Date();
+
+    readings.forEach((reading, index) => {
+      const recordedAt = reading?.recorded_at ? new Date(reading.recorded_at) : receivedAt;
+      if (isNaN(recordedAt.getTime()) || recordedAt.getTime() - receivedAt.getTime() > MAX_CLOCK_SKEW_MS) {
+        errors.push(`readings[${index}].recorded_at must be a date-time that is not in the future`);
+      }
+      if (!reading?.values || typeof reading.values !== 'object' || Object.keys(reading.values).length === 0) {
+        errors.push(`readings[${index}].values must map metric names to numbers`);
+        return;
+      }
+      Object.entries(reading.values).forEach(([metric, value]) => {
+        if (!METRIC_PATTERN.test(metric) || typeof value !== 'number' || !Number.isFinite(value)) {
+          errors.push(`readings[${index}].values.${metric} must be a number under a lowercase metric name`);
+        } else {
+          rows.push({ metric, value, recorded_at: recordedAt });
+        }
+      });
+    });
+
+    if (rows.length > MAX_BATCH) {
+      errors.push(`A batch may hold at most ${MAX_BATCH} values`);
+    }
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid sensor readings', errors.slice(0, 20));
+    }
+    return rows;
+  }
+
+  private assertValidRules(rules: SensorRule[]) {
+    const errors = validateSensorRules(rules);
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid sensor rules', errors);
+    }
+  }
+
+  private async createAlertAuth(): Promise<NonNullable<AuthenticatedRequest['auth']>> {
+    const scopes = AGENT_SCOPES.ALERT_AGENT;
+    const token = await generateAgentAccessToken(this.agentId, scopes, 600);
+    const validation = await validateAgentToken(token);
+
+    if (!validation.valid || !validation.claims) {
+      throw new Error(`Sensor monitor token validation failed: ${validation.error}`);
+    }
+
+    return { claims: validation.claims, token, scopes, agentId: this.agentId };
+  }
+
+  private mapRow(row: any): Sensor {
+    return {
+      id: row.id,
+      name: row.name,
+      alert_type: row.alert_type,
+      location: {
+        address: row.location_address,
+        lat: parseFloat(row.location_lat),
+        lng: parseFloat(row.location_lng)
+      },
+      rules: parse(row.rules) || [],
+      status: row.status,
+      open_alert_id: row.open_alert_id || undefined,
+      suppressed_count: row.suppressed_count || 0,
+      last_reading_at: row.last_reading_at || undefined,
+      last_alert_at: row.last_alert_at || undefined,
+      created_by: row.created_by || undefined,
+      created_at: row.created_at,
+      updated_at: row.updated_at
+    };
+  }
+}
+
+// Export singleton instance
+export const sensorMonitor = new SensorMonitor();
@@ -5,6 +5,9 @@ import { logger, logAuditEvent } from '../utils/logger';
 import { AuthenticatedRequest, VerificationResult } from '../types';
 import { genkitMultiAgentFramework } from '../utils/genkitAgentFramework';
 
+// Geocoding confidence below which an alert's location fails validation
+const LOW_LOCATION_CONFIDENCE = 0.5;
+
 export interface VerificationRequest {
   content_type: 'message' | 'document' | 'alert' | 'event';
   content: any;
@@ -41,6 +44,29 @@ export class VerifierAgent {
     this.privateKey = process.env.VERIFIER_PRIVATE_KEY || this.generatePrivateKey();
   }
 
+  /**
+   * Run the verification checks without signing or storing a result (plan mode)
+   */
+  async previewVerification(request: VerificationRequest): Promise<Omit<VerificationResponse, 'signature'>> {
+    const verificationChecks = await this.applyVerificationRules(request.content_type, request.content, request.verification_rules);
+    const riskScore = this.calculateRiskScore(verificationChecks);
+
+    return {
+      verification_id: 'dry_run',
+      verified: verificationChecks.every(check => check.passed) && riskScore < 0.7,
+      verifier_id: this.agentId,
+      verification_data: {
+        content_hash: this.generateContentHash(request.content),
+        timestamp: new Date(),
+        rules_applied: request.verification_rules,
+        risk_score: riskScore,
+        checks_performed: verificationChecks
+      },
+      errors: verificationChecks.filter(check => !check.passed).map(check => check.details || `Failed: ${check.rule}`),
+      recommendations: this.generateRecommendations(request.content_type, verificationChecks, riskScore)
+    };
+  }
+
   /**
    * Verify content and generate signed verification result
    */
@@ -696,6 +722,17 @@ export class VerifierAgent {
         details: 'Location information too vague'
       };
     }
+
+    // Coordinates that geocoding was unsure of, or the placeholder used when it found nothing
+    if (typeof content.location_confidence === 'number' && content.location_confidence < LOW_LOCATION_CONFIDENCE) {
+      return {
+        rule: 'location_validation',
+        passed: false,
+        details: content.location_source === 'default'
+          ? 'Location could not be geocoded; coordinates are a placeholder'
+          : `Location geocoded with low confidence (${content.location_confidence})`
+      };
+    }
     
     return {
       rule: 'location_validation',
@@ -0,0 +1,154 @@
+import { query } from '../database/connection';
+import { logger } from '../utils/logger';
+import { WorkflowDefinition, WorkflowExecution, WorkflowStepExecution } from '../types';
+
+/**
+ * Persists workflow execution state in workflow_executions so runs survive restarts
+ */
+export class WorkflowExecutionStore {
+  /**
+   * Create the execution record before any step runs. A run that waited in the work queue
+   * already has a `queued` record, which is taken over when it starts.
+   */
+  async create(execution: {
+    id: string;
+    definition: WorkflowDefinition;
+    user_id: string;
+    alert_id: string;
+    request_data: Record<string, any>;
+    steps: WorkflowStepExecution[];
+    status?: 'queued' | 'running';
+  }): Promise<void> {
+    await query(`
+      INSERT INTO workflow_executions (id, user_id, workflow_type, definition_version, alert_id,
+                                       request_data, result_data, status, current_step, steps, created_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, NOW())
+      ON CONFLICT (id) DO UPDATE SET
+        workflow_type = EXCLUDED.workflow_type,
+        definition_version = EXCLUDED.definition_version,
+        request_data = EXCLUDED.request_data,
+        status = EXCLUDED.status,
+        steps = EXCLUDED.steps,
+        updated_at = NOW()
+      WHERE workflow_executions.status = 'queued'
+    `, [
+      execution.id,
+      execution.user_id,
+      execution.definition.id,
+      execution.definition.version,
+      execution.alert_id,
+      JSON.stringify(execution.request_data),
+      JSON.stringify({}),
+      execution.status || 'running',
+      0,
+      JSON.stringify(execution.steps)
+    ]);
+  }
+
+  /**
+   * Persist step progress. Failures are logged rather than thrown so a database
+   * blip does not abort an emergency workflow that is already under way.
+   */
+  async saveSteps(id: string, steps: WorkflowStepExecution[]): Promise<void> {
+    const currentStep = steps.filter(step => step.status !== 'pending').length;
+
+    try {
+      await query(`
+        UPDATE workflow_executions
+        SET steps = $1, current_step = $2, updated_at = NOW()
+        WHERE id = $3
+      `, [JSON.stringify(steps), currentStep, id]);
+    } catch (error) {
+      logger.warn(`Failed to persist step progress for workflow ${id}:`, error);
+    }
+  }
+
+  /**
+   * Update the status of an execution that is still under way (e.g. paused or resumed)
+   */
+  async updateStatus(id: string, status: WorkflowExecution['status']): Promise<void> {
+    await query(`
+      UPDATE workflow_executions
+      SET status = $1, updated_at = NOW()
+      WHERE id = $2
+    `, [status, id]);
+  }
+
+  /**
+   * Record the final status and result of an execution
+   */
+  async finish(id: string, update: {
+    status: WorkflowExecution['status'];
+    steps: WorkflowStepExecution[];
+    result_data?: Record<string, any>;
+    execution_time?: number;
+    error?: string;
+  }): Promise<void> {
+    await query(`
+      UPDATE workflow_executions
+      SET status = $1, steps = $2, result_data = $3, execution_time = $4, error = $5, updated_at = NOW()
+      WHERE id = $6
+    `, [
+      update.status,
+      JSON.stringify(update.steps),
+      JSON.stringify(update.result_data || {}),
+      update.execution_time ?? null,
+      update.error || null,
+      id
+    ]);
+  }
+
+  /**
+   * Get an execution by ID
+   */
+  async get(id: string): Promise<WorkflowExecution | null> {
+    const result = await query(`
+      SELECT id, user_id, workflow_type, definition_version, alert_id, request_data, result_data,
+             status, current_step, steps, error, execution_time, created_at, updated_at
+      FROM workflow_executions
+      WHERE id = $1
+    `, [id]);
+
+    return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+  }
+
+  /**
+   * List executions in a given status, oldest first
+   */
+  async listByStatus(status: WorkflowExecution['status']): Promise<WorkflowExecution[]> {
+    const result = await query(`
+      SELECT id, user_id, workflow_type, definition_version, alert_id, request_data, result_data,
+             status, current_step, steps, error, execution_time, created_at, updated_at
+      FROM workflow_executions
+      WHERE status = $1
+      ORDER BY created_at ASC
+    `, [status]);
+
+    return result.rows.map((row: any) => this.mapRow(row));
+  }
+
+  private mapRow(row: any): WorkflowExecution {
+    const parse = (value: any) => (typeof value === 'string' ? JSON.parse(value) : value);
+
+    return {
+      id: row.id,
+      workflow_id: row.id,
+      definition_id: row.workflow_type,
+      definition_version: row.definition_version || 1,
+      user_id: row.user_id,
+      alert_id: row.alert_id,
+      status: row.status,
+      current_step: row.current_step || 0,
+      steps: parse(row.steps) || [],
+      request_data: parse(row.request_data) || {},
+      result_data: parse(row.result_data) || {},
+      error: row.error || undefined,
+      execution_time: row.execution_time ?? undefined,
+      created_at: row.created_at,
+      updated_at: row.updated_at
+    };
+  }
+}
+
+// Export singleton instance
+export const workflowExecutionStore = new WorkflowExecutionStore();
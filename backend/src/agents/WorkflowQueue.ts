@@ -0,0 +1,260 @@
+import { logger } from '../utils/logger';
+import { Alert, CancellationError } from '../types';
+
+const SEVERITY_PRIORITY: Record<Alert['severity'], number> = { low: 0, medium: 1, high: 2, critical: 3 };
+
+// Completed waits kept for the average/max figures in the status report
+const WAIT_SAMPLE_SIZE = 200;
+
+interface QueuedJob {
+  id: string;
+  severity: Alert['severity'];
+  enqueued_at: number;
+  run?: () => Promise<any>; // Absent when a suspended run is waiting to get its slot back
+  resolve: (value: any) => void;
+  reject: (error: Error) => void;
+}
+
+interface SuspendedRun {
+  severity: Alert['severity'];
+  started_at: number;
+  holds: number; // Suspends not yet matched by a resume
+  queued: boolean; // Waiting in the queue for its slot back
+  waiters: Array<{ resolve: () => void; reject: (error: Error) => void }>; // Resumes parked until the slot is back
+  cancelled?: CancellationError;
+}
+
+export interface WorkflowQueueOptions {
+  concurrency: number;
+  aging_ms: number; // Waiting this long raises a job one severity level
+}
+
+export interface WorkflowQueueStats {
+  concurrency: number;
+  running: number;
+  suspended: number; // Started runs waiting on a person (approval, review or pause) without a slot
+  depth: number;
+  depth_by_severity: Record<Alert['severity'], number>;
+  oldest_wait_ms: number;
+  recent_wait_ms: { average: number; max: number; samples: number };
+  recent_wait_ms_by_severity: Record<Alert['severity'], { average: number; max: number; samples: number }>;
+  processed: number;
+}
+
+/**
+ * Bounded-concurrency work queue for workflow runs. The most severe waiting run starts first;
+ * runs of equal priority start in arrival order. A run's priority rises one severity level for
+ * every `aging_ms` it has waited, so a steady stream of critical alerts cannot starve low ones.
+ *
+ * A started run that is waiting on a person gives its slot up (`suspend`) and queues for it
+ * again at its own severity when it carries on (`resume`).
+ */
+export class WorkflowQueue {
+  private waiting: QueuedJob[] = [];
+  private running = new Map<string, { severity: Alert['severity']; started_at: number }>();
+  private suspended = new Map<string, SuspendedRun>();
+  private waits: Array<{ severity: Alert['severity']; wait_ms: number }> = [];
+  private processed = 0;
+
+  constructor(private options: WorkflowQueueOptions) {}
+
+  /**
+   * Run `run` once a slot is free. Resolves with its result and the time spent waiting.
+   */
+  enqueue<T>(id: string, severity: string, run: () => Promise<T>): Promise<{ result: T; wait_ms: number }> {
+    const level: Alert['severity'] = severity in SEVERITY_PRIORITY ? severity as Alert['severity'] : 'medium';
+
+    return new Promise((resolve, reject) => {
+      const enqueuedAt = Date.now();
+      this.waiting.push({
+        id,
+        severity: level,
+        enqueued_at: enqueuedAt,
+        run: async () => {
+          // Read at start: a run that ends while suspended (e.g. cancelled) no longer holds a slot
+          const waitMs = this.running.get(id)!.started_at - enqueuedAt;
+          return { result: await run(), wait_ms: waitMs };
+        },
+        resolve,
+        reject
+      });
+
+      if (this.running.size >= this.options.concurrency) {
+        logger.info(`Workflow ${id} queued`, { severity: level, depth: this.waiting.length, running: this.running.size });
+      }
+      this.drain();
+    });
+  }
+
+  isQueued(id: string): boolean {
+    return this.waiting.some(job => job.id === id && job.run);
+  }
+
+  /**
+   * Release a running run's slot while it waits. Calls nest; the slot is taken back once every
+   * suspend has been matched by a resume. Runs not started by this queue are ignored.
+   */
+  suspend(id: string): void {
+    const suspended = this.suspended.get(id);
+    if (suspended) {
+      suspended.holds++;
+      return;
+    }
+
+    const running = this.running.get(id);
+    if (!running) {
+      return;
+    }
+    this.running.delete(id);
+    this.suspended.set(id, { ...running, holds: 1, queued: false, waiters: [] });
+    this.drain();
+  }
+
+  /**
+   * Match a `suspend`. Every resume resolves only once the run holds a slot again, so no branch
+   * of a run carries on without one. The slot is queued for when the last suspend is matched, at
+   * the run's severity with aging counted from now so time spent suspended does not let it jump
+   * ahead of critical runs. Rejects with a CancellationError once the run has been cancelled.
+   */
+  resume(id: string): Promise<void> {
+    const suspended = this.suspended.get(id);
+    if (!suspended) {
+      return Promise.resolve();
+    }
+    if (suspended.cancelled) {
+      suspended.holds = Math.max(0, suspended.holds - 1);
+      return Promise.reject(suspended.cancelled);
+    }
+
+    return new Promise((resolve, reject) => {
+      suspended.waiters.push({ resolve, reject });
+      if (--suspended.holds === 0 && !suspended.queued) {
+        suspended.queued = true;
+        // The run's resumes are parked on its suspended entry; drain settles them, not the job
+        this.waiting.push({ id, severity: suspended.severity, enqueued_at: Date.now(), resolve: () => {}, reject: () => {} });
+        this.drain();
+      }
+    });
+  }
+
+  /**
+   * Drop a run that has not started yet; its caller sees a CancellationError. A started run that
+   * is suspended is not dropped, but its pending and later resumes reject so it stops waiting
+   * for a slot. Returns true only when a run that had not started was dropped.
+   */
+  remove(id: string, reason: string): boolean {
+    const index = this.waiting.findIndex(job => job.id === id && job.run);
+    if (index !== -1) {
+      const [job] = this.waiting.splice(index, 1);
+      job.reject(new CancellationError(`Workflow ${id} was cancelled before it started: ${reason}`, { reason }));
+      return true;
+    }
+
+    const suspended = this.suspended.get(id);
+    if (suspended && !suspended.cancelled) {
+      suspended.cancelled = new CancellationError(`Workflow ${id} was cancelled: ${reason}`, { reason });
+      this.waiting = this.waiting.filter(job => job.id !== id);
+      suspended.queued = false;
+      suspended.waiters.splice(0).forEach(waiter => waiter.reject(suspended.cancelled!));
+    }
+    return false;
+  }
+
+  stats(): WorkflowQueueStats {
+    const now = Date.now();
+    const depthBySeverity = { low: 0, medium: 0, high: 0, critical: 0 };
+    this.waiting.forEach(job => depthBySeverity[job.severity]++);
+
+    const summarize = (samples: number[]) => ({
+      average: samples.length ? Math.round(samples.reduce((sum, wait) => sum + wait, 0) / samples.length) : 0,
+      max: samples.length ? Math.max(...samples) : 0,
+      samples: samples.length
+    });
+    const bySeverity = {} as WorkflowQueueStats['recent_wait_ms_by_severity'];
+    (Object.keys(SEVERITY_PRIORITY) as Alert['severity'][]).forEach(severity => {
+      bySeverity[severity] = summarize(this.waits.filter(sample => sample.severity === severity).map(sample => sample.wait_ms));
+    });
+
+    return {
+      concurrency: this.options.concurrency,
+      running: this.running.size,
+      suspended: this.suspended.size,
+      depth: this.waiting.length,
+      depth_by_severity: depthBySeverity,
+      oldest_wait_ms: this.waiting.length ? now - Math.min(...this.waiting.map(job => job.enqueued_at)) : 0,
+      recent_wait_ms: summarize(this.waits.map(sample => sample.wait_ms)),
+      recent_wait_ms_by_severity: bySeverity,
+      processed: this.processed
+    };
+  }
+
+  private effectivePriority(job: QueuedJob, now: number): number {
+    const aged = this.options.aging_ms > 0 ? Math.floor((now - job.enqueued_at) / this.options.aging_ms) : 0;
+    return SEVERITY_PRIORITY[job.severity] + aged;
+  }
+
+  private next(): QueuedJob | undefined {
+    const now = Date.now();
+    let bestIndex = -1;
+    let bestPriority = -Infinity;
+
+    // Waiting is in arrival order, so strict > keeps FIFO among equal priorities
+    this.waiting.forEach((job, index) => {
+      const priority = this.effectivePriority(job, now);
+      if (priority > bestPriority) {
+        bestPriority = priority;
+        bestIndex = index;
+      }
+    });
+
+    return bestIndex === -1 ? undefined : this.waiting.splice(bestIndex, 1)[0];
+  }
+
+  private drain(): void {
+    while (this.running.size < this.options.concurrency) {
+      const job = this.next();
+      if (!job) {
+        return;
+      }
+
+      if (!job.run) {
+        // Suspended again while waiting here (another branch of the run): its resumes stay parked
+        // and the slot is queued for again when that suspend is matched
+        const suspended = this.suspended.get(job.id);
+        if (!suspended) {
+          continue;
+        }
+        suspended.queued = false;
+        if (suspended.holds > 0) {
+          continue;
+        }
+        this.suspended.delete(job.id);
+        this.running.set(job.id, { severity: suspended.severity, started_at: suspended.started_at });
+        suspended.waiters.forEach(waiter => waiter.resolve());
+        continue;
+      }
+
+      const startedAt = Date.now();
+      this.running.set(job.id, { severity: job.severity, started_at: startedAt });
+      this.waits.push({ severity: job.severity, wait_ms: startedAt - job.enqueued_at });
+      if (this.waits.length > WAIT_SAMPLE_SIZE) {
+        this.waits.shift();
+      }
+
+      job.run()
+        .then(job.resolve, job.reject)
+        .finally(() => {
+          this.running.delete(job.id);
+          this.suspended.delete(job.id);
+          this.processed++;
+          this.drain();
+        });
+    }
+  }
+}
+
+// Export singleton instance
+export const workflowQueue = new WorkflowQueue({
+  concurrency: Math.max(1, parseInt(process.env.WORKFLOW_QUEUE_CONCURRENCY || '4', 10)),
+  aging_ms: parseInt(process.env.WORKFLOW_QUEUE_AGING_SECONDS || '60', 10) * 1000
+});
@@ -0,0 +1,487 @@
+import { query } from '../database/connection';
+import { logger, logAuditEvent } from '../utils/logger';
+import { CrisisAssistError, ValidationError, WorkflowDefinition, WorkflowStep } from '../types';
+import { validateRiskPolicy } from './RiskPolicy';
+
+/**
+ * Built-in emergency response workflow: alert -> verify -> schedule / (risk gate -> notify).
+ * Scheduling and the notification branch only depend on verification, so they run in parallel.
+ */
+export const EMERGENCY_RESPONSE_WORKFLOW: WorkflowDefinition = {
+  id: 'emergency_response',
+  name: 'Emergency Response',
+  description: 'Processes an alert, verifies it and coordinates relief scheduling and notifications',
+  version: 3,
+  steps: [
+    {
+      id: 'alert_processing',
+      name: 'Alert processing',
+      agent_type: 'alert_agent',
+      action: 'processAlert',
+      required_scopes: ['alert.read', 'alert.process'],
+      idempotent: true,
+      retry: { max_attempts: 3, initial_delay_ms: 500, max_delay_ms: 4000 },
+      input: { alertId: '$.alert.id' },
+      input_schema: {
+        type: 'object',
+        required: ['alertId'],
+        properties: { alertId: { type: 'string' } }
+      },
+      output_schema: {
+        type: 'object',
+        required: ['alert_id', 'analysis', 'next_steps']
+      },
+      timeout_ms: 30000
+    },
+    {
+      id: 'content_verification',
+      name: 'Content verification',
+      agent_type: 'verifier_agent',
+      action: 'verifyContent',
+      required_scopes: ['document.verify', 'content.validate'],
+      idempotent: true,
+      retry: { max_attempts: 3, initial_delay_ms: 500, max_delay_ms: 4000 },
+      depends_on: ['alert_processing'],
+      input: {
+        content_type: 'alert',
+        content: '$.alert',
+        verification_rules: ['source_verification', 'urgency_validation', 'location_validation']
+      },
+      input_schema: {
+        type: 'object',
+        required: ['content_type', 'content'],
+        properties: { content_type: { type: 'string' }, verification_rules: { type: 'array' } }
+      },
+      output_schema: {
+        type: 'object',
+        required: ['verification_id', 'verified', 'verification_data']
+      },
+      timeout_ms: 30000
+    },
+    {
+      id: 'scheduling',
+      name: 'Relief scheduling',
+      agent_type: 'scheduler_agent',
+      action: 'scheduleRelief',
+      required_scopes: ['calendar.write', 'event.create'],
+      depends_on: ['alert_processing', 'content_verification'],
+      condition: '$.steps.alert_processing.next_steps.schedule_relief',
+      delegation: { consent_id: 'emergency_response_consent' },
+      // A timed-out calendar or messaging call may still have gone through, so only explicit failures are retried
+      retry: { max_attempts: 3, initial_delay_ms: 1000, max_delay_ms: 8000, retryable_errors: ['ExternalServiceError'] },
+      compensation: {
+        agent_type: 'scheduler_agent',
+        action: 'cancelScheduledEvent',
+        required_scopes: ['calendar.write', 'event.update'],
+        input: {
+          event_id: '$.output.event_id',
+          calendar_event_id: '$.output.calendar_event_id',
+          reason: '$.reason'
+        }
+      },
+      input: {
+        alert_id: '$.alert.id',
+        alert_data: '$.alert',
+        analysis: '$.steps.alert_processing.analysis',
+        urgency: '$.steps.alert_processing.analysis.risk_level',
+        playbook: '$.playbook'
+      },
+      input_schema: {
+        type: 'object',
+        required: ['alert_id'],
+        properties: { alert_id: { type: 'string' } }
+      },
+      output_schema: {
+        type: 'object',
+        required: ['event_id', 'status']
+      },
+      timeout_ms: 45000
+    },
+    {
+      id: 'risk_assessment',
+      name: 'Broadcast risk assessment',
+      type: 'risk_gate',
+      agent_type: 'orchestrator',
+      action: 'evaluateRiskPolicy',
+      required_scopes: [],
+      depends_on: ['alert_processing', 'content_verification'],
+      condition: '$.steps.alert_processing.next_steps.notify_authorities',
+      input: {
+        verification: '$.steps.content_verification',
+        channels: ['slack', 'sms', 'email']
+      },
+      input_schema: {},
+      output_schema: {},
+      timeout_ms: 900000 // How long a manual review may take before its default outcome applies
+    },
+    {
+      id: 'notifications',
+      name: 'Emergency notifications',
+      agent_type: 'notifier_agent',
+      action: 'sendEmergencyNotifications',
+      required_scopes: ['message.send', 'notification.create'],
+      depends_on: ['alert_processing', 'risk_assessment'],
+      condition: '$.steps.risk_assessment.broadcast_allowed',
+      delegation: { consent_id: 'emergency_notification_consent' },
+      retry: { max_attempts: 3, initial_delay_ms: 1000, max_delay_ms: 8000, retryable_errors: ['ExternalServiceError'] },
+      compensation: {
+        agent_type: 'notifier_agent',
+        action: 'sendRetraction',
+        required_scopes: ['message.send', 'notification.create'],
+        input: {
+          alert_data: '$.alert',
+          notifications: '$.output.notifications',
+          reason: '$.reason',
+          playbook: '$.playbook'
+        }
+      },
+      input: {
+        alert_data: '$.alert',
+        analysis: '$.steps.alert_processing.analysis',
+        verification: '$.steps.content_verification',
+        channels: '$.steps.risk_assessment.allowed_channels',
+        playbook: '$.playbook'
+      },
+      input_schema: {
+        type: 'object',
+        required: ['alert_data', 'channels'],
+        properties: { channels: { type: 'array' } }
+      },
+      output_schema: {
+        type: 'object',
+        required: ['notifications', 'status']
+      },
+      timeout_ms: 45000
+    }
+  ]
+};
+
+/**
+ * Error classes a retry policy may name. Authentication, authorization and validation
+ * errors are deliberately absent: retrying them cannot succeed.
+ */
+export const RETRYABLE_ERROR_TYPES = ['ExternalServiceError', 'TimeoutError', 'NotFoundError', 'Error'];
+
+export const DEFAULT_RETRYABLE_ERRORS = ['ExternalServiceError', 'TimeoutError'];
+
+const BUILT_IN_WORKFLOWS: WorkflowDefinition[] = [EMERGENCY_RESPONSE_WORKFLOW];
+
+/**
+ * Validate a value against a minimal JSON-schema subset (type, required, properties, items)
+ */
+export function validateAgainstSchema(schema: Record<string, any> | undefined, value: any, path: string = '$'): string[] {
+  if (!schema || Object.keys(schema).length === 0) {
+    return [];
+  }
+
+  const errors: string[] = [];
+  const actualType = Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value;
+
+  if (schema.type && value !== undefined) {
+    const expected = schema.type === 'integer' ? 'number' : schema.type;
+    if (actualType !== expected || (schema.type === 'integer' && !Number.isInteger(value))) {
+      errors.push(`${path} must be of type ${schema.type}`);
+      return errors;
+    }
+  }
+
+  if (Array.isArray(schema.enum) && value !== undefined && !schema.enum.includes(value)) {
+    errors.push(`${path} must be one of: ${schema.enum.join(', ')}`);
+  }
+
+  if (actualType === 'object') {
+    for (const field of schema.required || []) {
+      if (value[field] === undefined || value[field] === null) {
+        errors.push(`${path}.${field} is required`);
+      }
+    }
+    for (const [field, fieldSchema] of Object.entries(schema.properties || {})) {
+      if (value[field] !== undefined) {
+        errors.push(...validateAgainstSchema(fieldSchema as Record<string, any>, value[field], `${path}.${field}`));
+      }
+    }
+  }
+
+  if (actualType === 'array' && schema.items) {
+    value.forEach((item: any, index: number) => {
+      errors.push(...validateAgainstSchema(schema.items, item, `${path}[${index}]`));
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Order workflow steps so every step comes after its dependencies.
+ * Steps without ordering constraints keep their declaration order.
+ */
+export function sortWorkflowSteps(steps: WorkflowStep[]): WorkflowStep[] {
+  const remaining = new Map(steps.map(step => [step.id, step]));
+  const ordered: WorkflowStep[] = [];
+
+  while (remaining.size > 0) {
+    const ready = Array.from(remaining.values()).find(step =>
+      (step.depends_on || []).every(dependency => !remaining.has(dependency))
+    );
+
+    if (!ready) {
+      throw new ValidationError(`Workflow contains a dependency cycle between steps: ${Array.from(remaining.keys()).join(', ')}`);
+    }
+
+    ordered.push(ready);
+    remaining.delete(ready.id);
+  }
+
+  return ordered;
+}
+
+/**
+ * Validate a workflow definition against the agent actions the orchestrator supports
+ */
+export function validateWorkflowDefinition(
+  definition: WorkflowDefinition,
+  supportedActions: Record<string, string[]>,
+  capabilityActions: Record<string, string[]> = {}
+): string[] {
+  const errors: string[] = [];
+
+  if (!definition || typeof definition !== 'object') {
+    return ['Workflow definition must be an object'];
+  }
+
+  if (typeof definition.id !== 'string' || !/^[a-z0-9_\-]{3,100}$/.test(definition.id)) {
+    errors.push('id must be 3-100 characters of lowercase letters, digits, "_" or "-"');
+  }
+
+  if (typeof definition.name !== 'string' || definition.name.trim().length === 0) {
+    errors.push('name is required');
+  }
+
+  if (!Array.isArray(definition.steps) || definition.steps.length === 0) {
+    errors.push('steps must be a non-empty array');
+    return errors;
+  }
+
+  const stepIds = new Set<string>();
+  for (const step of definition.steps) {
+    const label = `steps[${step?.id || '?'}]`;
+
+    if (!step || typeof step.id !== 'string' || step.id.length === 0) {
+      errors.push('every step requires an id');
+      continue;
+    }
+    if (stepIds.has(step.id)) {
+      errors.push(`${label}: duplicate step id`);
+    }
+    stepIds.add(step.id);
+
+    if (typeof step.name !== 'string' || step.name.length === 0) {
+      errors.push(`${label}: name is required`);
+    }
+    if (step.type === 'approval') {
+      if (!step.approval || !['approved', 'rejected'].includes(step.approval.default_outcome)) {
+        errors.push(`${label}: approval.default_outcome must be approved or rejected`);
+      } else if (step.approval.approvers !== undefined &&
+        (!Array.isArray(step.approval.approvers) || step.approval.approvers.some(approver => typeof approver !== 'string'))) {
+        errors.push(`${label}: approval.approvers must be an array of user IDs`);
+      }
+      if (step.retry || step.compensation || step.delegation) {
+        errors.push(`${label}: approval steps cannot declare retry, compensation or delegation`);
+      }
+    } else if (step.type === 'risk_gate') {
+      if (step.risk_policy) {
+        errors.push(...validateRiskPolicy(step.risk_policy, label));
+      }
+    } else if (step.type !== undefined && step.type !== 'agent') {
+      errors.push(`${label}: type must be agent, approval or risk_gate`);
+    } else if (!step.agent_type && typeof step.capability === 'string') {
+      if (!capabilityActions[step.capability]) {
+        errors.push(`${label}: no registered agent provides capability ${step.capability}`);
+      } else if (!capabilityActions[step.capability].includes(step.action)) {
+        errors.push(`${label}: no agent with capability ${step.capability} supports action ${step.action}`);
+      }
+    } else if (!supportedActions[step.agent_type]) {
+      errors.push(`${label}: unknown agent_type ${step.agent_type}`);
+    } else if (!supportedActions[step.agent_type].includes(step.action)) {
+      errors.push(`${label}: agent ${step.agent_type} does not support action ${step.action}`);
+    }
+    if (step.type !== 'approval' && step.type !== 'risk_gate' && (!Array.isArray(step.required_scopes) || step.required_scopes.some(scope => typeof scope !== 'string'))) {
+      errors.push(`${label}: required_scopes must be an array of strings`);
+    }
+    if (typeof step.timeout_ms !== 'number' || step.timeout_ms <= 0) {
+      errors.push(`${label}: timeout_ms must be a positive number`);
+    }
+    if (step.type !== 'approval' && step.type !== 'risk_gate' && (typeof step.input_schema !== 'object' || typeof step.output_schema !== 'object')) {
+      errors.push(`${label}: input_schema and output_schema must be objects`);
+    }
+    if (step.condition !== undefined && (typeof step.condition !== 'string' || !step.condition.startsWith('$.'))) {
+      errors.push(`${label}: condition must be a context path starting with "$."`);
+    }
+    if (step.join) {
+      const dependencyCount = (step.depends_on || []).length;
+      if (!['all', 'any', 'quorum'].includes(step.join.policy)) {
+        errors.push(`${label}: join.policy must be one of all, any, quorum`);
+      } else if (dependencyCount === 0) {
+        errors.push(`${label}: join requires depends_on`);
+      } else if (step.join.policy === 'quorum' &&
+        (!Number.isInteger(step.join.quorum) || step.join.quorum! < 1 || step.join.quorum! > dependencyCount)) {
+        errors.push(`${label}: join.quorum must be an integer between 1 and ${dependencyCount}`);
+      }
+    }
+    if (step.retry) {
+      if (!Number.isInteger(step.retry.max_attempts) || step.retry.max_attempts < 1 || step.retry.max_attempts > 10) {
+        errors.push(`${label}: retry.max_attempts must be an integer between 1 and 10`);
+      }
+      for (const field of ['initial_delay_ms', 'max_delay_ms', 'backoff_multiplier'] as const) {
+        if (step.retry[field] !== undefined && (typeof step.retry[field] !== 'number' || step.retry[field]! <= 0)) {
+          errors.push(`${label}: retry.${field} must be a positive number`);
+        }
+      }
+      const unknownErrors = (step.retry.retryable_errors || []).filter(name => !RETRYABLE_ERROR_TYPES.includes(name));
+      if (unknownErrors.length > 0) {
+        errors.push(`${label}: retry.retryable_errors must only contain ${RETRYABLE_ERROR_TYPES.join(', ')}`);
+      }
+    }
+    if (step.compensation) {
+      const { agent_type: agentType, action, required_scopes: scopes } = step.compensation;
+      if (!supportedActions[agentType] || !supportedActions[agentType].includes(action)) {
+        errors.push(`${label}: compensation action ${agentType}.${action} is not supported`);
+      }
+      if (!Array.isArray(scopes) || scopes.some(scope => typeof scope !== 'string')) {
+        errors.push(`${label}: compensation.required_scopes must be an array of strings`);
+      }
+    }
+    if (step.delegation && typeof step.delegation.consent_id !== 'string') {
+      errors.push(`${label}: delegation.consent_id is required`);
+    }
+  }
+
+  for (const step of definition.steps) {
+    for (const dependency of step?.depends_on || []) {
+      if (!stepIds.has(dependency)) {
+        errors.push(`steps[${step.id}]: depends on unknown step ${dependency}`);
+      }
+    }
+  }
+
+  if (errors.length === 0) {
+    try {
+      sortWorkflowSteps(definition.steps);
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : 'Invalid step dependencies');
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Stores built-in and team-registered workflow definitions
+ */
+export class WorkflowRegistry {
+  private definitions: Map<string, WorkflowDefinition> = new Map();
+
+  constructor() {
+    BUILT_IN_WORKFLOWS.forEach(definition => this.definitions.set(definition.id, definition));
+  }
+
+  /**
+   * Get a workflow definition, loading registered definitions from the database
+   */
+  async get(definitionId: string): Promise<WorkflowDefinition | null> {
+    const cached = this.definitions.get(definitionId);
+    if (cached) {
+      return cached;
+    }
+
+    const result = await query(`
+      SELECT id, name, description, version, steps, created_by, created_at, updated_at
+      FROM workflow_definitions
+      WHERE id = $1
+    `, [definitionId]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const definition = this.mapRow(result.rows[0]);
+    this.definitions.set(definition.id, definition);
+    return definition;
+  }
+
+  /**
+   * List built-in and registered workflow definitions
+   */
+  async list(): Promise<WorkflowDefinition[]> {
+    const result = await query(`
+      SELECT id, name, description, version, steps, created_by, created_at, updated_at
+      FROM workflow_definitions
+      ORDER BY name ASC
+    `);
+
+    result.rows.forEach((row: any) => {
+      const definition = this.mapRow(row);
+      this.definitions.set(definition.id, definition);
+    });
+
+    return Array.from(this.definitions.values());
+  }
+
+  /**
+   * Persist a validated workflow definition, bumping its version if it already exists
+   */
+  async save(definition: WorkflowDefinition, userId: string): Promise<WorkflowDefinition> {
+    if (BUILT_IN_WORKFLOWS.some(builtIn => builtIn.id === definition.id)) {
+      throw new CrisisAssistError(`Workflow ${definition.id} is built in and cannot be replaced`, 'WORKFLOW_BUILT_IN', 409);
+    }
+
+    const result = await query(`
+      INSERT INTO workflow_definitions (id, name, description, version, steps, created_by)
+      VALUES ($1, $2, $3, 1, $4, $5)
+      ON CONFLICT (id) DO UPDATE SET
+        name = EXCLUDED.name,
+        description = EXCLUDED.description,
+        steps = EXCLUDED.steps,
+        version = workflow_definitions.version + 1,
+        updated_at = NOW()
+      RETURNING id, name, description, version, steps, created_by, created_at, updated_at
+    `, [
+      definition.id,
+      definition.name,
+      definition.description || null,
+      JSON.stringify(definition.steps),
+      userId
+    ]);
+
+    const saved = result.rows[0] ? this.mapRow(result.rows[0]) : { ...definition, version: definition.version || 1 };
+    this.definitions.set(saved.id, saved);
+
+    logAuditEvent({
+      actor: userId,
+      action: 'workflow_definition.register',
+      resource: `workflow_definition:${saved.id}`,
+      result: 'success',
+      details: { version: saved.version, steps: saved.steps.length }
+    });
+
+    logger.info(`Workflow definition registered: ${saved.id}`, { version: saved.version, userId });
+
+    return saved;
+  }
+
+  private mapRow(row: any): WorkflowDefinition {
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description || undefined,
+      version: row.version,
+      steps: typeof row.steps === 'string' ? JSON.parse(row.steps) : row.steps,
+      created_by: row.created_by || undefined,
+      created_at: row.created_at,
+      updated_at: row.updated_at
+    };
+  }
+}
+
+// Export singleton instance
+export const workflowRegistry = new WorkflowRegistry();
@@ -58,8 +58,14 @@ export const getPool = (): Pool => {
   return pool;
 };
 
+/**
+ * True when running in demo mode without a database, where queries return no rows
+ */
+export const isDemoDatabase = (): boolean =>
+  process.env.DEMO_MODE === 'true' && (!pool || Object.keys(pool).length === 0);
+
 export const query = async (text: string, params?: any[]): Promise<any> => {
-  if (process.env.DEMO_MODE === 'true' && (!pool || Object.keys(pool).length === 0)) {
+  if (isDemoDatabase()) {
     logger.debug('Demo mode: Skipping database query', { query: text });
     return { rows: [], rowCount: 0 };
   }
@@ -1,187 +0,0 @@
--- CrisisAssist Database Schema
--- Multi-Agent Emergency Response System
-
--- Enable UUID extension
-CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
-
--- Users table
-CREATE TABLE IF NOT EXISTS users (
-    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
-    descope_user_id VARCHAR(255) UNIQUE NOT NULL,
-    name VARCHAR(255) NOT NULL,
-    email VARCHAR(255) UNIQUE NOT NULL,
-    phone VARCHAR(50),
-    role VARCHAR(50) NOT NULL DEFAULT 'citizen' CHECK (role IN ('admin', 'operator', 'volunteer', 'citizen')),
-    permissions TEXT[] DEFAULT '{}',
-    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
-);
-
--- Agents table
-CREATE TABLE IF NOT EXISTS agents (
-    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
-    name VARCHAR(255) NOT NULL,
-    type VARCHAR(50) NOT NULL CHECK (type IN ('alert', 'scheduler', 'notifier', 'verifier')),
-    description TEXT,
-    allowed_scopes TEXT[] NOT NULL DEFAULT '{}',
-    public_key TEXT,
-    status VARCHAR(50) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'inactive', 'maintenance')),
-    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
-);
-
--- Alerts table
-CREATE TABLE IF NOT EXISTS alerts (
-    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
-    type VARCHAR(50) NOT NULL CHECK (type IN ('flood', 'fire', 'earthquake', 'storm', 'medical', 'security')),
-    severity VARCHAR(50) NOT NULL CHECK (severity IN ('low', 'medium', 'high', 'critical')),
-    title VARCHAR(500) NOT NULL,
-    description TEXT,
-    location_address TEXT NOT NULL,
-    location_lat DECIMAL(10, 8),
-    location_lng DECIMAL(11, 8),
-    metadata JSONB DEFAULT '{}',
-    source VARCHAR(255) NOT NULL,
-    status VARCHAR(50) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'processing', 'resolved', 'cancelled')),
-    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
-);
-
--- Events table (Calendar/Scheduling)
-CREATE TABLE IF NOT EXISTS events (
-    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
-    alert_id UUID REFERENCES alerts(id) ON DELETE CASCADE,
-    title VARCHAR(500) NOT NULL,
-    description TEXT,
-    start_time TIMESTAMP WITH TIME ZONE NOT NULL,
-    end_time TIMESTAMP WITH TIME ZONE NOT NULL,
-    location TEXT,
-    assignees TEXT[] DEFAULT '{}',
-    resources TEXT[] DEFAULT '{}',
-    calendar_event_id VARCHAR(255),
-    status VARCHAR(50) NOT NULL DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'in_progress', 'completed', 'cancelled')),
-    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
-);
-
--- Messages table
-CREATE TABLE IF NOT EXISTS messages (
-    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
-    event_id UUID REFERENCES events(id) ON DELETE SET NULL,
-    alert_id UUID REFERENCES alerts(id) ON DELETE SET NULL,
-    channel_type VARCHAR(50) NOT NULL CHECK (channel_type IN ('slack', 'sms', 'email', 'whatsapp')),
-    channel_id VARCHAR(255) NOT NULL,
-    recipient VARCHAR(255) NOT NULL,
-    subject VARCHAR(500),
-    content TEXT NOT NULL,
-    message_id VARCHAR(255),
-    status VARCHAR(50) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'delivered', 'failed')),
-    sent_at TIMESTAMP WITH TIME ZONE,
-    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
-);
-
--- Audit logs table
-CREATE TABLE IF NOT EXISTS audit_logs (
-    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
-    actor_type VARCHAR(50) NOT NULL CHECK (actor_type IN ('agent', 'user', 'system')),
-    actor_id VARCHAR(255) NOT NULL,
-    action VARCHAR(255) NOT NULL,
-    resource_type VARCHAR(100) NOT NULL,
-    resource_id VARCHAR(255),
-    token_claims JSONB,
-    request_data JSONB,
-    response_data JSONB,
-    ip_address INET,
-    user_agent TEXT,
-    signature TEXT,
-    timestamp TIMESTAMP WITH TIME ZONE DEFAULT NOW()
-);
-
--- Workflow executions table
-CREATE TABLE IF NOT EXISTS workflow_executions (
-    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
-    workflow_id VARCHAR(255) NOT NULL,
-    alert_id UUID REFERENCES alerts(id) ON DELETE CASCADE,
-    status VARCHAR(50) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed', 'failed', 'cancelled')),
-    current_step INTEGER DEFAULT 0,
-    steps JSONB DEFAULT '[]',
-    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
-);
-
--- User consents table (for delegated access)
-CREATE TABLE IF NOT EXISTS user_consents (
-    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
-    user_id UUID REFERENCES users(id) ON DELETE CASCADE,
-    agent_id UUID REFERENCES agents(id) ON DELETE CASCADE,
-    scopes TEXT[] NOT NULL,
-    granted_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-    expires_at TIMESTAMP WITH TIME ZONE,
-    revoked_at TIMESTAMP WITH TIME ZONE,
-    status VARCHAR(50) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'expired', 'revoked'))
-);
-
--- External integrations table
-CREATE TABLE IF NOT EXISTS external_integrations (
-    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
-    user_id UUID REFERENCES users(id) ON DELETE CASCADE,
-    service VARCHAR(100) NOT NULL, -- 'google_calendar', 'slack', 'twilio'
-    service_user_id VARCHAR(255),
-    access_token_encrypted TEXT,
-    refresh_token_encrypted TEXT,
-    token_expires_at TIMESTAMP WITH TIME ZONE,
-    scopes TEXT[] DEFAULT '{}',
-    metadata JSONB DEFAULT '{}',
-    status VARCHAR(50) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'expired', 'revoked', 'error')),
-    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-    UNIQUE(user_id, service)
-);
-
--- Indexes for performance
-CREATE INDEX IF NOT EXISTS idx_alerts_type_severity ON alerts(type, severity);
-CREATE INDEX IF NOT EXISTS idx_alerts_status_created ON alerts(status, created_at);
-CREATE INDEX IF NOT EXISTS idx_alerts_location ON alerts(location_lat, location_lng);
-CREATE INDEX IF NOT EXISTS idx_events_alert_id ON events(alert_id);
-CREATE INDEX IF NOT EXISTS idx_events_start_time ON events(start_time);
-CREATE INDEX IF NOT EXISTS idx_messages_status ON messages(status);
-CREATE INDEX IF NOT EXISTS idx_messages_channel ON messages(channel_type, channel_id);
-CREATE INDEX IF NOT EXISTS idx_audit_logs_actor ON audit_logs(actor_type, actor_id);
-CREATE INDEX IF NOT EXISTS idx_audit_logs_timestamp ON audit_logs(timestamp);
-CREATE INDEX IF NOT EXISTS idx_audit_logs_action ON audit_logs(action);
-CREATE INDEX IF NOT EXISTS idx_workflow_executions_alert ON workflow_executions(alert_id);
-CREATE INDEX IF NOT EXISTS idx_workflow_executions_status ON workflow_executions(status);
-CREATE INDEX IF NOT EXISTS idx_user_consents_user_agent ON user_consents(user_id, agent_id);
-CREATE INDEX IF NOT EXISTS idx_user_consents_status ON user_consents(status);
-CREATE INDEX IF NOT EXISTS idx_external_integrations_user_service ON external_integrations(user_id, service);
-
--- Triggers for updated_at timestamps
-CREATE OR REPLACE FUNCTION update_updated_at_column()
-RETURNS TRIGGER AS $$
-BEGIN
-    NEW.updated_at = NOW();
-    RETURN NEW;
-END;
-$$ language 'plpgsql';
-
-CREATE TRIGGER update_users_updated_at BEFORE UPDATE ON users FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
-CREATE TRIGGER update_agents_updated_at BEFORE UPDATE ON agents FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
-CREATE TRIGGER update_alerts_updated_at BEFORE UPDATE ON alerts FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
-CREATE TRIGGER update_events_updated_at BEFORE UPDATE ON events FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
-CREATE TRIGGER update_messages_updated_at BEFORE UPDATE ON messages FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
-CREATE TRIGGER update_workflow_executions_updated_at BEFORE UPDATE ON workflow_executions FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
-CREATE TRIGGER update_external_integrations_updated_at BEFORE UPDATE ON external_integrations FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
-
--- Insert default agents
-INSERT INTO agents (id, name, type, description, allowed_scopes) VALUES
-    ('agent_alert_001', 'Alert Processing Agent', 'alert', 'Processes incoming disaster alerts and triggers response workflows', ARRAY['alert.read', 'alert.process']),
-    ('agent_scheduler_001', 'Resource Scheduler Agent', 'scheduler', 'Creates and manages calendar events for relief coordination', ARRAY['calendar.write', 'calendar.read', 'resource.schedule']),
-    ('agent_notifier_001', 'Notification Agent', 'notifier', 'Sends verified alerts and updates to communities and stakeholders', ARRAY['message.send', 'notification.dispatch']),
-    ('agent_verifier_001', 'Verification Agent', 'verifier', 'Validates and approves all outgoing communications to prevent misinformation', ARRAY['verify.document', 'verify.message', 'content.validate'])
-ON CONFLICT (id) DO NOTHING;
-
--- Insert demo user (for development)
-INSERT INTO users (id, descope_user_id, name, email, role, permissions) VALUES
-    ('demo_user_001', 'demo_user', 'Demo Administrator', 'demo@crisisassist.com', 'admin', ARRAY['*'])
-ON CONFLICT (descope_user_id) DO NOTHING;
\ No newline at end of file
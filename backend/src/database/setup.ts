@@ -44,8 +44,8 @@ const runMigrations = async () => {
   });
 
   try {
-    // Read and execute schema file
-    const schemaPath = path.join(__dirname, 'schema.sql');
+    // Read and execute the schema file shared with database-init.js and database-migrate.js
+    const schemaPath = path.join(__dirname, '..', '..', 'database', 'schema.sql');
     const schema = fs.readFileSync(schemaPath, 'utf8');
     
     await pool.query(schema);
@@ -9,6 +9,11 @@ import { errorHandler } from './middleware/errorHandler';
 import { authenticateToken } from './middleware/auth';
 import { logger } from './utils/logger';
 import { connectDatabase } from './database/connection';
+import { agentOrchestrator } from './agents/AgentOrchestrator';
+import { initializeStreaming } from './utils/realTimeStreaming';
+import { alertEscalator } from './agents/AlertEscalator';
+import { capIngestor } from './agents/CapIngestor';
+import { populationGrid } from './utils/populationGrid';
 
 // Import routes
 const alertRoutes = require('./routes/alerts');
@@ -16,6 +21,15 @@ const agentRoutes = require('./routes/agents');
 const auditRoutes = require('./routes/audit');
 const healthRoutes = require('./routes/health');
 const workflowRoutes = require('./routes/workflow');
+const playbookRoutes = require('./routes/playbooks');
+const incidentRoutes = require('./routes/incidents');
+const deadLetterRoutes = require('./routes/deadLetters');
+const geocodeRoutes = require('./routes/geocode');
+const capRoutes = require('./routes/cap');
+const sensorRoutes = require('./routes/sensors');
+const smsRoutes = require('./routes/sms');
+const citizenReportRoutes = require('./routes/citizenReports');
+const analysisRuleRoutes = require('./routes/analysisRules');
 import realWorkflowRoutes from './routes/realWorkflowRoutes';
 
 // Load environment variables
@@ -60,6 +74,17 @@ app.use('/api/alerts', authenticateToken, alertRoutes);
 app.use('/api/agents', authenticateToken, agentRoutes);
 app.use('/api/audit', authenticateToken, auditRoutes);
 app.use('/api/workflow', authenticateToken, workflowRoutes);
+app.use('/api/playbooks', authenticateToken, playbookRoutes);
+app.use('/api/incidents', authenticateToken, incidentRoutes);
+app.use('/api/dead-letters', authenticateToken, deadLetterRoutes);
+app.use('/api/geocode', authenticateToken, geocodeRoutes);
+app.use('/api/cap', authenticateToken, capRoutes);
+// Sensors post readings with their own API key; the management routes check user tokens themselves
+app.use('/api/sensors', sensorRoutes);
+// Twilio webhooks are authenticated by their request signature
+app.use('/api/sms', smsRoutes);
+app.use('/api/citizen-reports', authenticateToken, citizenReportRoutes);
+app.use('/api/analysis-rules', authenticateToken, analysisRuleRoutes);
 app.use('/api/real-workflow', realWorkflowRoutes);
 
 // Root endpoint
@@ -74,7 +99,16 @@ app.get('/', (req: Request, res: Response) => {
       alerts: '/api/alerts',
       agents: '/api/agents',
       audit: '/api/audit',
-      workflow: '/api/workflow'
+      workflow: '/api/workflow',
+      playbooks: '/api/playbooks',
+      incidents: '/api/incidents',
+      dead_letters: '/api/dead-letters',
+      geocode: '/api/geocode',
+      cap: '/api/cap',
+      sensors: '/api/sensors',
+      sms: '/api/sms',
+      citizen_reports: '/api/citizen-reports',
+      analysis_rules: '/api/analysis-rules'
     }
   });
 });
@@ -98,14 +132,39 @@ async function startServer() {
     await connectDatabase();
     logger.info('Database connected successfully');
 
+    // Resume or fail workflows interrupted by the previous shutdown
+    await agentOrchestrator.recoverInterruptedExecutions().catch(error => {
+      logger.error('Failed to recover interrupted workflows:', error);
+    });
+
+    // Population counts for alert exposure estimates
+    if (process.env.POPULATION_GRID_PATH) {
+      populationGrid.load(process.env.POPULATION_GRID_PATH);
+    }
+
     // Start HTTP server
-    app.listen(PORT, '0.0.0.0', () => {
+    const server = app.listen(PORT, '0.0.0.0', () => {
       logger.info(`🚀 CrisisAssist API server running on port ${PORT}`);
       logger.info(`📊 Environment: ${process.env.NODE_ENV || 'development'}`);
       logger.info(`🔗 API Base URL: ${process.env.API_BASE_URL || `http://localhost:${PORT}`}`);
       logger.info(`🛡️  Security: Descope authentication enabled`);
       logger.info(`📝 Logging: ${process.env.LOG_LEVEL || 'info'} level`);
     });
+
+    // Real-time workflow updates (Socket.IO on the HTTP server, agent WebSocket on WS_PORT)
+    if (process.env.ENABLE_STREAMING === 'true') {
+      initializeStreaming(server);
+    }
+
+    // Re-send alerts nobody has acknowledged to wider recipient tiers
+    if (process.env.ENABLE_ALERT_ESCALATION === 'true') {
+      alertEscalator.start();
+    }
+
+    // Pull CAP alerts from the configured agency feeds
+    if (process.env.ENABLE_CAP_FEED_POLLING === 'true') {
+      capIngestor.start();
+    }
   } catch (error) {
     logger.error('Failed to start server:', error);
     process.exit(1);
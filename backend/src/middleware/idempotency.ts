@@ -0,0 +1,170 @@
+import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import { isDemoDatabase, query } from '../database/connection';
+import { logger } from '../utils/logger';
+import { AuthenticatedRequest, CrisisAssistError, ValidationError } from '../types';
+
+const KEY_PATTERN = /^[A-Za-z0-9_\-:.]{8,255}$/;
+
+/**
+ * Stable JSON so the same body hashes the same regardless of key order
+ */
+function canonicalize(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalize).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${canonicalize(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+function hashRequest(req: Request): string {
+  return crypto.createHash('sha256').update(canonicalize(req.body)).digest('hex');
+}
+
+/**
+ * Honour the Idempotency-Key header on endpoints that create alerts or send messages.
+ *
+ * The first request with a key runs normally and its response is stored. A retry with the same
+ * key and body replays the stored response without running the handler again; reusing the key
+ * with a different body, or while the first request is still running, is a 409. Keys are scoped
+ * to the caller and endpoint. Server errors are not stored so the client can retry them.
+ *
+ * A running request holds its key on a short lease, renewed until the handler responds even if
+ * the client has disconnected, so a retry cannot repeat work that is still in progress. A claim
+ * left by a crashed server frees up within IDEMPOTENCY_LEASE_SECONDS. Without a database (demo
+ * mode) keys cannot be stored and the header is ignored.
+ */
+export const idempotency = (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const key = req.header('Idempotency-Key');
+  if (!key || isDemoDatabase()) {
+    return next();
+  }
+
+  handleIdempotentRequest(key, req, res, next).catch(next);
+};
+
+async function handleIdempotentRequest(key: string, req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+  if (!KEY_PATTERN.test(key)) {
+    throw new ValidationError('Idempotency-Key must be 8-255 characters of letters, digits, "_", "-", ":" or "."');
+  }
+
+  const owner = req.auth?.userId || req.auth?.claims?.sub || 'anonymous';
+  const endpoint = `${req.method} ${req.baseUrl}${req.path}`;
+  const requestHash = hashRequest(req);
+  const ttlHours = parseInt(process.env.IDEMPOTENCY_KEY_TTL_HOURS || '24', 10);
+  const leaseSeconds = parseInt(process.env.IDEMPOTENCY_LEASE_SECONDS || '60', 10);
+
+  // Expired keys, and claims whose lease ran out, may be reused
+  await query(`
+    DELETE FROM idempotency_keys
+    WHERE idempotency_key = $1 AND owner = $2 AND endpoint = $3 AND expires_at < NOW()
+  `, [key, owner, endpoint]);
+
+  const claimed = await query(`
+    INSERT INTO idempotency_keys (idempotency_key, owner, endpoint, request_hash, status, created_at, expires_at)
+    VALUES ($1, $2, $3, $4, 'in_progress', NOW(), NOW() + ($5 || ' seconds')::interval)
+    ON CONFLICT (idempotency_key, owner, endpoint) DO NOTHING
+    RETURNING idempotency_key
+  `, [key, owner, endpoint, requestHash, leaseSeconds]);
+
+  if (claimed.rows.length === 0) {
+    const existing = await query(`
+      SELECT request_hash, status, response_status, response_body, created_at
+      FROM idempotency_keys
+      WHERE idempotency_key = $1 AND owner = $2 AND endpoint = $3
+    `, [key, owner, endpoint]);
+    const record = existing.rows[0];
+
+    if (!record) {
+      // The first attempt just failed with a server error and released the key
+      throw new CrisisAssistError('The original request with this Idempotency-Key failed; retry it', 'IDEMPOTENCY_KEY_IN_PROGRESS', 409);
+    }
+    if (record.request_hash !== requestHash) {
+      throw new CrisisAssistError(
+        'Idempotency-Key was already used with a different request body',
+        'IDEMPOTENCY_KEY_REUSED',
+        409,
+        { idempotency_key: key, first_used_at: record.created_at }
+      );
+    }
+    if (record.status !== 'completed') {
+      throw new CrisisAssistError(
+        'A request with this Idempotency-Key is still being processed',
+        'IDEMPOTENCY_KEY_IN_PROGRESS',
+        409,
+        { idempotency_key: key }
+      );
+    }
+
+    logger.info(`Replaying stored response for idempotency key ${key}`, { endpoint, owner });
+    res.setHeader('Idempotent-Replayed', 'true');
+    res.status(record.response_status).json(typeof record.response_body === 'string' ? JSON.parse(record.response_body) : record.response_body);
+    return;
+  }
+
+  // Keep the claim while the handler runs
+  const lease = setInterval(() => {
+    query(`
+      UPDATE idempotency_keys SET expires_at = NOW() + ($4 || ' seconds')::interval
+      WHERE idempotency_key = $1 AND owner = $2 AND endpoint = $3 AND status = 'in_progress'
+    `, [key, owner, endpoint, leaseSeconds]).catch(error => {
+      logger.warn(`Failed to renew lease for idempotency key ${key}:`, error);
+    });
+  }, Math.max(1, leaseSeconds / 3) * 1000);
+
+  // Capture the response the handler (or the error handler) sends so a retry can replay it. It is
+  // stored before it is sent, so a client retrying after a dropped response finds it completed.
+  let settled = false;
+  const originalJson = res.json.bind(res);
+  res.json = (body: any) => {
+    settled = true;
+    clearInterval(lease);
+    storeResponse(key, owner, endpoint, res.statusCode, body, ttlHours)
+      .catch(error => {
+        logger.error(`Failed to store response for idempotency key ${key}:`, error);
+      })
+      .finally(() => originalJson(body));
+    return res;
+  };
+
+  // A response the handler sends some other way cannot be replayed; free the key. A dropped
+  // connection does not end the response, so the key stays held until the handler finishes.
+  const originalEnd = res.end.bind(res);
+  res.end = ((...args: any[]) => {
+    if (!settled) {
+      settled = true;
+      clearInterval(lease);
+      releaseKey(key, owner, endpoint).catch(error => {
+        logger.error(`Failed to release idempotency key ${key}:`, error);
+      });
+    }
+    return (originalEnd as (...args: any[]) => Response)(...args);
+  }) as Response['end'];
+
+  next();
+}
+
+async function releaseKey(key: string, owner: string, endpoint: string): Promise<void> {
+  await query(`
+    DELETE FROM idempotency_keys
+    WHERE idempotency_key = $1 AND owner = $2 AND endpoint = $3 AND status = 'in_progress'
+  `, [key, owner, endpoint]);
+}
+
+async function storeResponse(key: string, owner: string, endpoint: string, status: number, body: any, ttlHours: number): Promise<void> {
+  if (status >= 500) {
+    await query(`
+      DELETE FROM idempotency_keys WHERE idempotency_key = $1 AND owner = $2 AND endpoint = $3
+    `, [key, owner, endpoint]);
+    return;
+  }
+
+  await query(`
+    UPDATE idempotency_keys
+    SET status = 'completed', response_status = $1, response_body = $2, completed_at = NOW(),
+        expires_at = NOW() + ($6 || ' hours')::interval
+    WHERE idempotency_key = $3 AND owner = $4 AND endpoint = $5
+  `, [status, JSON.stringify(body), key, owner, endpoint, ttlHours]);
+}
@@ -4,6 +4,8 @@ import { authenticate, requireScopes, requireAgentType } from '../middleware/aut
 import { asyncHandler } from '../middleware/errorHandler';
 import { logger, logAuditEvent, logAgentActivity } from '../utils/logger';
 import { genkitMultiAgentFramework } from '../utils/genkitAgentFramework';
+import { agentOrchestrator } from '../agents/AgentOrchestrator';
+import { agentRegistry } from '../agents/AgentRegistry';
 import { 
   AuthenticatedRequest, 
   ValidationError 
@@ -366,7 +368,9 @@ router.get('/status', authenticate, requireScopes(['admin.read']), asyncHandler(
       status: 'active',
       last_activity: new Date().toISOString(),
       verified_content_today: Math.floor(Math.random() * 30) + 8
-    }
+    },
+    registered_agents: agentRegistry.describe(),
+    workflow_queue: agentOrchestrator.getQueueStats()
   };
 
   res.json({
@@ -1,11 +1,15 @@
+import crypto from 'crypto';
 import { Router, Response } from 'express';
 import { body, validationResult } from 'express-validator';
 import { v4 as uuidv4 } from 'uuid';
 import { query } from '../database/connection';
 import { authenticateToken, authenticate, requireScopes } from '../middleware/auth';
 import { asyncHandler } from '../middleware/errorHandler';
-import { AuthenticatedRequest, Alert, ValidationError, NotFoundError } from '../types';
+import { AuthenticatedRequest, Alert, AffectedArea, CrisisAssistError, ValidationError, NotFoundError } from '../types';
 import { logger } from '../utils/logger';
+import { areaBoundingBox, areaCenter, areasIntersect, pointInArea, validateAffectedArea } from '../utils/geo';
+import { alertEscalator } from '../agents/AlertEscalator';
+import { AlertExportOptions, renderAlertsAtom, renderAlertsGeoJson, renderCapAlert } from '../utils/alertExport';
 
 const router = Router();
 
@@ -71,15 +75,27 @@ router.post('/simulate-full', [
   body('location.coordinates').optional().isObject(),
   body('location.coordinates.lat').optional().isFloat({ min: -90, max: 90 }),
   body('location.coordinates.lng').optional().isFloat({ min: -180, max: 180 }),
+  body('affected_area').optional().isObject(),
 ], authenticateToken, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
   const errors = validationResult(req);
   if (!errors.isEmpty()) {
     throw new ValidationError('Invalid alert data', errors.array());
   }
 
-  const { type, severity, title, description, location, metadata } = req.body;
+  const { type, severity, title, description, location, metadata, affected_area } = req.body;
   const alertId = uuidv4();
 
+  if (affected_area) {
+    const areaErrors = validateAffectedArea(affected_area);
+    if (areaErrors.length > 0) {
+      throw new ValidationError('Invalid affected area', areaErrors);
+    }
+  }
+  const area = affected_area as AffectedArea | undefined;
+  const box = area ? areaBoundingBox(area) : null;
+  // An alert with only an area is located at the area's centre
+  const point = location.coordinates || (area ? areaCenter(area) : null);
+
   // Insert alert into database
   const alertData = {
     id: alertId,
@@ -88,16 +104,17 @@ router.post('/simulate-full', [
     title,
     description: description || '',
     location_address: location.address,
-    location_lat: location.coordinates?.lat || null,
-    location_lng: location.coordinates?.lng || null,
+    location_lat: point?.lat || null,
+    location_lng: point?.lng || null,
     metadata: JSON.stringify(metadata || {}),
     source: 'simulation',
     status: 'active'
   };
 
   await query(`
-    INSERT INTO alerts (id, type, severity, title, description, location_address, location_lat, location_lng, metadata, source, status)
-    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+    INSERT INTO alerts (id, type, severity, title, description, location_address, location_lat, location_lng, metadata, source, status,
+                        affected_area, area_min_lat, area_max_lat, area_min_lng, area_max_lng)
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
   `, [
     alertData.id,
     alertData.type,
@@ -109,7 +126,12 @@ router.post('/simulate-full', [
     alertData.location_lng,
     alertData.metadata,
     alertData.source,
-    alertData.status
+    alertData.status,
+    area ? JSON.stringify(area) : null,
+    box?.min_lat ?? null,
+    box?.max_lat ?? null,
+    box?.min_lng ?? null,
+    box?.max_lng ?? null
   ]);
 
   // Log audit event (commented out for demo mode)
@@ -135,6 +157,7 @@ router.post('/simulate-full', [
       title,
       description,
       location,
+      affected_area: area,
       source: 'simulation',
       status: 'active',
       created_at: new Date().toISOString()
@@ -152,28 +175,8 @@ router.get('/', authenticate, requireScopes(['alert.read', 'admin.read']), async
   const page = parseInt(req.query.page as string) || 1;
   const limit = Math.min(parseInt(req.query.limit as string) || 10, 100);
   const offset = (page - 1) * limit;
-  const status = req.query.status as string;
-  const type = req.query.type as string;
-  const severity = req.query.severity as string;
-
-  let whereClause = 'WHERE 1=1';
-  const params: any[] = [];
-  let paramCount = 0;
-
-  if (status) {
-    whereClause += ` AND status = $${++paramCount}`;
-    params.push(status);
-  }
-
-  if (type) {
-    whereClause += ` AND type = $${++paramCount}`;
-    params.push(type);
-  }
-
-  if (severity) {
-    whereClause += ` AND severity = $${++paramCount}`;
-    params.push(severity);
-  }
+  const { whereClause, params } = alertListFilters(req.query);
+  let paramCount = params.length;
 
   // Get total count
   const countResult = await query(`
@@ -226,6 +229,154 @@ router.get('/', authenticate, requireScopes(['alert.read', 'admin.read']), async
   });
 }));
 
+/**
+ * Alerts whose affected area contains a point
+ * GET /api/alerts/area/containing?lat=22.72&lng=75.86&status=active
+ */
+router.get('/area/containing', authenticate, requireScopes(['alert.read']), asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const lat = parseFloat(req.query.lat as string);
+  const lng = parseFloat(req.query.lng as string);
+  if (!(lat >= -90 && lat <= 90) || !(lng >= -180 && lng <= 180)) {
+    throw new ValidationError('lat (-90..90) and lng (-180..180) are required');
+  }
+
+  const params: any[] = [lat, lng];
+  let statusClause = '';
+  if (req.query.status) {
+    params.push(req.query.status);
+    statusClause = `AND status = $${params.length}`;
+  }
+
+  // The bounding box narrows candidates in SQL; the exact test runs on the geometry
+  const result = await query(`
+    SELECT id, type, severity, title, location_address, location_lat, location_lng, status, affected_area, created_at
+    FROM alerts
+    WHERE affected_area IS NOT NULL
+      AND area_min_lat <= $1 AND area_max_lat >= $1 AND area_min_lng <= $2 AND area_max_lng >= $2
+      ${statusClause}
+    ORDER BY created_at DESC
+  `, params);
+
+  const alerts = result.rows
+    .filter((row: any) => pointInArea(lat, lng, parseArea(row.affected_area)!))
+    .map(toAreaAlert);
+
+  res.json({
+    success: true,
+    data: { point: { lat, lng }, alerts },
+    timestamp: new Date().toISOString()
+  });
+}));
+
+/**
+ * Alerts whose affected area intersects an area, plus point-only alerts located inside it
+ * POST /api/alerts/area/intersecting
+ */
+router.post('/area/intersecting', [
+  body('area').isObject().withMessage('area is required'),
+  body('status').optional().isIn(['active', 'processing', 'resolved', 'cancelled'])
+], authenticate, requireScopes(['alert.read']), asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError('Validation failed', errors.array());
+  }
+  const areaErrors = validateAffectedArea(req.body.area);
+  if (areaErrors.length > 0) {
+    throw new ValidationError('Invalid area', areaErrors);
+  }
+
+  const area = req.body.area as AffectedArea;
+  const box = areaBoundingBox(area);
+  const params: any[] = [box.min_lat, box.max_lat, box.min_lng, box.max_lng];
+  let statusClause = '';
+  if (req.body.status) {
+    params.push(req.body.status);
+    statusClause = `AND status = $${params.length}`;
+  }
+
+  const result = await query(`
+    SELECT id, type, severity, title, location_address, location_lat, location_lng, status, affected_area, created_at
+    FROM alerts
+    WHERE (
+        (affected_area IS NOT NULL AND area_min_lat <= $2 AND area_max_lat >= $1 AND area_min_lng <= $4 AND area_max_lng >= $3)
+        OR (affected_area IS NULL AND location_lat BETWEEN $1 AND $2 AND location_lng BETWEEN $3 AND $4)
+      )
+      ${statusClause}
+    ORDER BY created_at DESC
+  `, params);
+
+  const alerts = result.rows
+    .filter((row: any) => {
+      const alertArea = parseArea(row.affected_area);
+      return alertArea
+        ? areasIntersect(area, alertArea)
+        : pointInArea(parseFloat(row.location_lat), parseFloat(row.location_lng), area);
+    })
+    .map((row: any) => ({ ...toAreaAlert(row), match: row.affected_area ? 'area' : 'point' }));
+
+  res.json({
+    success: true,
+    data: { alerts },
+    timestamp: new Date().toISOString()
+  });
+}));
+
+/**
+ * Alerts as CAP 1.2: an Atom index whose entries each embed one CAP message.
+ * Takes the list filters (status, type, severity, page, limit) and supports If-None-Match.
+ * GET /api/alerts/export/cap
+ */
+router.get('/export/cap', authenticate, requireScopes(['alert.read']), asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const alerts = await listAlertsForExport(req.query);
+  const options = exportOptions(req);
+
+  sendExport(req, res, 'application/atom+xml; charset=utf-8', renderAlertsAtom(alerts, {
+    ...options,
+    self_url: `${options.base_url}${req.originalUrl}`,
+    title: 'CrisisAssist CAP alerts',
+    embed_cap: true
+  }), alerts);
+}));
+
+/**
+ * Atom feed of active alerts (any status via ?status=), with the list filters and If-None-Match
+ * GET /api/alerts/export/atom
+ */
+router.get('/export/atom', authenticate, requireScopes(['alert.read']), asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const alerts = await listAlertsForExport({ status: 'active', ...req.query });
+  const options = exportOptions(req);
+
+  sendExport(req, res, 'application/atom+xml; charset=utf-8', renderAlertsAtom(alerts, {
+    ...options,
+    self_url: `${options.base_url}${req.originalUrl}`,
+    title: 'CrisisAssist active alerts'
+  }), alerts);
+}));
+
+/**
+ * Alerts as a GeoJSON FeatureCollection, with the list filters and If-None-Match
+ * GET /api/alerts/export/geojson
+ */
+router.get('/export/geojson', authenticate, requireScopes(['alert.read']), asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const alerts = await listAlertsForExport(req.query);
+
+  sendExport(req, res, 'application/geo+json; charset=utf-8', JSON.stringify(renderAlertsGeoJson(alerts)), alerts);
+}));
+
+/**
+ * One alert as a CAP 1.2 message, with If-None-Match
+ * GET /api/alerts/:id/cap
+ */
+router.get('/:id/cap', authenticate, requireScopes(['alert.read']), asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const result = await query(`SELECT ${EXPORT_COLUMNS} FROM alerts WHERE id = $1 AND status <> 'draft'`, [req.params.id]);
+  if (result.rows.length === 0) {
+    throw new NotFoundError(`Alert with ID ${req.params.id} not found`);
+  }
+
+  const alert = toExportAlert(result.rows[0]);
+  sendExport(req, res, 'application/cap+xml; charset=utf-8', renderCapAlert(alert, exportOptions(req)), [alert]);
+}));
+
 /**
  * Get alert by ID
  * GET /api/alerts/:id
@@ -235,7 +386,8 @@ router.get('/:id', authenticate, requireScopes(['alert.read', 'admin.read']), as
 
   const result = await query(`
     SELECT id, type, severity, title, description, location_address, location_lat, location_lng, 
-           metadata, source, status, created_at, updated_at
+           metadata, source, status, acknowledged_at, acknowledged_by, escalation_level, incident_id, affected_area,
+           location_confidence, location_source, created_at, updated_at
     FROM alerts 
     WHERE id = $1
   `, [id]);
@@ -256,11 +408,18 @@ router.get('/:id', authenticate, requireScopes(['alert.read', 'admin.read']), as
       coordinates: row.location_lat && row.location_lng ? {
         lat: parseFloat(row.location_lat),
         lng: parseFloat(row.location_lng)
-      } : null
+      } : null,
+      confidence: row.location_confidence != null ? parseFloat(row.location_confidence) : undefined,
+      geocoder: row.location_source || undefined
     },
     metadata: row.metadata,
     source: row.source,
     status: row.status,
+    acknowledged_at: row.acknowledged_at || undefined,
+    acknowledged_by: row.acknowledged_by || undefined,
+    escalation_level: row.escalation_level || 0,
+    incident_id: row.incident_id || undefined,
+    affected_area: parseArea(row.affected_area),
     created_at: row.created_at,
     updated_at: row.updated_at
   };
@@ -272,6 +431,49 @@ router.get('/:id', authenticate, requireScopes(['alert.read', 'admin.read']), as
   });
 }));
 
+/**
+ * Acknowledge an alert, stopping further escalation
+ * POST /api/alerts/:id/acknowledge
+ */
+router.post('/:id/acknowledge', [
+  body('note').optional().isString().isLength({ max: 1000 }).withMessage('Note must be at most 1000 characters')
+], authenticate, requireScopes(['alert.write']), asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError('Validation failed', errors.array());
+  }
+
+  const acknowledgement = await alertEscalator.acknowledge(
+    req.params.id,
+    req.auth!.userId || req.auth!.claims.sub,
+    req.body.note
+  );
+
+  res.json({
+    success: true,
+    data: acknowledgement,
+    message: 'Alert acknowledged; escalation stopped',
+    timestamp: new Date().toISOString()
+  });
+}));
+
+/**
+ * Get the escalation history of an alert
+ * GET /api/alerts/:id/escalations
+ */
+router.get('/:id/escalations', authenticate, requireScopes(['alert.read']), asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const escalations = await alertEscalator.listEscalations(req.params.id);
+
+  res.json({
+    success: true,
+    data: {
+      alert_id: req.params.id,
+      escalations
+    },
+    timestamp: new Date().toISOString()
+  });
+}));
+
 /**
  * Update alert status
  * PATCH /api/alerts/:id/status
@@ -293,6 +495,11 @@ router.patch('/:id/status', [
     throw new NotFoundError(`Alert with ID ${id} not found`);
   }
 
+  // A draft only goes live through verification; it can still be cancelled
+  if (existingAlert.rows[0].status === 'draft' && status !== 'cancelled') {
+    throw new CrisisAssistError(`Alert ${id} is an unverified draft`, 'ALERT_NOT_VERIFIED', 409);
+  }
+
   // Update status
   await query('UPDATE alerts SET status = $1, updated_at = NOW() WHERE id = $2', [status, id]);
 
@@ -392,4 +599,122 @@ router.get('/stats', authenticate, requireScopes(['alert.read', 'admin.read']),
   });
 }));
 
-module.exports = router;
\ No newline at end of file
+const EXPORT_COLUMNS = `id, type, severity, title, description, location_address, location_lat, location_lng, location_confidence,
+  metadata, source, status, incident_id, affected_area, created_at, updated_at`;
+
+/**
+ * WHERE clause for the list filters, shared by the list and export endpoints. Unverified
+ * drafts are only listed when asked for by status.
+ */
+function alertListFilters(filters: Record<string, any>): { whereClause: string; params: any[] } {
+  let whereClause = filters.status ? 'WHERE 1=1' : `WHERE status <> 'draft'`;
+  const params: any[] = [];
+
+  (['status', 'type', 'severity'] as const).forEach(field => {
+    if (filters[field]) {
+      params.push(filters[field]);
+      whereClause += ` AND ${field} = $${params.length}`;
+    }
+  });
+
+  return { whereClause, params };
+}
+
+async function listAlertsForExport(filters: Record<string, any>): Promise<Alert[]> {
+  const page = parseInt(filters.page as string) || 1;
+  const limit = Math.min(parseInt(filters.limit as string) || 50, 500);
+  const { whereClause, params } = alertListFilters(filters);
+
+  // Drafts are never published
+  const result = await query(`
+    SELECT ${EXPORT_COLUMNS}
+    FROM alerts
+    ${whereClause} AND status <> 'draft'
+    ORDER BY created_at DESC
+    LIMIT $${params.length + 1} OFFSET $${params.length + 2}
+  `, [...params, limit, (page - 1) * limit]);
+
+  return result.rows.map(toExportAlert);
+}
+
+function toExportAlert(row: any): Alert {
+  return {
+    id: row.id,
+    type: row.type,
+    severity: row.severity,
+    title: row.title,
+    description: row.description,
+    location: {
+      address: row.location_address,
+      coordinates: row.location_lat && row.location_lng ? {
+        lat: parseFloat(row.location_lat),
+        lng: parseFloat(row.location_lng)
+      } : undefined,
+      confidence: row.location_confidence != null ? parseFloat(row.location_confidence) : undefined
+    },
+    metadata: typeof row.metadata === 'string' ? JSON.parse(row.metadata) : row.metadata || undefined,
+    source: row.source,
+    status: row.status,
+    incident_id: row.incident_id || undefined,
+    affected_area: parseArea(row.affected_area),
+    created_at: row.created_at,
+    updated_at: row.updated_at
+  };
+}
+
+function exportOptions(req: AuthenticatedRequest): AlertExportOptions {
+  return {
+    base_url: (process.env.API_BASE_URL || `${req.protocol}://${req.get('host')}`).replace(/\/$/, ''),
+    sender: process.env.CAP_SENDER || 'alerts@crisisassist.ai'
+  };
+}
+
+/**
+ * Send an export with a strong ETag over the body, answering If-None-Match with 304
+ */
+function sendExport(req: AuthenticatedRequest, res: Response, contentType: string, body: string, alerts: Alert[]) {
+  const lastModified = alerts.reduce((latest, alert) => Math.max(latest, new Date(alert.updated_at).getTime()), 0);
+
+  res.set({
+    'Content-Type': contentType,
+    ETag: `"${crypto.createHash('sha256').update(body).digest('base64url')}"`,
+    'Cache-Control': 'private, no-cache'
+  });
+  if (lastModified > 0) {
+    res.set('Last-Modified', new Date(lastModified).toUTCString());
+  }
+
+  if (req.fresh) {
+    res.status(304).end();
+    return;
+  }
+  res.send(body);
+}
+
+function parseArea(value: any): AffectedArea | undefined {
+  if (!value) {
+    return undefined;
+  }
+  return typeof value === 'string' ? JSON.parse(value) : value;
+}
+
+function toAreaAlert(row: any) {
+  return {
+    id: row.id,
+    type: row.type,
+    severity: row.severity,
+    title: row.title,
+    location: {
+      address: row.location_address,
+      coordinates: row.location_lat && row.location_lng ? {
+        lat: parseFloat(row.location_lat),
+        lng: parseFloat(row.location_lng)
+      } : null
+    },
+    affected_area: parseArea(row.affected_area),
+    status: row.status,
+    created_at: row.created_at
+  };
+}
+
+module.exports = router;
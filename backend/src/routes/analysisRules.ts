@@ -0,0 +1,188 @@
+import { Router, Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import { requireScopes } from '../middleware/auth';
+import { asyncHandler } from '../middleware/errorHandler';
+import { AnalysisRule, AuthenticatedRequest, NotFoundError, ValidationError } from '../types';
+import { analysisRuleRegistry, evaluateAnalysisRules, validateAnalysisRules } from '../agents/AnalysisRuleRegistry';
+
+const router = Router();
+
+const parseVersion = (value: string): number => {
+  const version = parseInt(value, 10);
+  if (!Number.isInteger(version) || version < 0 || String(version) !== value) {
+    throw new ValidationError('Version must be a non-negative integer');
+  }
+  return version;
+};
+
+/**
+ * The rule set alerts are currently analysed with
+ * GET /api/analysis-rules
+ */
+router.get('/',
+  requireScopes(['admin.read']),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    res.json({
+      success: true,
+      data: await analysisRuleRegistry.current(),
+      timestamp: new Date().toISOString()
+    });
+  })
+);
+
+/**
+ * Published versions, newest first
+ * GET /api/analysis-rules/versions
+ */
+router.get('/versions',
+  requireScopes(['admin.read']),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    res.json({
+      success: true,
+      data: { versions: await analysisRuleRegistry.listVersions() },
+      timestamp: new Date().toISOString()
+    });
+  })
+);
+
+/**
+ * Get a published version; version 0 is the built-in rule set
+ * GET /api/analysis-rules/versions/:version
+ */
+router.get('/versions/:version',
+  requireScopes(['admin.read']),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const ruleSet = await analysisRuleRegistry.getVersion(parseVersion(req.params.version));
+    if (!ruleSet) {
+      throw new NotFoundError(`Analysis rules version ${req.params.version} not found`);
+    }
+
+    res.json({
+      success: true,
+      data: ruleSet,
+      timestamp: new Date().toISOString()
+    });
+  })
+);
+
+/**
+ * Publish a rule set as a new version
+ * POST /api/analysis-rules
+ * { "rules": [...], "description": "Raise flood risk near the river", "activate": true }
+ */
+router.post('/',
+  requireScopes(['admin.write']),
+  [
+    body('rules').isArray({ min: 1 }),
+    body('description').optional().isLength({ max: 1000 }),
+    body('activate').optional().isBoolean()
+  ],
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new ValidationError('Validation failed', errors.array());
+    }
+
+    const ruleSet = await analysisRuleRegistry.publish(req.body.rules, {
+      description: req.body.description,
+      activate: req.body.activate
+    }, req.auth!.userId!);
+
+    res.status(201).json({
+      success: true,
+      data: ruleSet,
+      message: `Analysis rules version ${ruleSet.version} published${ruleSet.active ? ' and activated' : ''}`,
+      timestamp: new Date().toISOString()
+    });
+  })
+);
+
+/**
+ * Make a version the active one (an older version rolls back; 0 returns to the built-ins)
+ * POST /api/analysis-rules/versions/:version/activate
+ */
+router.post('/versions/:version/activate',
+  requireScopes(['admin.write']),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const ruleSet = await analysisRuleRegistry.activate(parseVersion(req.params.version), req.auth!.userId!);
+
+    res.json({
+      success: true,
+      data: ruleSet,
+      message: `Analysis rules version ${ruleSet.version} is active`,
+      timestamp: new Date().toISOString()
+    });
+  })
+);
+
+/**
+ * Re-read the rules from their file or the database now instead of at the next refresh
+ * POST /api/analysis-rules/reload
+ */
+router.post('/reload',
+  requireScopes(['admin.write']),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const ruleSet = await analysisRuleRegistry.reload();
+
+    res.json({
+      success: true,
+      data: { version: ruleSet.version, source: ruleSet.source, rules: ruleSet.rules.length },
+      timestamp: new Date().toISOString()
+    });
+  })
+);
+
+/**
+ * Evaluate a sample alert against candidate rules (or a version, or the active set) without
+ * publishing anything. The outcome's trace shows which rules matched and in what order.
+ * POST /api/analysis-rules/evaluate
+ * { "alert": { "type": "flood", "severity": "high", "location": { "address": "Indore" } }, "rules": [...] }
+ */
+router.post('/evaluate',
+  requireScopes(['admin.read']),
+  [
+    body('alert').isObject(),
+    body('alert.type').isString(),
+    body('alert.severity').isIn(['low', 'medium', 'high', 'critical']),
+    body('rules').optional().isArray({ min: 1 }),
+    body('version').optional().isInt({ min: 0 }),
+    body('risk_level').optional().isIn(['low', 'medium', 'high', 'critical'])
+  ],
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new ValidationError('Validation failed', errors.array());
+    }
+
+    const { alert, rules, version, risk_level } = req.body;
+    let ruleSet: { version?: number; source: string; rules: AnalysisRule[] };
+    if (rules) {
+      const ruleErrors = validateAnalysisRules(rules);
+      if (ruleErrors.length > 0) {
+        throw new ValidationError('Invalid analysis rules', ruleErrors.slice(0, 50));
+      }
+      ruleSet = { source: 'candidate', rules };
+    } else if (version !== undefined) {
+      const stored = await analysisRuleRegistry.getVersion(parseInt(version, 10));
+      if (!stored) {
+        throw new NotFoundError(`Analysis rules version ${version} not found`);
+      }
+      ruleSet = stored;
+    } else {
+      ruleSet = await analysisRuleRegistry.current();
+    }
+
+    const outcome = evaluateAnalysisRules(ruleSet.rules, alert, { risk_level, trace: true });
+
+    res.json({
+      success: true,
+      data: {
+        rules: { version: ruleSet.version, source: ruleSet.source, count: ruleSet.rules.length },
+        outcome
+      },
+      timestamp: new Date().toISOString()
+    });
+  })
+);
+
+module.exports = router;
@@ -0,0 +1,72 @@
+import express, { Router, Response } from 'express';
+import { authenticateToken, requireScopes } from '../middleware/auth';
+import { asyncHandler } from '../middleware/errorHandler';
+import { AuthenticatedRequest, ValidationError } from '../types';
+import { capIngestor } from '../agents/CapIngestor';
+
+const router = Router();
+
+const capXmlBody = express.text({ type: ['application/cap+xml', 'application/xml', 'text/xml'], limit: '2mb' });
+
+/**
+ * Ingest a CAP 1.2 message. Send the XML as the body (Content-Type application/cap+xml or
+ * application/xml), or as the "xml" field of a JSON body.
+ * POST /api/cap/alerts
+ */
+router.post('/alerts',
+  authenticateToken,
+  requireScopes(['alert.write']),
+  capXmlBody,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const xml = typeof req.body === 'string' ? req.body : req.body?.xml;
+    if (typeof xml !== 'string' || xml.trim() === '') {
+      throw new ValidationError('A CAP XML document is required');
+    }
+
+    const result = await capIngestor.ingest(xml, req.auth!);
+
+    res.status(result.action === 'created' ? 201 : 200).json({
+      success: true,
+      data: result,
+      message: result.reason || `CAP ${result.msg_type} ${result.action} ${result.alert_ids.length} alert(s)`,
+      timestamp: new Date().toISOString()
+    });
+  })
+);
+
+/**
+ * Configured CAP feeds and their polling state
+ * GET /api/cap/feeds
+ */
+router.get('/feeds',
+  authenticateToken,
+  requireScopes(['admin.read']),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    res.json({
+      success: true,
+      data: capIngestor.getFeedStatus(),
+      timestamp: new Date().toISOString()
+    });
+  })
+);
+
+/**
+ * Poll every configured CAP feed now
+ * POST /api/cap/feeds/poll
+ */
+router.post('/feeds/poll',
+  authenticateToken,
+  requireScopes(['admin.execute']),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const result = await capIngestor.pollFeeds();
+
+    res.json({
+      success: true,
+      data: result,
+      message: `Polled ${result.polled} feed(s), ${result.ingested.filter(item => item.action === 'created').length} new alert(s)`,
+      timestamp: new Date().toISOString()
+    });
+  })
+);
+
+module.exports = router;
@@ -0,0 +1,119 @@
+import { Router, Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import { requireScopes } from '../middleware/auth';
+import { asyncHandler } from '../middleware/errorHandler';
+import { AuthenticatedRequest, CitizenReport, NotFoundError, ValidationError } from '../types';
+import { citizenReportIntake, maskPhoneNumber } from '../agents/CitizenReportIntake';
+
+const router = Router();
+
+/**
+ * Reports as operators see them: the sender's number is masked as it is in the logs
+ */
+function presentReport(report: CitizenReport): CitizenReport {
+  return { ...report, from_number: maskPhoneNumber(report.from_number) };
+}
+
+/**
+ * List citizen reports, newest first
+ * GET /api/citizen-reports?status=unverified&type=flood&limit=50
+ */
+router.get('/',
+  requireScopes(['alert.read']),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const reports = await citizenReportIntake.list({
+      status: req.query.status as CitizenReport['status'] | undefined,
+      type: req.query.type as string | undefined,
+      limit: parseInt(req.query.limit as string) || undefined
+    });
+
+    res.json({
+      success: true,
+      data: { reports: reports.map(presentReport) },
+      timestamp: new Date().toISOString()
+    });
+  })
+);
+
+/**
+ * Get a citizen report by the reference the sender was given
+ * GET /api/citizen-reports/:reference
+ */
+router.get('/:reference',
+  requireScopes(['alert.read']),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const report = await citizenReportIntake.get(req.params.reference);
+    if (!report) {
+      throw new NotFoundError(`Citizen report ${req.params.reference} not found`);
+    }
+
+    res.json({
+      success: true,
+      data: presentReport(report),
+      timestamp: new Date().toISOString()
+    });
+  })
+);
+
+/**
+ * Verify a pending or unverified report again, optionally with a corrected location.
+ * A verified report's draft alert goes live.
+ * POST /api/citizen-reports/:reference/verify
+ * { "location": { "address": "Vijay Nagar, Indore", "lat": 22.7533, "lng": 75.8937 } }
+ */
+router.post('/:reference/verify',
+  requireScopes(['alert.write']),
+  [
+    body('location').optional().isObject(),
+    body('location.address').if(body('location').exists()).isLength({ min: 1, max: 500 }),
+    body('location.lat').if(body('location').exists()).isFloat({ min: -90, max: 90 }),
+    body('location.lng').if(body('location').exists()).isFloat({ min: -180, max: 180 })
+  ],
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new ValidationError('Validation failed', errors.array());
+    }
+
+    const { location } = req.body;
+    const report = await citizenReportIntake.verify(req.params.reference, {
+      location: location ? { address: location.address, lat: parseFloat(location.lat), lng: parseFloat(location.lng) } : undefined,
+      userId: req.auth!.userId
+    });
+
+    res.json({
+      success: true,
+      data: presentReport(report),
+      message: report.status === 'verified'
+        ? `Report verified; alert ${report.alert_id} is active`
+        : 'Report did not pass verification; its alert remains a draft',
+      timestamp: new Date().toISOString()
+    });
+  })
+);
+
+/**
+ * Reject a report; its draft alert is cancelled
+ * POST /api/citizen-reports/:reference/reject
+ */
+router.post('/:reference/reject',
+  requireScopes(['alert.write']),
+  [body('reason').optional().isLength({ max: 1000 })],
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new ValidationError('Validation failed', errors.array());
+    }
+
+    const report = await citizenReportIntake.reject(req.params.reference, req.auth!.userId!, req.body.reason);
+
+    res.json({
+      success: true,
+      data: presentReport(report),
+      message: 'Report rejected',
+      timestamp: new Date().toISOString()
+    });
+  })
+);
+
+module.exports = router;
@@ -0,0 +1,109 @@
+import { Router, Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import { authenticateToken, requireScopes } from '../middleware/auth';
+import { asyncHandler } from '../middleware/errorHandler';
+import { AuthenticatedRequest, DeadLetterTask, NotFoundError, ValidationError } from '../types';
+import { deadLetterQueue } from '../agents/DeadLetterQueue';
+import { agentOrchestrator } from '../agents/AgentOrchestrator';
+
+const router = Router();
+
+/**
+ * List dead-lettered agent tasks
+ * GET /api/dead-letters?status=pending&workflow_id=...&agent_type=...
+ */
+router.get('/',
+  authenticateToken,
+  requireScopes(['admin.read']),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const tasks = await deadLetterQueue.list({
+      status: req.query.status as DeadLetterTask['status'] | undefined,
+      workflow_id: req.query.workflow_id as string | undefined,
+      agent_type: req.query.agent_type as string | undefined,
+      limit: parseInt(req.query.limit as string) || 50
+    });
+
+    res.json({
+      success: true,
+      data: { tasks },
+      timestamp: new Date().toISOString()
+    });
+  })
+);
+
+/**
+ * Get a dead-lettered task with its re-drive history
+ * GET /api/dead-letters/:taskId
+ */
+router.get('/:taskId',
+  authenticateToken,
+  requireScopes(['admin.read']),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const task = await deadLetterQueue.get(req.params.taskId);
+    if (!task) {
+      throw new NotFoundError(`Dead-letter task ${req.params.taskId} not found`);
+    }
+
+    res.json({
+      success: true,
+      data: {
+        task,
+        redrives: await deadLetterQueue.listRedrives(task.id)
+      },
+      timestamp: new Date().toISOString()
+    });
+  })
+);
+
+/**
+ * Edit a pending task's input before re-driving it, or discard it
+ * PATCH /api/dead-letters/:taskId
+ */
+router.patch('/:taskId',
+  authenticateToken,
+  requireScopes(['admin.execute']),
+  [
+    body('input').optional().isObject().withMessage('Input must be an object'),
+    body('status').optional().isIn(['discarded']).withMessage('Status can only be set to discarded')
+  ],
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new ValidationError('Validation failed', errors.array());
+    }
+    if (req.body.input === undefined && req.body.status === undefined) {
+      throw new ValidationError('input or status is required');
+    }
+
+    const task = await deadLetterQueue.update(req.params.taskId, { input: req.body.input, status: req.body.status }, req.auth!.userId!);
+
+    res.json({
+      success: true,
+      data: task,
+      timestamp: new Date().toISOString()
+    });
+  })
+);
+
+/**
+ * Re-drive a pending task against its agent
+ * POST /api/dead-letters/:taskId/redrive
+ */
+router.post('/:taskId/redrive',
+  authenticateToken,
+  requireScopes(['admin.execute']),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const result = await agentOrchestrator.redriveDeadLetter(req.params.taskId, req.auth!.userId!);
+
+    res.json({
+      success: result.redrive.status === 'succeeded',
+      data: result,
+      message: result.redrive.status === 'succeeded'
+        ? `Task re-driven successfully for workflow ${result.task.workflow_id}`
+        : `Re-drive failed: ${result.redrive.error}`,
+      timestamp: new Date().toISOString()
+    });
+  })
+);
+
+module.exports = router;
@@ -0,0 +1,89 @@
+import { Router, Response } from 'express';
+import { query as queryParam, validationResult } from 'express-validator';
+import { authenticateToken, requireScopes } from '../middleware/auth';
+import { asyncHandler } from '../middleware/errorHandler';
+import { AuthenticatedRequest, ValidationError } from '../types';
+import { gazetteer } from '../utils/gazetteer';
+
+const router = Router();
+
+/**
+ * Look up an address in the offline gazetteer
+ * GET /api/geocode?q=Vijay Nagar, Indore&limit=5
+ */
+router.get('/',
+  authenticateToken,
+  requireScopes(['alert.read']),
+  [
+    queryParam('q').isLength({ min: 1, max: 500 }).withMessage('q is required'),
+    queryParam('limit').optional().isInt({ min: 1, max: 20 })
+  ],
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new ValidationError('Validation failed', errors.array());
+    }
+
+    const matches = gazetteer.search(req.query.q as string, parseInt(req.query.limit as string) || 5);
+
+    res.json({
+      success: true,
+      data: {
+        query: req.query.q,
+        matches: matches.map(match => ({
+          name: match.entry.name,
+          type: match.entry.type,
+          formatted_address: match.formatted_address,
+          lat: match.entry.lat,
+          lng: match.entry.lng,
+          confidence: match.confidence,
+          similarity: match.similarity
+        }))
+      },
+      timestamp: new Date().toISOString()
+    });
+  })
+);
+
+/**
+ * Nearest gazetteer place to a point
+ * GET /api/geocode/reverse?lat=22.75&lng=75.89&max_distance_km=50
+ */
+router.get('/reverse',
+  authenticateToken,
+  requireScopes(['alert.read']),
+  [
+    queryParam('lat').isFloat({ min: -90, max: 90 }),
+    queryParam('lng').isFloat({ min: -180, max: 180 }),
+    queryParam('max_distance_km').optional().isFloat({ min: 0.1, max: 500 })
+  ],
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new ValidationError('Validation failed', errors.array());
+    }
+
+    const match = gazetteer.reverse(
+      parseFloat(req.query.lat as string),
+      parseFloat(req.query.lng as string),
+      parseFloat(req.query.max_distance_km as string) || undefined
+    );
+
+    res.json({
+      success: true,
+      data: match ? {
+        name: match.entry.name,
+        type: match.entry.type,
+        formatted_address: match.formatted_address,
+        lat: match.entry.lat,
+        lng: match.entry.lng,
+        distance_km: match.distance_km,
+        confidence: match.confidence
+      } : null,
+      message: match ? undefined : 'No known place within range',
+      timestamp: new Date().toISOString()
+    });
+  })
+);
+
+module.exports = router;
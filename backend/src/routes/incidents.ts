@@ -0,0 +1,181 @@
+import { Router, Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import { authenticateToken, requireScopes } from '../middleware/auth';
+import { asyncHandler } from '../middleware/errorHandler';
+import { AuthenticatedRequest, Incident, ValidationError } from '../types';
+import { incidentManager } from '../agents/IncidentManager';
+
+const router = Router();
+
+/**
+ * List incidents
+ * GET /api/incidents?status=open
+ */
+router.get('/',
+  authenticateToken,
+  requireScopes(['incident.read']),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const incidents = await incidentManager.list({
+      status: req.query.status as Incident['status'] | undefined,
+      limit: parseInt(req.query.limit as string) || 50
+    });
+
+    res.json({
+      success: true,
+      data: { incidents },
+      timestamp: new Date().toISOString()
+    });
+  })
+);
+
+/**
+ * Get an incident with its alerts, events and messages
+ * GET /api/incidents/:incidentId
+ */
+router.get('/:incidentId',
+  authenticateToken,
+  requireScopes(['incident.read']),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const details = await incidentManager.getDetails(req.params.incidentId);
+
+    res.json({
+      success: true,
+      data: details,
+      timestamp: new Date().toISOString()
+    });
+  })
+);
+
+/**
+ * Create an incident
+ * POST /api/incidents
+ */
+router.post('/',
+  authenticateToken,
+  requireScopes(['incident.write']),
+  [
+    body('title').isString().isLength({ min: 1, max: 500 }).withMessage('Title is required (max 500 characters)'),
+    body('summary').optional().isString(),
+    body('commander_id').optional().isString(),
+    body('alert_ids').optional().isArray().withMessage('Alert IDs must be an array')
+  ],
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new ValidationError('Validation failed', errors.array());
+    }
+
+    const { title, summary, commander_id, alert_ids } = req.body;
+    const incident = await incidentManager.create({ title, summary, commander_id, alert_ids }, req.auth!.userId!);
+
+    res.status(201).json({
+      success: true,
+      data: incident,
+      message: `Incident created with ${incident.alert_ids.length} alert(s)`,
+      timestamp: new Date().toISOString()
+    });
+  })
+);
+
+/**
+ * Update an incident's title, summary, commander or lifecycle status
+ * PATCH /api/incidents/:incidentId
+ */
+router.patch('/:incidentId',
+  authenticateToken,
+  requireScopes(['incident.write']),
+  [
+    body('title').optional().isString().isLength({ min: 1, max: 500 }),
+    body('summary').optional().isString(),
+    body('commander_id').optional().isString(),
+    body('status').optional().isIn(['open', 'monitoring', 'resolved', 'closed']).withMessage('Status must be open, monitoring, resolved or closed')
+  ],
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new ValidationError('Validation failed', errors.array());
+    }
+
+    const { title, summary, commander_id, status } = req.body;
+    const incident = await incidentManager.update(req.params.incidentId, { title, summary, commander_id, status }, req.auth!.userId!);
+
+    res.json({
+      success: true,
+      data: incident,
+      timestamp: new Date().toISOString()
+    });
+  })
+);
+
+/**
+ * Merge alerts, or whole incidents, into an incident
+ * POST /api/incidents/:incidentId/merge
+ */
+router.post('/:incidentId/merge',
+  authenticateToken,
+  requireScopes(['incident.write']),
+  [
+    body('alert_ids').optional().isArray().withMessage('Alert IDs must be an array'),
+    body('incident_ids').optional().isArray().withMessage('Incident IDs must be an array')
+  ],
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new ValidationError('Validation failed', errors.array());
+    }
+
+    const { alert_ids = [], incident_ids = [] } = req.body;
+    if (alert_ids.length === 0 && incident_ids.length === 0) {
+      throw new ValidationError('alert_ids or incident_ids is required');
+    }
+
+    const incident = await incidentManager.merge(req.params.incidentId, { alert_ids, incident_ids }, req.auth!.userId!);
+
+    res.json({
+      success: true,
+      data: incident,
+      message: `Merged ${alert_ids.length} alert(s) and ${incident_ids.length} incident(s)`,
+      timestamp: new Date().toISOString()
+    });
+  })
+);
+
+/**
+ * Split alerts out of an incident, into a new incident unless create_incident is false
+ * POST /api/incidents/:incidentId/split
+ */
+router.post('/:incidentId/split',
+  authenticateToken,
+  requireScopes(['incident.write']),
+  [
+    body('alert_ids').isArray({ min: 1 }).withMessage('At least one alert ID is required'),
+    body('create_incident').optional().isBoolean(),
+    body('title').optional().isString().isLength({ min: 1, max: 500 }),
+    body('summary').optional().isString(),
+    body('commander_id').optional().isString()
+  ],
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new ValidationError('Validation failed', errors.array());
+    }
+
+    const { alert_ids, create_incident, title, summary, commander_id } = req.body;
+    const result = await incidentManager.split(
+      req.params.incidentId,
+      { alert_ids, create_incident, title, summary, commander_id },
+      req.auth!.userId!
+    );
+
+    res.status(result.new_incident ? 201 : 200).json({
+      success: true,
+      data: result,
+      message: result.new_incident
+        ? `Split ${alert_ids.length} alert(s) into incident ${result.new_incident.id}`
+        : `Detached ${alert_ids.length} alert(s) from the incident`,
+      timestamp: new Date().toISOString()
+    });
+  })
+);
+
+module.exports = router;
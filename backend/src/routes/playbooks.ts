@@ -0,0 +1,192 @@
+import { Router, Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import { authenticateToken, requireScopes } from '../middleware/auth';
+import { asyncHandler } from '../middleware/errorHandler';
+import { AuthenticatedRequest, CrisisAssistError, NotFoundError, ResponsePlaybook, ValidationError } from '../types';
+import { agentOrchestrator as orchestrator } from '../agents/AgentOrchestrator';
+import { playbookRegistry, BUILT_IN_PLAYBOOKS } from '../agents/PlaybookRegistry';
+
+const router = Router();
+
+const playbookValidation = [
+  body('name').isString().withMessage('Playbook name is required'),
+  body('alert_types').isArray().withMessage('Alert types must be an array'),
+  body('severities').isArray().withMessage('Severities must be an array'),
+  body('recipients').isObject().withMessage('Recipients must map channels to recipient lists'),
+  body('steps').optional().isArray({ min: 1 }).withMessage('Steps must be a non-empty array'),
+  body('message_templates').optional().isObject().withMessage('Message templates must be an object'),
+  body('escalation_rules').optional().isArray().withMessage('Escalation rules must be an array'),
+  body('enabled').optional().isBoolean().withMessage('Enabled must be boolean')
+];
+
+const toPlaybook = (id: string, body: any): ResponsePlaybook => ({
+  id,
+  name: body.name,
+  description: body.description,
+  version: 1,
+  alert_types: body.alert_types,
+  severities: body.severities,
+  steps: body.steps,
+  recipients: body.recipients,
+  event_type: body.event_type,
+  message_templates: body.message_templates,
+  escalation_rules: body.escalation_rules,
+  enabled: body.enabled !== undefined ? body.enabled : true
+});
+
+/**
+ * List response playbooks
+ * GET /api/playbooks
+ */
+router.get('/',
+  authenticateToken,
+  requireScopes(['workflow.read']),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const playbooks = await playbookRegistry.list();
+
+    res.json({
+      success: true,
+      data: {
+        playbooks: playbooks.map(playbook => ({
+          id: playbook.id,
+          name: playbook.name,
+          description: playbook.description,
+          version: playbook.version,
+          alert_types: playbook.alert_types,
+          severities: playbook.severities,
+          enabled: playbook.enabled,
+          built_in: !playbook.created_by && BUILT_IN_PLAYBOOKS.some(builtIn => builtIn.id === playbook.id),
+          updated_at: playbook.updated_at
+        }))
+      },
+      timestamp: new Date().toISOString()
+    });
+  })
+);
+
+/**
+ * Show which playbook an alert of the given type and severity would run
+ * GET /api/playbooks/match?type=flood&severity=high
+ */
+router.get('/match',
+  authenticateToken,
+  requireScopes(['workflow.read']),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { type, severity } = req.query as { type?: string; severity?: string };
+    if (!type || !severity) {
+      throw new ValidationError('type and severity query parameters are required');
+    }
+
+    const playbook = await playbookRegistry.match(type, severity);
+
+    res.json({
+      success: true,
+      data: playbook,
+      message: playbook ? undefined : 'No playbook matches; the built-in emergency workflow would run',
+      timestamp: new Date().toISOString()
+    });
+  })
+);
+
+/**
+ * Get a response playbook
+ * GET /api/playbooks/:playbookId
+ */
+router.get('/:playbookId',
+  authenticateToken,
+  requireScopes(['workflow.read']),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const playbook = await playbookRegistry.get(req.params.playbookId);
+
+    if (!playbook) {
+      throw new NotFoundError(`Playbook ${req.params.playbookId} not found`);
+    }
+
+    res.json({
+      success: true,
+      data: playbook,
+      timestamp: new Date().toISOString()
+    });
+  })
+);
+
+/**
+ * Create a response playbook
+ * POST /api/playbooks
+ */
+router.post('/',
+  authenticateToken,
+  requireScopes(['workflow.write']),
+  [body('id').isString().withMessage('Playbook ID is required'), ...playbookValidation],
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new ValidationError('Validation failed', errors.array());
+    }
+
+    if (await playbookRegistry.get(req.body.id)) {
+      throw new CrisisAssistError(`Playbook ${req.body.id} already exists; update it instead`, 'PLAYBOOK_EXISTS', 409);
+    }
+
+    const playbook = await orchestrator.savePlaybook(toPlaybook(req.body.id, req.body), req.auth!.userId!);
+
+    res.status(201).json({
+      success: true,
+      data: playbook,
+      message: `Playbook ${playbook.id} created`,
+      timestamp: new Date().toISOString()
+    });
+  })
+);
+
+/**
+ * Replace a response playbook (or override a built-in one)
+ * PUT /api/playbooks/:playbookId
+ */
+router.put('/:playbookId',
+  authenticateToken,
+  requireScopes(['workflow.write']),
+  playbookValidation,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new ValidationError('Validation failed', errors.array());
+    }
+
+    if (!(await playbookRegistry.get(req.params.playbookId))) {
+      throw new NotFoundError(`Playbook ${req.params.playbookId} not found`);
+    }
+
+    const playbook = await orchestrator.savePlaybook(toPlaybook(req.params.playbookId, req.body), req.auth!.userId!);
+
+    res.json({
+      success: true,
+      data: playbook,
+      message: `Playbook ${playbook.id} updated (version ${playbook.version})`,
+      timestamp: new Date().toISOString()
+    });
+  })
+);
+
+/**
+ * Delete a response playbook
+ * DELETE /api/playbooks/:playbookId
+ */
+router.delete('/:playbookId',
+  authenticateToken,
+  requireScopes(['workflow.write']),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const result = await playbookRegistry.remove(req.params.playbookId, req.auth!.userId!);
+
+    res.json({
+      success: true,
+      data: { id: req.params.playbookId, ...result },
+      message: result.restored_built_in
+        ? `Playbook ${req.params.playbookId} override deleted; the disabled built-in example is restored`
+        : `Playbook ${req.params.playbookId} deleted`,
+      timestamp: new Date().toISOString()
+    });
+  })
+);
+
+module.exports = router;
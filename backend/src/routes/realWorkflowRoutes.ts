@@ -4,6 +4,7 @@ import { VerifierAgent } from '../agents/VerifierAgent';
 import { SchedulerAgent } from '../agents/SchedulerAgent';
 import { NotifierAgent } from '../agents/NotifierAgent';
 import { authenticateToken } from '../middleware/auth';
+import { idempotency } from '../middleware/idempotency';
 import { logger } from '../utils/logger';
 
 const router = express.Router();
@@ -17,8 +18,9 @@ const notifierAgent = new NotifierAgent();
 /**
  * 🚨 REAL CRISIS WORKFLOW - All agents working together
  * This endpoint demonstrates the complete crisis response workflow
+ * Supports the Idempotency-Key header so a retried request does not create a second alert or re-send SMS
  */
-router.post('/crisis-response/execute', authenticateToken, async (req, res) => {
+router.post('/crisis-response/execute', authenticateToken, idempotency, async (req, res) => {
   const startTime = Date.now();
   
   try {
@@ -64,6 +66,33 @@ router.post('/crisis-response/execute', authenticateToken, async (req, res) => {
       processing_time: Date.now() - stepStartTime
     });
 
+    // A near-duplicate of an alert already being handled joins its incident; the response for
+    // that incident is already under way, so nobody is verified, scheduled or notified again
+    if (alertResult.correlation) {
+      workflowResult.status = 'correlated';
+      workflowResult.total_processing_time = Date.now() - startTime;
+
+      logger.info('Crisis report correlated with an existing incident; skipping the response workflow', {
+        workflowId: workflowResult.workflow_id,
+        alertId: alertResult.alert_id,
+        incidentId: alertResult.correlation.incident_id
+      });
+
+      return res.json({
+        success: true,
+        message: `Report matched active alert ${alertResult.correlation.matched_alert_id} and was attached to incident ${alertResult.correlation.incident_id}`,
+        workflow: workflowResult,
+        correlation: alertResult.correlation,
+        summary: {
+          crisis_detected: true,
+          alert_created: true,
+          correlated: true,
+          notifications_sent: false,
+          workflow_success: true
+        }
+      });
+    }
+
     // STEP 2: 🔍 VerifierAgent - Verify the alert content
     logger.info('STEP 2: VerifierAgent verifying alert content...');
     const verifyStartTime = Date.now();
@@ -72,7 +101,9 @@ router.post('/crisis-response/execute', authenticateToken, async (req, res) => {
       content_type: 'alert',
       content: {
         ...crisisData,
-        alert_id: alertResult.alert_id
+        alert_id: alertResult.alert_id,
+        location_confidence: alertResult.location.confidence,
+        location_source: alertResult.location.source
       },
       verification_rules: ['misinformation_detection', 'source_verification', 'location_validation', 'urgency_validation']
     }, req.auth!);
@@ -204,7 +235,8 @@ router.post('/crisis-response/execute', authenticateToken, async (req, res) => {
       real_work_performed: {
         alert_agent: {
           crisis_detected: true,
-          location_geocoded: true,
+          location_geocoded: alertResult.location.source !== 'default',
+          location_confidence: alertResult.location.confidence,
           database_record_created: true,
           slack_notification_sent: true,
           sms_alerts_sent: true
@@ -0,0 +1,174 @@
+import { Router, Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import { authenticateToken, requireScopes } from '../middleware/auth';
+import { asyncHandler } from '../middleware/errorHandler';
+import { AuthenticatedRequest, NotFoundError, Sensor, ValidationError } from '../types';
+import { sensorMonitor } from '../agents/SensorMonitor';
+
+const router = Router();
+
+/**
+ * Submit a batch of readings. Sensors authenticate with their own API key rather than a user token.
+ * POST /api/sensors/:sensorId/readings
+ * X-Sensor-Key: <key from registration>
+ * { "readings": [{ "recorded_at": "...", "values": { "temperature": 450, "smoke_density": 0.9 } }] }
+ */
+router.post('/:sensorId/readings',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const sensor = await sensorMonitor.authenticate(req.params.sensorId, req.header('X-Sensor-Key'));
+    const result = await sensorMonitor.ingest(sensor, req.body?.readings);
+
+    res.status(202).json({
+      success: true,
+      data: result,
+      message: result.alert
+        ? result.alert.status === 'created'
+          ? `Alert ${result.alert.alert_id} raised`
+          : `Alert suppressed; alert ${result.alert.alert_id} is still open`
+        : `${result.accepted} reading(s) accepted`,
+      timestamp: new Date().toISOString()
+    });
+  })
+);
+
+const sensorValidation = (optional: boolean) => {
+  const field = (name: string) => (optional ? body(name).optional() : body(name));
+  return [
+    field('name').isLength({ min: 1, max: 255 }),
+    field('alert_type').isLength({ min: 1, max: 100 }),
+    field('location').isObject(),
+    body('location.address').if(body('location').exists()).isLength({ min: 1, max: 500 }),
+    body('location.lat').if(body('location').exists()).isFloat({ min: -90, max: 90 }),
+    body('location.lng').if(body('location').exists()).isFloat({ min: -180, max: 180 }),
+    body('rules').optional().isArray({ max: 50 })
+  ];
+};
+
+/**
+ * Register a sensor. The response holds its API key, which is not shown again.
+ * POST /api/sensors
+ */
+router.post('/',
+  authenticateToken,
+  requireScopes(['sensor.write']),
+  [body('id').isString(), ...sensorValidation(false)],
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new ValidationError('Validation failed', errors.array());
+    }
+
+    const { id, name, alert_type, location, rules } = req.body;
+    const result = await sensorMonitor.register({
+      id,
+      name,
+      alert_type,
+      location: { address: location.address, lat: parseFloat(location.lat), lng: parseFloat(location.lng) },
+      rules
+    }, req.auth!.userId!);
+
+    res.status(201).json({
+      success: true,
+      data: result,
+      message: 'Sensor registered. Store the API key now; it cannot be retrieved later.',
+      timestamp: new Date().toISOString()
+    });
+  })
+);
+
+/**
+ * List sensors
+ * GET /api/sensors?status=active&alert_type=fire
+ */
+router.get('/',
+  authenticateToken,
+  requireScopes(['sensor.read']),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const sensors = await sensorMonitor.list({
+      status: req.query.status as Sensor['status'] | undefined,
+      alert_type: req.query.alert_type as string | undefined
+    });
+
+    res.json({
+      success: true,
+      data: { sensors },
+      timestamp: new Date().toISOString()
+    });
+  })
+);
+
+/**
+ * Get a sensor with its latest readings
+ * GET /api/sensors/:sensorId
+ */
+router.get('/:sensorId',
+  authenticateToken,
+  requireScopes(['sensor.read']),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const sensor = await sensorMonitor.get(req.params.sensorId);
+    if (!sensor) {
+      throw new NotFoundError(`Sensor ${req.params.sensorId} not found`);
+    }
+
+    res.json({
+      success: true,
+      data: {
+        sensor,
+        recent_readings: await sensorMonitor.recentReadings(sensor.id, parseInt(req.query.limit as string) || 100)
+      },
+      timestamp: new Date().toISOString()
+    });
+  })
+);
+
+/**
+ * Change a sensor's name, location, rules or status
+ * PATCH /api/sensors/:sensorId
+ */
+router.patch('/:sensorId',
+  authenticateToken,
+  requireScopes(['sensor.write']),
+  [...sensorValidation(true), body('status').optional().isIn(['active', 'disabled'])],
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new ValidationError('Validation failed', errors.array());
+    }
+
+    const { name, alert_type, location, rules, status } = req.body;
+    const sensor = await sensorMonitor.update(req.params.sensorId, {
+      name,
+      alert_type,
+      location: location ? { address: location.address, lat: parseFloat(location.lat), lng: parseFloat(location.lng) } : undefined,
+      rules,
+      status
+    }, req.auth!.userId!);
+
+    res.json({
+      success: true,
+      data: sensor,
+      timestamp: new Date().toISOString()
+    });
+  })
+);
+
+/**
+ * Issue a new API key; the old one stops working immediately
+ * POST /api/sensors/:sensorId/rotate-key
+ */
+router.post('/:sensorId/rotate-key',
+  authenticateToken,
+  requireScopes(['sensor.write']),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const result = await sensorMonitor.rotateKey(req.params.sensorId, req.auth!.userId!);
+
+    res.json({
+      success: true,
+      data: result,
+      message: 'API key rotated. Store the new key now; it cannot be retrieved later.',
+      timestamp: new Date().toISOString()
+    });
+  })
+);
+
+module.exports = router;
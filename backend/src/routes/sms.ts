@@ -0,0 +1,49 @@
+import { Router, Request, Response } from 'express';
+import { asyncHandler } from '../middleware/errorHandler';
+import { AuthorizationError } from '../types';
+import { logger } from '../utils/logger';
+import { twilioService } from '../utils/twilio';
+import { escapeXml } from '../utils/xml';
+import { citizenReportIntake } from '../agents/CitizenReportIntake';
+
+const router = Router();
+
+/**
+ * The URL Twilio signed. Behind a proxy the request URL we see differs from the one configured
+ * in Twilio, so a public base URL can be set.
+ */
+function webhookUrl(req: Request): string {
+  const base = process.env.TWILIO_WEBHOOK_BASE_URL || process.env.API_BASE_URL || `${req.protocol}://${req.get('host')}`;
+  return `${base.replace(/\/$/, '')}${req.originalUrl}`;
+}
+
+function twiml(res: Response, message: string | null) {
+  res.type('text/xml').send(
+    `<?xml version="1.0" encoding="UTF-8"?>\n<Response>${message ? `<Message>${escapeXml(message)}</Message>` : ''}</Response>`
+  );
+}
+
+/**
+ * Twilio inbound SMS webhook. Citizens text reports ("FLOOD Vijay Nagar") and get their report
+ * reference back in the reply. Requests must carry a valid X-Twilio-Signature.
+ * POST /api/sms/inbound
+ */
+router.post('/inbound',
+  asyncHandler(async (req: Request, res: Response) => {
+    if (process.env.TWILIO_VALIDATE_WEBHOOKS === 'false') {
+      logger.warn('Twilio webhook signature check is disabled (TWILIO_VALIDATE_WEBHOOKS=false)');
+    } else if (!twilioService.validateWebhookSignature(req.header('X-Twilio-Signature'), webhookUrl(req), req.body || {})) {
+      throw new AuthorizationError('Invalid Twilio signature');
+    }
+
+    const result = await citizenReportIntake.receiveSms({
+      message_sid: req.body?.MessageSid,
+      from: req.body?.From,
+      body: req.body?.Body
+    });
+
+    twiml(res, result.reply);
+  })
+);
+
+module.exports = router;
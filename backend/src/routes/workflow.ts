@@ -4,12 +4,16 @@ import { v4 as uuidv4 } from 'uuid';
 import { query } from '../database/connection';
 import { authenticateToken, requireScopes } from '../middleware/auth';
 import { asyncHandler } from '../middleware/errorHandler';
-import { AuthenticatedRequest, ValidationError } from '../types';
+import { idempotency } from '../middleware/idempotency';
+import { AuthenticatedRequest, CrisisAssistError, ValidationError, NotFoundError } from '../types';
 import { logger } from '../utils/logger';
-import { AgentOrchestrator } from '../agents/AgentOrchestrator';
+import { agentOrchestrator as orchestrator } from '../agents/AgentOrchestrator';
+import { workflowRegistry } from '../agents/WorkflowRegistry';
+import { workflowExecutionStore } from '../agents/WorkflowExecutionStore';
+import { approvalGate } from '../agents/ApprovalGate';
+import { deadLetterQueue } from '../agents/DeadLetterQueue';
 
 const router = Router();
-const orchestrator = new AgentOrchestrator();
 
 /**
  * Execute emergency response workflow
@@ -20,14 +24,21 @@ const orchestrator = new AgentOrchestrator();
  * - Scoped access control for each agent
  * - Delegated consent for user-facing actions
  * - Complete audit trail of inter-agent communications
+ *
+ * Send an Idempotency-Key header to make retries safe: a retry replays the original response.
+ * When every work queue slot is busy the run is queued and the response is a 202 with its
+ * workflow_id; follow it with GET /api/workflow/:workflowId.
  */
 router.post('/emergency', 
   authenticateToken,
   requireScopes(['workflow.execute']),
+  idempotency,
   [
     body('alert_id').isUUID().withMessage('Valid alert ID is required'),
     body('consent_granted').isBoolean().withMessage('Consent status must be boolean'),
-    body('requested_actions').isArray().optional().withMessage('Requested actions must be an array')
+    body('requested_actions').isArray().optional().withMessage('Requested actions must be an array'),
+    body('workflow_definition_id').optional().isString().withMessage('Workflow definition ID must be a string'),
+    body('playbook_id').optional().isString().withMessage('Playbook ID must be a string')
   ],
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const errors = validationResult(req);
@@ -35,14 +46,16 @@ router.post('/emergency',
       throw new ValidationError('Validation failed', errors.array());
     }
 
-    const { alert_id, consent_granted, requested_actions = [] } = req.body;
+    const { alert_id, consent_granted, requested_actions = [], workflow_definition_id, playbook_id } = req.body;
     const workflowId = uuidv4();
+    let queued = false;
 
     try {
       // Fetch alert data
       const alertResult = await query(`
         SELECT id, type, severity, title, description, location_address, 
-               location_lat, location_lng, metadata, created_at, status
+               location_lat, location_lng, location_confidence, location_source, affected_area,
+               metadata, created_at, status
         FROM alerts 
         WHERE id = $1
       `, [alert_id]);
@@ -60,13 +73,27 @@ router.post('/emergency',
 
       const alertData = alertResult.rows[0];
 
+      // Citizen reports stay drafts until the verifier has passed them
+      if (alertData.status === 'draft') {
+        return res.status(409).json({
+          success: false,
+          error: {
+            code: 'ALERT_NOT_VERIFIED',
+            message: 'Alert is an unverified draft and cannot start a workflow'
+          },
+          timestamp: new Date().toISOString()
+        });
+      }
+
       // Create workflow request
       const workflowRequest = {
         workflow_id: workflowId,
         user_id: req.auth!.userId,
         alert_data: alertData,
         consent_granted,
-        requested_actions
+        requested_actions,
+        definition_id: workflow_definition_id,
+        playbook_id
       };
 
       logger.info(`Starting emergency workflow: ${workflowId}`, {
@@ -78,44 +105,42 @@ router.post('/emergency',
       });
 
       // Execute the multi-agent workflow
-      const workflowResult = await orchestrator.executeEmergencyWorkflow(
-        workflowRequest,
-        req.auth!
-      );
+      const workflowResult = await orchestrator.executeEmergencyWorkflow(workflowRequest, req.auth!, {
+        onQueued: depth => {
+          queued = true;
+          res.status(202).json({
+            success: true,
+            data: { workflow_id: workflowId, status: 'queued', queue_depth: depth },
+            message: 'All workflow slots are busy; the workflow is queued and will start when one frees up',
+            timestamp: new Date().toISOString()
+          });
+        }
+      });
 
-      // Store workflow result in database
-      await query(`
-        INSERT INTO workflow_executions (id, user_id, workflow_type, alert_id, 
-                                       request_data, result_data, status, 
-                                       execution_time, created_at)
-        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
-      `, [
-        workflowId,
-        req.auth!.userId,
-        'emergency_response',
-        alert_id,
-        JSON.stringify(workflowRequest),
-        JSON.stringify(workflowResult),
-        workflowResult.status,
-        workflowResult.execution_time,
-        new Date()
-      ]);
+      // Execution state and result are persisted by the orchestrator as the workflow runs;
+      // a queued run was already answered with a 202
+      if (queued) {
+        return;
+      }
 
       res.json({
         success: true,
         data: {
           workflow_id: workflowId,
+          workflow_definition: {
+            id: workflowResult.definition_id,
+            version: workflowResult.definition_version
+          },
+          playbook: workflowResult.playbook,
           status: workflowResult.status,
           execution_time: workflowResult.execution_time,
           agents_involved: Object.keys(workflowResult.agent_results),
           communications_count: workflowResult.communications.length,
           consent_validations: workflowResult.consent_validations,
-          results: {
-            alert_processing: workflowResult.agent_results.alert_processing,
-            content_verification: workflowResult.agent_results.content_verification,
-            scheduling: workflowResult.agent_results.scheduling,
-            notifications: workflowResult.agent_results.notifications
-          },
+          results: workflowResult.agent_results,
+          branch_timings: workflowResult.branch_timings,
+          compensations: workflowResult.compensations,
+          policy_decisions: workflowResult.policy_decisions,
           security_audit: {
             agent_communications: workflowResult.communications.map(comm => ({
               from: comm.from_agent,
@@ -132,11 +157,15 @@ router.post('/emergency',
 
     } catch (error) {
       logger.error(`Emergency workflow failed: ${workflowId}`, error);
-      
-      res.status(500).json({
+      if (queued) {
+        return;
+      }
+
+      // Unknown playbooks or definitions, invalid input and cancellations keep their own status
+      res.status(error instanceof CrisisAssistError ? error.statusCode : 500).json({
         success: false,
         error: {
-          code: 'WORKFLOW_EXECUTION_FAILED',
+          code: error instanceof CrisisAssistError ? error.code : 'WORKFLOW_EXECUTION_FAILED',
           message: error instanceof Error ? error.message : 'Workflow execution failed',
           workflow_id: workflowId
         },
@@ -146,6 +175,206 @@ router.post('/emergency',
   })
 );
 
+/**
+ * Plan an emergency workflow without executing it (dry run)
+ * POST /api/workflow/emergency/plan
+ *
+ * Returns the agents, scopes and tokens, recipients, rendered messages and events the
+ * workflow would produce. Nothing is sent, scheduled or persisted.
+ */
+router.post('/emergency/plan',
+  authenticateToken,
+  requireScopes(['workflow.read']),
+  [
+    body('alert_id').optional().isUUID().withMessage('Alert ID must be a UUID'),
+    body('alert').optional().isObject().withMessage('Alert must be an object'),
+    body('alert.type').if(body('alert').exists()).isIn(['flood', 'fire', 'earthquake', 'storm', 'medical', 'security']),
+    body('alert.severity').if(body('alert').exists()).isIn(['low', 'medium', 'high', 'critical']),
+    body('alert.title').if(body('alert').exists()).isLength({ min: 1, max: 500 }),
+    body('consent_granted').isBoolean().withMessage('Consent status must be boolean'),
+    body('requested_actions').isArray().optional().withMessage('Requested actions must be an array'),
+    body('workflow_definition_id').optional().isString().withMessage('Workflow definition ID must be a string'),
+    body('playbook_id').optional().isString().withMessage('Playbook ID must be a string')
+  ],
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new ValidationError('Validation failed', errors.array());
+    }
+
+    const { alert_id, alert, consent_granted, requested_actions = [], workflow_definition_id, playbook_id } = req.body;
+    if (!alert_id && !alert) {
+      throw new ValidationError('Either alert_id or alert is required');
+    }
+
+    let alertData = alert ? { id: 'dry_run_alert', status: 'active', ...alert } : null;
+    if (alert_id) {
+      const alertResult = await query(`
+        SELECT id, type, severity, title, description, location_address, 
+               location_lat, location_lng, location_confidence, location_source, affected_area,
+               metadata, created_at, status
+        FROM alerts 
+        WHERE id = $1
+      `, [alert_id]);
+
+      if (alertResult.rows.length === 0) {
+        throw new NotFoundError(`Alert with ID ${alert_id} not found`);
+      }
+      alertData = alertResult.rows[0];
+    }
+
+    const plan = await orchestrator.planEmergencyWorkflow({
+      user_id: req.auth!.userId!,
+      alert_data: alertData,
+      consent_granted,
+      requested_actions,
+      definition_id: workflow_definition_id,
+      playbook_id
+    });
+
+    res.json({
+      success: true,
+      data: plan,
+      message: 'Dry run only: no messages were sent and nothing was scheduled or stored',
+      timestamp: new Date().toISOString()
+    });
+  })
+);
+
+/**
+ * List workflow definitions
+ * GET /api/workflow/definitions
+ */
+router.get('/definitions',
+  authenticateToken,
+  requireScopes(['workflow.read']),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const definitions = await workflowRegistry.list();
+
+    res.json({
+      success: true,
+      data: {
+        definitions: definitions.map(definition => ({
+          id: definition.id,
+          name: definition.name,
+          description: definition.description,
+          version: definition.version,
+          steps_count: definition.steps.length,
+          updated_at: definition.updated_at
+        })),
+        supported_actions: orchestrator.getSupportedActions()
+      },
+      timestamp: new Date().toISOString()
+    });
+  })
+);
+
+/**
+ * Get a workflow definition
+ * GET /api/workflow/definitions/:definitionId
+ */
+router.get('/definitions/:definitionId',
+  authenticateToken,
+  requireScopes(['workflow.read']),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const definition = await workflowRegistry.get(req.params.definitionId);
+
+    if (!definition) {
+      throw new NotFoundError(`Workflow definition ${req.params.definitionId} not found`);
+    }
+
+    res.json({
+      success: true,
+      data: definition,
+      timestamp: new Date().toISOString()
+    });
+  })
+);
+
+/**
+ * Register or update a workflow definition
+ * POST /api/workflow/definitions
+ */
+router.post('/definitions',
+  authenticateToken,
+  requireScopes(['workflow.write']),
+  [
+    body('id').isString().withMessage('Workflow definition ID is required'),
+    body('name').isString().withMessage('Workflow name is required'),
+    body('steps').isArray({ min: 1 }).withMessage('At least one step is required')
+  ],
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new ValidationError('Validation failed', errors.array());
+    }
+
+    const { id, name, description, steps } = req.body;
+    const definition = await orchestrator.registerWorkflowDefinition(
+      { id, name, description, version: 1, steps },
+      req.auth!.userId!
+    );
+
+    res.status(201).json({
+      success: true,
+      data: definition,
+      message: `Workflow definition ${definition.id} registered (version ${definition.version})`,
+      timestamp: new Date().toISOString()
+    });
+  })
+);
+
+/**
+ * List pending approval requests the current user may decide
+ * GET /api/workflow/approvals/pending
+ */
+router.get('/approvals/pending',
+  authenticateToken,
+  requireScopes(['workflow.approve']),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const approvals = await approvalGate.listPending(req.auth!.userId);
+
+    res.json({
+      success: true,
+      data: { approvals },
+      timestamp: new Date().toISOString()
+    });
+  })
+);
+
+/**
+ * Approve or reject a pending approval step
+ * POST /api/workflow/approvals/:approvalId/decision
+ */
+router.post('/approvals/:approvalId/decision',
+  authenticateToken,
+  requireScopes(['workflow.approve']),
+  [
+    body('decision').isIn(['approve', 'reject']).withMessage('Decision must be approve or reject'),
+    body('justification').isString().trim().isLength({ min: 3, max: 2000 }).withMessage('A justification is required')
+  ],
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new ValidationError('Validation failed', errors.array());
+    }
+
+    const approval = await approvalGate.decide(
+      req.params.approvalId,
+      req.body.decision === 'approve' ? 'approved' : 'rejected',
+      req.auth!.userId!,
+      req.body.justification
+    );
+
+    res.json({
+      success: true,
+      data: approval,
+      message: `Workflow step ${approval.step_id} ${approval.status}`,
+      timestamp: new Date().toISOString()
+    });
+  })
+);
+
 /**
  * Get workflow execution status
  * GET /api/workflow/:workflowId
@@ -156,14 +385,9 @@ router.get('/:workflowId',
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const { workflowId } = req.params;
 
-    const result = await query(`
-      SELECT id, user_id, workflow_type, alert_id, request_data, 
-             result_data, status, execution_time, created_at
-      FROM workflow_executions 
-      WHERE id = $1 AND user_id = $2
-    `, [workflowId, req.auth!.userId]);
+    const workflow = await workflowExecutionStore.get(workflowId);
 
-    if (result.rows.length === 0) {
+    if (!workflow || workflow.user_id !== req.auth!.userId) {
       return res.status(404).json({
         success: false,
         error: {
@@ -174,24 +398,113 @@ router.get('/:workflowId',
       });
     }
 
-    const workflow = result.rows[0];
-
     res.json({
       success: true,
       data: {
         workflow_id: workflow.id,
-        workflow_type: workflow.workflow_type,
+        workflow_type: workflow.definition_id,
+        workflow_version: workflow.definition_version,
         alert_id: workflow.alert_id,
         status: workflow.status,
+        current_step: workflow.current_step,
+        steps: workflow.steps,
+        error: workflow.error,
         execution_time: workflow.execution_time,
         created_at: workflow.created_at,
-        result_summary: JSON.parse(workflow.result_data)
+        updated_at: workflow.updated_at,
+        result_summary: workflow.result_data,
+        dead_letters: (await deadLetterQueue.list({ workflow_id: workflowId })).map(task => ({
+          id: task.id,
+          step_id: task.step_id,
+          status: task.status,
+          error: task.error,
+          redrive_count: task.redrive_count
+        }))
       },
       timestamp: new Date().toISOString()
     });
   })
 );
 
+/**
+ * Ensure a workflow execution exists and belongs to the requesting user
+ */
+async function requireOwnedExecution(workflowId: string, userId?: string) {
+  const execution = await workflowExecutionStore.get(workflowId);
+  if (!execution || execution.user_id !== userId) {
+    throw new NotFoundError(`Workflow ${workflowId} not found`);
+  }
+  return execution;
+}
+
+/**
+ * Cancel a running or paused workflow
+ * POST /api/workflow/:workflowId/cancel
+ */
+router.post('/:workflowId/cancel',
+  authenticateToken,
+  requireScopes(['workflow.execute']),
+  [
+    body('reason').optional().isString().isLength({ max: 500 }).withMessage('Reason must be a string of at most 500 characters')
+  ],
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new ValidationError('Validation failed', errors.array());
+    }
+
+    await requireOwnedExecution(req.params.workflowId, req.auth!.userId);
+    const result = await orchestrator.cancelWorkflow(req.params.workflowId, req.auth!.userId!, req.body.reason);
+
+    res.status(202).json({
+      success: true,
+      data: result,
+      message: 'Workflow cancellation requested. In-flight steps are stopping and completed steps will be compensated.',
+      timestamp: new Date().toISOString()
+    });
+  })
+);
+
+/**
+ * Pause a running workflow
+ * POST /api/workflow/:workflowId/pause
+ */
+router.post('/:workflowId/pause',
+  authenticateToken,
+  requireScopes(['workflow.execute']),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    await requireOwnedExecution(req.params.workflowId, req.auth!.userId);
+    const result = await orchestrator.pauseWorkflow(req.params.workflowId, req.auth!.userId!);
+
+    res.json({
+      success: true,
+      data: result,
+      message: 'Workflow paused. Steps already running will finish; no new steps will start.',
+      timestamp: new Date().toISOString()
+    });
+  })
+);
+
+/**
+ * Resume a paused workflow
+ * POST /api/workflow/:workflowId/resume
+ */
+router.post('/:workflowId/resume',
+  authenticateToken,
+  requireScopes(['workflow.execute']),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    await requireOwnedExecution(req.params.workflowId, req.auth!.userId);
+    const result = await orchestrator.resumeWorkflow(req.params.workflowId, req.auth!.userId!);
+
+    res.json({
+      success: true,
+      data: result,
+      message: 'Workflow resumed',
+      timestamp: new Date().toISOString()
+    });
+  })
+);
+
 /**
  * List user's workflow executions
  * GET /api/workflow
@@ -203,7 +516,7 @@ router.get('/',
     const { limit = 10, offset = 0 } = req.query;
 
     const result = await query(`
-      SELECT id, workflow_type, alert_id, status, execution_time, created_at
+      SELECT id, workflow_type, alert_id, status, current_step, execution_time, created_at, updated_at
       FROM workflow_executions 
       WHERE user_id = $1
       ORDER BY created_at DESC
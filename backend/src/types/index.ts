@@ -46,18 +46,60 @@ export interface Alert {
       lat: number;
       lng: number;
     };
+    confidence?: number; // How sure geocoding was of the coordinates (0-1)
+    geocoder?: GeocodeResult['source'];
   };
   metadata?: Record<string, any>;
   source: string;
   created_at: Date;
   updated_at: Date;
-  status: 'active' | 'processing' | 'resolved' | 'cancelled';
+  status: 'draft' | 'active' | 'processing' | 'resolved' | 'cancelled'; // Drafts await verification and cannot start workflows
+  acknowledged_at?: Date;
+  acknowledged_by?: string;
+  escalation_level?: number; // Escalation tiers applied while unacknowledged
+  incident_id?: string;
+  affected_area?: AffectedArea;
+}
+
+// Geocoding Types
+export interface GeocodeResult {
+  address: string;
+  lat: number;
+  lng: number;
+  formatted_address: string;
+  confidence: number; // 0-1; 0 means the coordinates are a placeholder, not a location
+  source: 'provided' | 'geoapify' | 'gazetteer' | 'default';
+  matched_place?: string; // Gazetteer entry the address matched
+}
+
+// Area an alert covers. Positions are GeoJSON [lng, lat]; Circle is not GeoJSON but follows its layout.
+export type AffectedArea =
+  | { type: 'Polygon'; coordinates: number[][][] }
+  | { type: 'MultiPolygon'; coordinates: number[][][][] }
+  | { type: 'Circle'; coordinates: [number, number]; radius_m: number };
+
+// Incident Types (related alerts handled as one response)
+export interface Incident {
+  id: string;
+  title: string;
+  summary?: string;
+  status: 'open' | 'monitoring' | 'resolved' | 'closed' | 'merged';
+  severity: Alert['severity']; // Highest severity among linked alerts
+  commander_id?: string; // User leading the response
+  merged_into?: string; // Set when status is "merged"
+  alert_ids: string[];
+  created_by: string;
+  created_at: Date;
+  updated_at: Date;
+  resolved_at?: Date;
+  closed_at?: Date;
 }
 
 // Event Types (Calendar/Scheduling)
 export interface Event {
   id: string;
   alert_id: string;
+  incident_id?: string;
   title: string;
   description: string;
   start_time: Date;
@@ -76,6 +118,7 @@ export interface Message {
   id: string;
   event_id?: string;
   alert_id?: string;
+  incident_id?: string;
   channel_type: 'slack' | 'sms' | 'email' | 'whatsapp';
   channel_id: string;
   recipient: string;
@@ -109,7 +152,7 @@ export interface AuditLog {
 export interface Agent {
   id: string;
   name: string;
-  type: 'alert' | 'scheduler' | 'notifier' | 'verifier';
+  type: string; // Name the agent is registered under in the agent registry
   description: string;
   allowed_scopes: string[];
   public_key?: string;
@@ -234,28 +277,352 @@ export interface DatabaseConfig {
 export interface WorkflowStep {
   id: string;
   name: string;
-  agent_type: string;
+  type?: 'agent' | 'approval' | 'risk_gate'; // Approval and risk gate steps are run by the orchestrator; agent_type and action are unused
+  agent_type?: string; // Omit to run on any registered agent that offers `capability`
+  capability?: string;
+  action: string;
   required_scopes: string[];
   input_schema: Record<string, any>;
   output_schema: Record<string, any>;
   timeout_ms: number;
+  depends_on?: string[];
+  input?: Record<string, any>; // String values starting with "$." are resolved against the workflow context
+  condition?: string; // Context path that must be truthy for the step to run
+  idempotent?: boolean; // Safe to re-run if the process restarted while the step was running
+  join?: {
+    policy: 'all' | 'any' | 'quorum'; // How many dependencies must complete before the step runs
+    quorum?: number;
+  };
+  retry?: WorkflowRetryPolicy;
+  compensation?: WorkflowCompensation; // Undoes the step's side effects if the workflow fails or is cancelled
+  approval?: {
+    approvers?: string[]; // User IDs allowed to decide; any user with workflow.approve when empty
+    prompt?: string;
+    slack_channel?: string;
+    default_outcome: 'approved' | 'rejected'; // Applied when nobody decides within timeout_ms
+  };
+  risk_policy?: RiskPolicyConfig; // Risk gate thresholds; the built-in policy applies when omitted
+  delegation?: {
+    consent_id: string;
+  };
+}
+
+export interface WorkflowRetryPolicy {
+  max_attempts: number;
+  initial_delay_ms?: number;
+  max_delay_ms?: number;
+  backoff_multiplier?: number;
+  retryable_errors?: string[]; // Error class names, e.g. ExternalServiceError or TimeoutError
+}
+
+export interface WorkflowCompensation {
+  agent_type: string;
+  action: string;
+  required_scopes: string[];
+  input?: Record<string, any>; // Resolved like step input; "$.output" is the compensated step's output and "$.reason" why it is undone
+}
+
+export interface RiskPolicyRule {
+  alert_types?: string[]; // Matches every type when omitted
+  severities?: string[]; // Matches every severity when omitted
+  block_above?: number; // Risk score thresholds between 0 and 1
+  manual_review_above?: number;
+  internal_only_above?: number;
+  when_unverified?: 'allow' | 'internal_only' | 'manual_review' | 'block';
+}
+
+export interface RiskPolicyConfig {
+  rules: RiskPolicyRule[]; // First rule matching the alert's type and severity applies
+  internal_channels?: string[];
+  reviewers?: string[];
+  review_default_outcome?: 'approved' | 'rejected';
+}
+
+export interface RiskDecision {
+  decision: 'allow' | 'internal_only' | 'manual_review' | 'block';
+  reasons: string[];
+  risk_score: number;
+  verified: boolean;
+  alert_type: string;
+  severity: string;
+  rule_applied: RiskPolicyRule;
+  requested_channels: string[];
+  allowed_channels: string[];
+  broadcast_allowed: boolean;
+  review?: {
+    approval_id: string;
+    outcome: 'approved' | 'rejected';
+    decided_by: string;
+    justification: string;
+    timed_out: boolean;
+  };
+}
+
+export interface WorkflowDefinition {
+  id: string;
+  name: string;
+  description?: string;
+  version: number;
+  steps: WorkflowStep[];
+  created_by?: string;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export interface WorkflowStepExecution {
+  step_id: string;
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
+  started_at?: Date;
+  completed_at?: Date;
+  input?: Record<string, any>;
+  output?: Record<string, any>;
+  error?: string;
+  attempts?: WorkflowStepAttempt[];
+  compensation?: {
+    status: 'completed' | 'failed';
+    started_at: Date;
+    completed_at: Date;
+    output?: Record<string, any>;
+    error?: string;
+  };
+}
+
+export interface WorkflowStepAttempt {
+  attempt: number;
+  started_at: Date;
+  completed_at: Date;
+  duration_ms: number;
+  status: 'succeeded' | 'failed';
+  error?: string;
+  error_type?: string;
+  retry_delay_ms?: number; // Set when another attempt was scheduled
+}
+
+export interface WorkflowApproval {
+  id: string;
+  workflow_id: string;
+  step_id: string;
+  prompt: string;
+  approvers: string[];
+  status: 'pending' | 'approved' | 'rejected' | 'timed_out' | 'cancelled';
+  default_outcome: 'approved' | 'rejected';
+  requested_by: string;
+  decided_by?: string;
+  justification?: string;
+  requested_at: Date;
+  decided_at?: Date;
+  expires_at: Date;
 }
 
 export interface WorkflowExecution {
   id: string;
   workflow_id: string;
+  definition_id: string;
+  definition_version: number;
+  user_id: string;
   alert_id: string;
-  status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+  status: 'pending' | 'queued' | 'running' | 'paused' | 'awaiting_approval' | 'completed' | 'failed' | 'partial' | 'cancelled';
   current_step: number;
-  steps: Array<{
-    step_id: string;
-    status: 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
-    started_at?: Date;
-    completed_at?: Date;
-    input?: Record<string, any>;
-    output?: Record<string, any>;
-    error?: string;
-  }>;
+  steps: WorkflowStepExecution[];
+  request_data?: Record<string, any>;
+  result_data?: Record<string, any>;
+  error?: string;
+  execution_time?: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Dead-letter Types (agent tasks that failed after all retries)
+export interface DeadLetterTask {
+  id: string;
+  workflow_id: string;
+  step_id: string;
+  agent_type: string;
+  action: string;
+  input: Record<string, any>;
+  required_scopes: string[];
+  consent_id?: string; // Set for delegated steps
+  error: string;
+  error_type?: string;
+  attempts: WorkflowStepAttempt[];
+  auth_context: DeadLetterAuthContext;
+  status: 'pending' | 'redriving' | 'resolved' | 'discarded';
+  redrive_count: number;
+  last_error?: string;
+  edited_by?: string;
+  resolved_by?: string;
+  created_at: Date;
+  updated_at: Date;
+  resolved_at?: Date;
+}
+
+// Who the task ran as; tokens are never stored
+export interface DeadLetterAuthContext {
+  subject: string;
+  user_id?: string;
+  agent_id?: string;
+  agent_type?: string;
+  scopes: string[];
+  delegation?: DescopeJWTClaims['delegation'];
+}
+
+export interface DeadLetterRedrive {
+  id: string;
+  dead_letter_id: string;
+  workflow_id: string;
+  step_id: string;
+  attempted_by: string;
+  input: Record<string, any>;
+  status: 'succeeded' | 'failed';
+  output?: Record<string, any>;
+  error?: string;
+  duration_ms: number;
+  attempted_at: Date;
+}
+
+// Response Playbook Types
+export interface ResponsePlaybook {
+  id: string;
+  name: string;
+  description?: string;
+  version: number;
+  alert_types: Alert['type'][]; // Empty matches every type
+  severities: Alert['severity'][]; // Empty matches every severity
+  steps?: WorkflowStep[]; // Defaults to the built-in emergency response steps
+  recipients: Record<string, string[]>; // Channel -> recipients
+  event_type?: 'relief_camp' | 'evacuation' | 'medical_response' | 'fire_suppression' | 'search_rescue';
+  message_templates?: Record<string, PlaybookMessageTemplate>; // Channel (or "default") -> template
+  escalation_rules?: PlaybookEscalationRule[];
+  enabled: boolean;
+  created_by?: string;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export interface PlaybookMessageTemplate {
+  subject?: string;
+  content: string; // {{alert.title}}-style placeholders over alert, analysis and verification
+}
+
+export interface PlaybookEscalationRule {
+  after_minutes: number; // Minutes without acknowledgement before this tier applies
+  channels: string[];
+  recipients?: Record<string, string[]>; // Extra recipients for this tier, by channel
+  raise_severity_to?: Alert['severity'];
+}
+
+// Sensor Types (telemetry sources that raise alerts when their rules fire)
+export interface Sensor {
+  id: string; // Device identifier, e.g. FIRE_SENSOR_001
+  name: string;
+  alert_type: string; // Type of the alerts it raises
+  location: {
+    address: string;
+    lat: number;
+    lng: number;
+  };
+  rules: SensorRule[];
+  status: 'active' | 'disabled';
+  open_alert_id?: string; // Last alert raised; further alerts are suppressed while it is open
+  suppressed_count: number;
+  last_reading_at?: Date;
+  last_alert_at?: Date;
+  created_by?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface SensorRule {
+  id: string;
+  kind: 'threshold' | 'rate_of_change' | 'count_in_window';
+  metric: string;
+  operator?: '>' | '>=' | '<' | '<='; // threshold, count_in_window
+  value?: number; // threshold, count_in_window
+  change_per_minute?: number; // rate_of_change
+  direction?: 'rise' | 'fall' | 'any'; // rate_of_change, defaults to rise
+  window_minutes?: number; // rate_of_change, count_in_window
+  count?: number; // count_in_window: readings past the value needed within the window
+  severity?: Alert['severity']; // Defaults to high
+  description?: string;
+}
+
+export interface SensorReading {
+  recorded_at?: string; // Defaults to when the batch was received
+  values: Record<string, number>; // Metric -> value, e.g. { temperature: 450, smoke_density: 0.8 }
+}
+
+export interface PopulationExposure {
+  total: number; // People living in the area, from the population grid
+  dataset: string;
+  area: 'circle' | 'polygon';
+  radius_m?: number; // Circle radius; for alerts with only a point this is the default exposure radius
+  coverage: number; // Share of the area the grid covers (0-1); below 1 the total is an undercount
+  rings: Array<{ from_km: number; to_km?: number; population: number }>; // By distance from the alert location
+  densest_cells: Array<{ lat: number; lng: number; population: number }>; // Where most people are, for siting relief camps
+}
+
+export interface AnalysisRuleCondition {
+  // Dotted path into the alert: type, severity, title, description, source, location_address,
+  // location (with lat, lng, confidence, source), metadata.<key>, or risk_level as set by earlier rules
+  field: string;
+  operator: 'eq' | 'neq' | 'in' | 'not_in' | 'gt' | 'gte' | 'lt' | 'lte' | 'contains' | 'matches' | 'exists' | 'within_km';
+  value?: any; // within_km: { lat, lng, radius_km }; matches: a case-insensitive RE2 pattern (no lookaround or backreferences)
+}
+
+export interface AnalysisRule {
+  id: string;
+  description?: string;
+  when?: { all?: AnalysisRuleCondition[]; any?: AnalysisRuleCondition[] }; // Omitted: always applies
+  then: {
+    risk_level?: 'low' | 'medium' | 'high' | 'critical'; // Highest of the matching rules wins
+    affected_population?: number; // Base estimate; highest of the matching rules wins
+    population_multiplier?: number; // Multipliers of all matching rules apply
+    resources?: string[];
+    actions?: string[];
+    next_steps?: Partial<AnalysisRuleOutcome['next_steps']>; // Later rules override earlier ones
+  };
+  stop?: boolean; // Skip the remaining rules when this one matches
+}
+
+export interface AnalysisRuleSet {
+  version: number;
+  source: 'built_in' | 'database' | 'file';
+  description?: string;
+  rules: AnalysisRule[];
+  active?: boolean;
+  created_by?: string;
+  created_at?: Date;
+}
+
+export interface AnalysisRuleOutcome {
+  risk_level: 'low' | 'medium' | 'high' | 'critical';
+  affected_population: number;
+  required_resources: string[];
+  recommended_actions: string[];
+  next_steps: {
+    schedule_relief: boolean;
+    notify_authorities: boolean;
+    evacuate_area: boolean;
+  };
+  matched_rules: string[];
+  trace?: Array<{ rule_id: string; matched: boolean; risk_level_before?: string }>; // Every rule checked, in order
+}
+
+export interface CitizenReport {
+  reference: string; // Quoted back to the sender, e.g. CR-7K2M9Q
+  message_sid: string; // Twilio message id; retried webhooks carry the same one
+  from_number: string;
+  body: string;
+  type: string;
+  severity: Alert['severity'];
+  place?: string; // Place text taken from the message, geocoded with the draft alert
+  keyword?: string; // Set when the message used the "FLOOD <place>" format
+  status: 'pending' | 'verified' | 'unverified' | 'rejected';
+  alert_id?: string; // Draft alert, activated once the report is verified
+  verification_id?: string;
+  risk_score?: number;
+  verification_errors: string[];
+  reviewed_by?: string;
   created_at: Date;
   updated_at: Date;
 }
@@ -308,4 +675,18 @@ export class ExternalServiceError extends CrisisAssistError {
     super(message, 'EXTERNAL_SERVICE_ERROR', 502, details);
     this.name = 'ExternalServiceError';
   }
-}
\ No newline at end of file
+}
+
+export class TimeoutError extends CrisisAssistError {
+  constructor(message: string = 'Operation timed out', details?: any) {
+    super(message, 'TIMEOUT_ERROR', 504, details);
+    this.name = 'TimeoutError';
+  }
+}
+
+export class CancellationError extends CrisisAssistError {
+  constructor(message: string = 'Operation cancelled', details?: any) {
+    super(message, 'CANCELLED', 409, details);
+    this.name = 'CancellationError';
+  }
+}
@@ -0,0 +1,197 @@
+import { AffectedArea, Alert } from '../types';
+import { CAP_NAMESPACES } from './cap';
+import { circleToPolygon } from './geo';
+import { escapeXml } from './xml';
+
+export interface AlertExportOptions {
+  base_url: string; // Public API origin used in links
+  sender: string; // CAP <sender>
+}
+
+const SEVERITY_TO_CAP: Record<Alert['severity'], string> = { critical: 'Extreme', high: 'Severe', medium: 'Moderate', low: 'Minor' };
+const TYPE_TO_CAP_CATEGORY: Record<string, string> = {
+  flood: 'Met',
+  storm: 'Met',
+  fire: 'Fire',
+  earthquake: 'Geo',
+  medical: 'Health',
+  security: 'Security'
+};
+
+/**
+ * CAP wants "2002-05-24T16:49:00-07:00": no fractional seconds and no "Z"
+ */
+function capDateTime(value: Date | string): string {
+  return new Date(value).toISOString().replace(/\.\d{3}Z$/, '+00:00');
+}
+
+function element(name: string, value: string | number | undefined | null, indent: string): string {
+  return value === undefined || value === null || value === '' ? '' : `${indent}<${name}>${escapeXml(String(value))}</${name}>\n`;
+}
+
+/**
+ * The CAP message an alert is published as. The first version is an Alert with the alert id as
+ * identifier; later versions are Updates (or a Cancel, or an all-clear Update once resolved)
+ * that reference it, so consumers can follow one alert across messages.
+ */
+export function capMessageFor(alert: Alert, options: AlertExportOptions): { identifier: string; msg_type: string; references?: string } {
+  const original = `${options.sender},${alert.id},${capDateTime(alert.created_at)}`;
+  const version = Math.floor(new Date(alert.updated_at).getTime() / 1000);
+
+  if (alert.status === 'cancelled') {
+    return { identifier: `${alert.id}-cancel-${version}`, msg_type: 'Cancel', references: original };
+  }
+  if (alert.status === 'resolved' || new Date(alert.updated_at).getTime() - new Date(alert.created_at).getTime() >= 1000) {
+    return { identifier: `${alert.id}-${version}`, msg_type: 'Update', references: original };
+  }
+  return { identifier: alert.id, msg_type: 'Alert' };
+}
+
+export function renderCapAlert(alert: Alert, options: AlertExportOptions): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${capAlertElement(alert, options, '')}`;
+}
+
+/**
+ * An `<alert>` element, indented for embedding in another document
+ */
+export function capAlertElement(alert: Alert, options: AlertExportOptions, indent: string): string {
+  const cap = alert.metadata?.cap || {};
+  const message = capMessageFor(alert, options);
+  const resolved = alert.status === 'resolved';
+  const inner = `${indent}  `;
+  const infoInner = `${indent}    `;
+
+  return `${indent}<alert xmlns="${CAP_NAMESPACES[0]}">\n` +
+    element('identifier', message.identifier, inner) +
+    element('sender', options.sender, inner) +
+    element('sent', capDateTime(alert.updated_at), inner) +
+    element('status', 'Actual', inner) +
+    element('msgType', message.msg_type, inner) +
+    element('scope', 'Public', inner) +
+    element('references', message.references, inner) +
+    element('incidents', alert.incident_id, inner) +
+    `${inner}<info>\n` +
+    element('language', 'en-US', infoInner) +
+    (Array.isArray(cap.category) && cap.category.length ? cap.category : [TYPE_TO_CAP_CATEGORY[alert.type] || 'Other'])
+      .map((category: string) => element('category', category, infoInner)).join('') +
+    element('event', cap.event || `${alert.type.charAt(0).toUpperCase()}${alert.type.slice(1)}`, infoInner) +
+    element('responseType', resolved ? 'AllClear' : undefined, infoInner) +
+    element('urgency', resolved ? 'Past' : cap.urgency || (alert.severity === 'critical' || alert.severity === 'high' ? 'Immediate' : 'Expected'), infoInner) +
+    element('severity', SEVERITY_TO_CAP[alert.severity] || 'Unknown', infoInner) +
+    element('certainty', resolved ? 'Observed' : cap.certainty || 'Likely', infoInner) +
+    element('effective', cap.effective, infoInner) +
+    element('onset', cap.onset, infoInner) +
+    element('expires', cap.expires, infoInner) +
+    element('senderName', 'CrisisAssist', infoInner) +
+    element('headline', alert.title, infoInner) +
+    element('description', alert.description, infoInner) +
+    element('web', `${options.base_url}/api/alerts/${encodeURIComponent(alert.id)}`, infoInner) +
+    capAreaElement(alert, `${infoInner}`) +
+    `${inner}</info>\n` +
+    `${indent}</alert>\n`;
+}
+
+function capAreaElement(alert: Alert, indent: string): string {
+  const inner = `${indent}  `;
+  const position = (lng: number, lat: number) => `${lat},${lng}`;
+  const shapes: string[] = [];
+
+  const area: AffectedArea | undefined = alert.affected_area;
+  if (area?.type === 'Circle') {
+    shapes.push(element('circle', `${position(area.coordinates[0], area.coordinates[1])} ${area.radius_m / 1000}`, inner));
+  } else if (area) {
+    // CAP polygons have no holes; only outer rings are published
+    const polygons = area.type === 'Polygon' ? [area.coordinates] : area.coordinates;
+    polygons.forEach(polygon => shapes.push(element('polygon', polygon[0].map(([lng, lat]) => position(lng, lat)).join(' '), inner)));
+  } else if (alert.location.coordinates) {
+    shapes.push(element('circle', `${position(alert.location.coordinates.lng, alert.location.coordinates.lat)} 0`, inner));
+  }
+
+  return `${indent}<area>\n` +
+    element('areaDesc', alert.location.address || 'Unspecified area', inner) +
+    shapes.join('') +
+    `${indent}</area>\n`;
+}
+
+/**
+ * Alerts as a GeoJSON FeatureCollection. Circles become polygons (GeoJSON has no circle) and
+ * keep their centre and radius in the properties; alerts with only a point are Points.
+ */
+export function renderAlertsGeoJson(alerts: Alert[]): Record<string, any> {
+  return {
+    type: 'FeatureCollection',
+    features: alerts.map(alert => {
+      const area = alert.affected_area;
+      let geometry: Record<string, any> | null = null;
+      if (area?.type === 'Circle') {
+        geometry = { type: 'Polygon', coordinates: circleToPolygon(area) };
+      } else if (area) {
+        geometry = area;
+      } else if (alert.location.coordinates) {
+        geometry = { type: 'Point', coordinates: [alert.location.coordinates.lng, alert.location.coordinates.lat] };
+      }
+
+      return {
+        type: 'Feature',
+        id: alert.id,
+        geometry,
+        properties: {
+          type: alert.type,
+          severity: alert.severity,
+          status: alert.status,
+          title: alert.title,
+          description: alert.description,
+          address: alert.location.address,
+          location_confidence: alert.location.confidence,
+          circle: area?.type === 'Circle' ? { center: area.coordinates, radius_m: area.radius_m } : undefined,
+          source: alert.source,
+          incident_id: alert.incident_id,
+          created_at: alert.created_at,
+          updated_at: alert.updated_at
+        }
+      };
+    })
+  };
+}
+
+/**
+ * Alerts as an Atom feed. With `embed_cap` each entry carries its CAP message as content,
+ * which is the CAP index format feed consumers (including our own poller) read; otherwise
+ * entries have a text summary and link to the CAP message.
+ */
+export function renderAlertsAtom(
+  alerts: Alert[],
+  options: AlertExportOptions & { self_url: string; title: string; embed_cap?: boolean }
+): string {
+  // An empty feed still needs <updated>; the epoch keeps the document stable for ETags
+  const updated = alerts.reduce((latest, alert) => Math.max(latest, new Date(alert.updated_at).getTime()), 0);
+
+  const entries = alerts.map(alert => {
+    const capUrl = `${options.base_url}/api/alerts/${encodeURIComponent(alert.id)}/cap`;
+    const point = alert.location.coordinates;
+    return '  <entry>\n' +
+      // A CAP index gets an entry per message, so each update is picked up as new
+      element('id', options.embed_cap ? `urn:crisisassist:cap:${capMessageFor(alert, options).identifier}` : `urn:crisisassist:alert:${alert.id}`, '    ') +
+      element('title', `[${alert.severity.toUpperCase()}] ${alert.title}`, '    ') +
+      element('published', new Date(alert.created_at).toISOString(), '    ') +
+      element('updated', new Date(alert.updated_at).toISOString(), '    ') +
+      `    <category term="${escapeXml(alert.type)}"/>\n` +
+      `    <category term="${escapeXml(alert.severity)}" scheme="urn:crisisassist:severity"/>\n` +
+      `    <link rel="alternate" type="application/cap+xml" href="${escapeXml(capUrl)}"/>\n` +
+      element('georss:point', point ? `${point.lat} ${point.lng}` : undefined, '    ') +
+      (options.embed_cap
+        ? `    <content type="application/cap+xml">\n${capAlertElement(alert, options, '      ')}    </content>\n`
+        : element('summary', `${alert.location.address ? `${alert.location.address}: ` : ''}${alert.description || ''}`, '    ')) +
+      '  </entry>\n';
+  }).join('');
+
+  return '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    '<feed xmlns="http://www.w3.org/2005/Atom" xmlns:georss="http://www.georss.org/georss">\n' +
+    element('id', options.self_url, '  ') +
+    element('title', options.title, '  ') +
+    element('updated', new Date(updated).toISOString(), '  ') +
+    '  <author><name>CrisisAssist</name></author>\n' +
+    `  <link rel="self" href="${escapeXml(options.self_url)}"/>\n` +
+    entries +
+    '</feed>\n';
+}
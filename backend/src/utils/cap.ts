@@ -0,0 +1,264 @@
+import { AffectedArea, Alert, ValidationError } from '../types';
+import { childElements, childText, parseXml, XmlElement } from './xml';
+import { circleToPolygon, validateAffectedArea } from './geo';
+
+// Common Alerting Protocol (OASIS CAP 1.2). 1.1 messages share the structure we read.
+export const CAP_NAMESPACES = ['urn:oasis:names:tc:emergency:cap:1.2', 'urn:oasis:names:tc:emergency:cap:1.1'];
+
+export interface CapArea {
+  areaDesc: string;
+  polygons: string[];
+  circles: string[];
+  geocodes: Array<{ valueName: string; value: string }>;
+}
+
+export interface CapInfo {
+  language: string;
+  category: string[];
+  event: string;
+  urgency: string;
+  severity: string;
+  certainty: string;
+  effective?: string;
+  onset?: string;
+  expires?: string;
+  senderName?: string;
+  headline?: string;
+  description?: string;
+  instruction?: string;
+  web?: string;
+  areas: CapArea[];
+}
+
+export interface CapReference {
+  sender: string;
+  identifier: string;
+  sent: string;
+}
+
+export interface CapAlert {
+  identifier: string;
+  sender: string;
+  sent: string;
+  status: 'Actual' | 'Exercise' | 'System' | 'Test' | 'Draft';
+  msgType: 'Alert' | 'Update' | 'Cancel' | 'Ack' | 'Error';
+  scope: string;
+  note?: string;
+  references: CapReference[];
+  infos: CapInfo[];
+}
+
+const STATUSES = ['Actual', 'Exercise', 'System', 'Test', 'Draft'];
+const MSG_TYPES = ['Alert', 'Update', 'Cancel', 'Ack', 'Error'];
+
+const SEVERITY_LEVELS: Alert['severity'][] = ['low', 'medium', 'high', 'critical'];
+const CAP_SEVERITY: Record<string, number> = { Extreme: 3, Severe: 2, Moderate: 1, Minor: 0, Unknown: 1 };
+
+// Event keywords checked in order; the first hit decides our alert type
+const EVENT_TYPES: Array<[RegExp, string]> = [
+  [/flood|inundation|tsunami|storm surge|dam (break|failure)/i, 'flood'],
+  [/earthquake|seismic|tremor/i, 'earthquake'],
+  [/fire|wildfire|bushfire|smoke/i, 'fire'],
+  [/cyclone|hurricane|typhoon|tornado|storm|wind|thunder|rain|blizzard|snow|hail/i, 'storm'],
+  [/epidemic|outbreak|disease|health|heat ?wave|medical/i, 'medical'],
+  [/terror|shooting|civil|security|bomb|hostage/i, 'security']
+];
+const CATEGORY_TYPES: Record<string, string> = { Fire: 'fire', Health: 'medical', Security: 'security', Met: 'storm' };
+
+/**
+ * Parse and validate a CAP alert document. Structural problems are reported together as a
+ * ValidationError.
+ */
+export function parseCapAlert(xml: string): CapAlert {
+  let root: XmlElement;
+  try {
+    root = parseXml(xml);
+  } catch (error) {
+    throw new ValidationError('CAP message is not well-formed XML', [error instanceof Error ? error.message : String(error)]);
+  }
+
+  return readCapAlert(root);
+}
+
+/**
+ * Read a CAP alert from an already parsed element, e.g. one embedded in an Atom entry
+ */
+export function readCapAlert(root: XmlElement): CapAlert {
+  if (root.name !== 'alert') {
+    throw new ValidationError(`Expected a CAP <alert> element, got <${root.name}>`);
+  }
+  const namespace = Object.entries(root.attributes)
+    .find(([name, value]) => (name === 'xmlns' || name.startsWith('xmlns:')) && value.includes(':emergency:cap:'))?.[1];
+  if (namespace && !CAP_NAMESPACES.includes(namespace)) {
+    throw new ValidationError(`Unsupported CAP namespace ${namespace}`);
+  }
+
+  const errors: string[] = [];
+  const required = (element: XmlElement, name: string, label: string): string => {
+    const value = childText(element, name);
+    if (!value) {
+      errors.push(`${label}<${name}> is required`);
+    }
+    return value || '';
+  };
+
+  const alert: CapAlert = {
+    identifier: required(root, 'identifier', ''),
+    sender: required(root, 'sender', ''),
+    sent: required(root, 'sent', ''),
+    status: required(root, 'status', '') as CapAlert['status'],
+    msgType: required(root, 'msgType', '') as CapAlert['msgType'],
+    scope: required(root, 'scope', ''),
+    note: childText(root, 'note'),
+    references: parseCapReferences(childText(root, 'references')),
+    infos: childElements(root, 'info').map((info, index) => {
+      const label = `info[${index}] `;
+      return {
+        language: childText(info, 'language') || 'en-US',
+        category: childElements(info, 'category').map(category => category.text).filter(Boolean),
+        event: required(info, 'event', label),
+        urgency: required(info, 'urgency', label),
+        severity: required(info, 'severity', label),
+        certainty: required(info, 'certainty', label),
+        effective: childText(info, 'effective'),
+        onset: childText(info, 'onset'),
+        expires: childText(info, 'expires'),
+        senderName: childText(info, 'senderName'),
+        headline: childText(info, 'headline'),
+        description: childText(info, 'description'),
+        instruction: childText(info, 'instruction'),
+        web: childText(info, 'web'),
+        areas: childElements(info, 'area').map((area, areaIndex) => ({
+          areaDesc: required(area, 'areaDesc', `${label}area[${areaIndex}] `),
+          polygons: childElements(area, 'polygon').map(polygon => polygon.text),
+          circles: childElements(area, 'circle').map(circle => circle.text),
+          geocodes: childElements(area, 'geocode').map(geocode => ({
+            valueName: childText(geocode, 'valueName') || '',
+            value: childText(geocode, 'value') || ''
+          }))
+        }))
+      };
+    })
+  };
+
+  if (alert.status && !STATUSES.includes(alert.status)) {
+    errors.push(`<status> must be one of ${STATUSES.join(', ')}`);
+  }
+  if (alert.msgType && !MSG_TYPES.includes(alert.msgType)) {
+    errors.push(`<msgType> must be one of ${MSG_TYPES.join(', ')}`);
+  }
+  if (alert.sent && isNaN(Date.parse(alert.sent))) {
+    errors.push('<sent> must be a date-time');
+  }
+  if ((alert.msgType === 'Update' || alert.msgType === 'Cancel') && alert.references.length === 0) {
+    errors.push(`<references> is required for ${alert.msgType} messages`);
+  }
+  if (alert.msgType !== 'Ack' && alert.msgType !== 'Error' && alert.msgType !== 'Cancel' && alert.infos.length === 0) {
+    errors.push('At least one <info> block is required');
+  }
+  alert.infos.forEach((info, index) => {
+    if (info.category.length === 0) {
+      errors.push(`info[${index}] <category> is required`);
+    }
+    info.areas.forEach((area, areaIndex) => {
+      try {
+        capAreaToAffectedArea([area]);
+      } catch (error) {
+        errors.push(`info[${index}] area[${areaIndex}]: ${error instanceof Error ? error.message : error}`);
+      }
+    });
+  });
+
+  if (errors.length > 0) {
+    throw new ValidationError('Invalid CAP message', errors);
+  }
+  return alert;
+}
+
+/**
+ * `<references>` is a space-separated list of "sender,identifier,sent" triples
+ */
+export function parseCapReferences(references?: string): CapReference[] {
+  if (!references) {
+    return [];
+  }
+  return references.split(/\s+/).filter(Boolean).map(reference => {
+    const [sender, identifier, sent] = reference.split(',');
+    return { sender: sender || '', identifier: identifier || '', sent: sent || '' };
+  }).filter(reference => reference.identifier);
+}
+
+/**
+ * The info block to use: the first in the preferred language (by primary subtag), otherwise the first
+ */
+export function selectCapInfo(alert: CapAlert, language: string = 'en'): CapInfo | undefined {
+  const primary = language.toLowerCase().split('-')[0];
+  return alert.infos.find(info => info.language.toLowerCase().split('-')[0] === primary) || alert.infos[0];
+}
+
+/**
+ * CAP severity sets the level (Extreme → critical, Severe → high, Moderate/Unknown → medium,
+ * Minor → low). It drops one level when the event is not imminent (urgency Future or Past)
+ * and one more when it is not likely (certainty Possible or Unlikely).
+ */
+export function mapCapSeverity(info: Pick<CapInfo, 'urgency' | 'severity' | 'certainty'>): Alert['severity'] {
+  let level = CAP_SEVERITY[info.severity] ?? CAP_SEVERITY.Unknown;
+  if (info.urgency === 'Future' || info.urgency === 'Past') {
+    level--;
+  }
+  if (info.certainty === 'Possible' || info.certainty === 'Unlikely') {
+    level--;
+  }
+  return SEVERITY_LEVELS[Math.max(0, level)];
+}
+
+export function mapCapEventType(info: Pick<CapInfo, 'event' | 'category'>): string {
+  const byEvent = EVENT_TYPES.find(([pattern]) => pattern.test(info.event));
+  if (byEvent) {
+    return byEvent[1];
+  }
+  const byCategory = info.category.map(category => CATEGORY_TYPES[category]).find(Boolean);
+  return byCategory || 'other';
+}
+
+/**
+ * Combine CAP area shapes into one affected area. CAP writes positions as "lat,lon" and circle
+ * radii in kilometres. A single circle stays a circle; anything else becomes a MultiPolygon.
+ * Returns undefined when the areas only have descriptions or geocodes.
+ */
+export function capAreaToAffectedArea(areas: CapArea[]): AffectedArea | undefined {
+  const polygons: number[][][][] = [];
+  const circles: Array<Extract<AffectedArea, { type: 'Circle' }>> = [];
+
+  areas.forEach(area => {
+    area.polygons.forEach(polygon => {
+      const ring = polygon.trim().split(/\s+/).map(pair => {
+        const [lat, lng] = pair.split(',').map(Number);
+        return [lng, lat];
+      });
+      polygons.push([ring]);
+    });
+    area.circles.forEach(circle => {
+      const [center, radius] = circle.trim().split(/\s+/);
+      const [lat, lng] = (center || '').split(',').map(Number);
+      circles.push({ type: 'Circle', coordinates: [lng, lat], radius_m: Number(radius) * 1000 });
+    });
+  });
+
+  let area: AffectedArea | undefined;
+  if (circles.length === 1 && polygons.length === 0) {
+    area = circles[0];
+  } else if (polygons.length === 1 && circles.length === 0) {
+    area = { type: 'Polygon', coordinates: polygons[0] };
+  } else if (polygons.length + circles.length > 0) {
+    area = { type: 'MultiPolygon', coordinates: [...polygons, ...circles.map(circle => circleToPolygon(circle))] };
+  }
+
+  if (area) {
+    const errors = validateAffectedArea(area);
+    if (errors.length > 0) {
+      throw new Error(`invalid polygon or circle (${errors.slice(0, 3).join('; ')})`);
+    }
+  }
+  return area;
+}
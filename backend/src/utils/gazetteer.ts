@@ -0,0 +1,230 @@
+import fs from 'fs';
+import path from 'path';
+import { logger } from './logger';
+import { haversineKm } from './geo';
+
+export interface GazetteerEntry {
+  name: string;
+  alt_names?: string[];
+  type: 'locality' | 'city' | 'district' | 'state' | 'country';
+  admin2?: string; // District
+  admin1?: string; // State
+  country?: string;
+  lat: number;
+  lng: number;
+}
+
+export interface GazetteerMatch {
+  entry: GazetteerEntry;
+  formatted_address: string;
+  confidence: number;
+  similarity: number;
+  distance_km?: number; // Reverse lookups only
+}
+
+// How precise a match of each type is; a state name only places an alert very roughly
+const TYPE_CONFIDENCE: Record<GazetteerEntry['type'], number> = {
+  locality: 0.9,
+  city: 0.85,
+  district: 0.6,
+  state: 0.35,
+  country: 0.1
+};
+const TYPE_SPECIFICITY: Record<GazetteerEntry['type'], number> = { locality: 4, city: 3, district: 2, state: 1, country: 0 };
+
+const MIN_SIMILARITY = 0.8;
+const CONTEXT_BONUS = 0.05; // The address also names the entry's district or state
+const MAX_NGRAM = 4;
+
+const DEFAULT_PATH = path.join(__dirname, '../../data/gazetteer.json');
+
+export function normalizePlaceName(text: string): string {
+  return (text || '')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function similarity(a: string, b: string): number {
+  return 1 - levenshtein(a, b) / Math.max(a.length, b.length, 1);
+}
+
+/**
+ * Offline place-name lookup used when no geocoding service is available. Loads a JSON array
+ * of places (GAZETTEER_PATH, or the bundled data/gazetteer.json) and matches addresses
+ * against place names with a tolerance for misspellings.
+ */
+export class Gazetteer {
+  private entries: GazetteerEntry[] = [];
+  private index: Map<string, GazetteerEntry[]> = new Map();
+  private loadedFrom: string | null = null;
+
+  /**
+   * Load (or reload) the dataset. A missing or broken file leaves the gazetteer empty.
+   */
+  load(filePath: string = process.env.GAZETTEER_PATH || DEFAULT_PATH): number {
+    try {
+      const data = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+      if (!Array.isArray(data)) {
+        throw new Error('Gazetteer file must contain a JSON array of places');
+      }
+
+      this.entries = data.filter((entry: any) =>
+        typeof entry?.name === 'string' && Number.isFinite(entry.lat) && Number.isFinite(entry.lng) && TYPE_CONFIDENCE[entry.type as GazetteerEntry['type']] !== undefined
+      );
+      this.index = new Map();
+      this.entries.forEach(entry => {
+        [entry.name, ...(entry.alt_names || [])].forEach(name => {
+          const key = normalizePlaceName(name);
+          this.index.set(key, [...(this.index.get(key) || []), entry]);
+        });
+      });
+      this.loadedFrom = filePath;
+
+      logger.info(`Gazetteer loaded: ${this.entries.length} places`, { path: filePath, skipped: data.length - this.entries.length });
+    } catch (error) {
+      logger.warn(`Gazetteer could not be loaded from ${filePath}; offline geocoding is unavailable`, {
+        error: error instanceof Error ? error.message : error
+      });
+      this.entries = [];
+      this.index = new Map();
+      this.loadedFrom = null;
+    }
+
+    return this.entries.length;
+  }
+
+  get size(): number {
+    this.ensureLoaded();
+    return this.entries.length;
+  }
+
+  /**
+   * Best match for a free-text address, preferring the most specific place it names.
+   * "Vijay Nagar, Indore" resolves to the locality rather than the city.
+   */
+  geocode(address: string): GazetteerMatch | null {
+    return this.search(address, 1)[0] || null;
+  }
+
+  search(address: string, limit: number = 5): GazetteerMatch[] {
+    this.ensureLoaded();
+    const text = normalizePlaceName(address);
+    if (!text || this.entries.length === 0) {
+      return [];
+    }
+
+    const tokens = text.split(' ');
+    const candidates = new Map<GazetteerEntry, number>();
+    const consider = (entry: GazetteerEntry, score: number) => {
+      if (score > (candidates.get(entry) || 0)) {
+        candidates.set(entry, score);
+      }
+    };
+
+    const phrases: string[] = [];
+    for (let size = Math.min(MAX_NGRAM, tokens.length); size >= 1; size--) {
+      for (let start = 0; start + size <= tokens.length; start++) {
+        phrases.push(tokens.slice(start, start + size).join(' '));
+      }
+    }
+
+    phrases.forEach(phrase => (this.index.get(phrase) || []).forEach(entry => consider(entry, 1)));
+
+    // Misspellings: only when nothing matched exactly, and only for names long enough to compare
+    if (candidates.size === 0) {
+      phrases.filter(phrase => phrase.length >= 4).forEach(phrase => {
+        this.index.forEach((entries, name) => {
+          if (name.length < 4 || Math.abs(name.length - phrase.length) > name.length * (1 - MIN_SIMILARITY)) {
+            return;
+          }
+          const score = similarity(phrase, name);
+          if (score >= MIN_SIMILARITY) {
+            entries.forEach(entry => consider(entry, score));
+          }
+        });
+      });
+    }
+
+    return [...candidates.entries()]
+      .map(([entry, score]) => {
+        const context = [entry.admin2, entry.admin1]
+          .filter((region): region is string => Boolean(region) && normalizePlaceName(region!) !== normalizePlaceName(entry.name))
+          .some(region => text.includes(normalizePlaceName(region)));
+        return {
+          entry,
+          formatted_address: this.format(entry),
+          similarity: Math.round(score * 100) / 100,
+          confidence: Math.round(Math.min(0.95, TYPE_CONFIDENCE[entry.type] * score + (context ? CONTEXT_BONUS : 0)) * 100) / 100,
+          context
+        };
+      })
+      .sort((a, b) =>
+        Number(b.context) - Number(a.context) ||
+        TYPE_SPECIFICITY[b.entry.type] - TYPE_SPECIFICITY[a.entry.type] ||
+        b.confidence - a.confidence
+      )
+      .slice(0, limit)
+      .map(({ context, ...match }) => match);
+  }
+
+  /**
+   * Nearest named place to a point. Confidence falls off with distance and is zero at maxDistanceKm.
+   */
+  reverse(lat: number, lng: number, maxDistanceKm: number = 50): GazetteerMatch | null {
+    this.ensureLoaded();
+
+    let nearest: { entry: GazetteerEntry; distance: number } | null = null;
+    for (const entry of this.entries) {
+      // States and countries are too coarse to name a point by
+      if (entry.type === 'state' || entry.type === 'country') {
+        continue;
+      }
+      const distance = haversineKm(lat, lng, entry.lat, entry.lng);
+      if (distance <= maxDistanceKm && (!nearest || distance < nearest.distance)) {
+        nearest = { entry, distance };
+      }
+    }
+
+    if (!nearest) {
+      return null;
+    }
+
+    const closeness = 1 - nearest.distance / maxDistanceKm;
+    return {
+      entry: nearest.entry,
+      formatted_address: this.format(nearest.entry),
+      similarity: 1,
+      confidence: Math.round(TYPE_CONFIDENCE[nearest.entry.type] * closeness * 100) / 100,
+      distance_km: Math.round(nearest.distance * 1000) / 1000
+    };
+  }
+
+  private format(entry: GazetteerEntry): string {
+    const parts = [entry.name, entry.admin2, entry.admin1, entry.country].filter(Boolean) as string[];
+    return parts.filter((part, index) => parts.indexOf(part) === index).join(', ');
+  }
+
+  private ensureLoaded() {
+    if (this.loadedFrom === null && this.entries.length === 0) {
+      this.load();
+    }
+  }
+}
+
+// Export singleton instance
+export const gazetteer = new Gazetteer();
@@ -0,0 +1,258 @@
+import { AffectedArea } from '../types';
+
+export interface BoundingBox {
+  min_lat: number;
+  max_lat: number;
+  min_lng: number;
+  max_lng: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+const MAX_POSITIONS = 10000;
+const MAX_CIRCLE_RADIUS_M = 1000000;
+// Circles are compared against polygons as a polygon with this many sides
+const CIRCLE_SEGMENTS = 64;
+
+/**
+ * Great-circle distance in kilometres
+ */
+export function haversineKm(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLng = toRad(lng2 - lng1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2;
+  return EARTH_RADIUS_KM * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/**
+ * Check an affected area. Returns the problems found; an empty list means it is valid.
+ * Areas crossing the antimeridian are not supported.
+ */
+export function validateAffectedArea(area: any): string[] {
+  if (!area || typeof area !== 'object') {
+    return ['affected_area must be an object'];
+  }
+
+  const errors: string[] = [];
+  let positionCount = 0;
+
+  const checkPosition = (position: any, label: string) => {
+    positionCount++;
+    if (!Array.isArray(position) || position.length < 2 || !position.slice(0, 2).every(value => typeof value === 'number' && Number.isFinite(value))) {
+      errors.push(`${label} must be a [lng, lat] pair of numbers`);
+    } else if (position[0] < -180 || position[0] > 180 || position[1] < -90 || position[1] > 90) {
+      errors.push(`${label} is outside lng -180..180 / lat -90..90`);
+    }
+  };
+
+  const checkPolygon = (rings: any, label: string) => {
+    if (!Array.isArray(rings) || rings.length === 0) {
+      errors.push(`${label} must be a non-empty array of linear rings`);
+      return;
+    }
+    rings.forEach((ring: any, ringIndex: number) => {
+      const ringLabel = `${label}[${ringIndex}]`;
+      if (!Array.isArray(ring) || ring.length < 4) {
+        errors.push(`${ringLabel} must have at least 4 positions`);
+        return;
+      }
+      ring.forEach((position: any, index: number) => checkPosition(position, `${ringLabel}[${index}]`));
+      const first = ring[0];
+      const last = ring[ring.length - 1];
+      if (Array.isArray(first) && Array.isArray(last) && (first[0] !== last[0] || first[1] !== last[1])) {
+        errors.push(`${ringLabel} must be closed (first and last positions equal)`);
+      }
+    });
+  };
+
+  switch (area.type) {
+    case 'Polygon':
+      checkPolygon(area.coordinates, 'coordinates');
+      break;
+    case 'MultiPolygon':
+      if (!Array.isArray(area.coordinates) || area.coordinates.length === 0) {
+        errors.push('coordinates must be a non-empty array of polygons');
+      } else {
+        area.coordinates.forEach((polygon: any, index: number) => checkPolygon(polygon, `coordinates[${index}]`));
+      }
+      break;
+    case 'Circle':
+      checkPosition(area.coordinates, 'coordinates');
+      if (typeof area.radius_m !== 'number' || !(area.radius_m > 0) || area.radius_m > MAX_CIRCLE_RADIUS_M) {
+        errors.push(`radius_m must be a number between 0 and ${MAX_CIRCLE_RADIUS_M}`);
+      }
+      break;
+    default:
+      errors.push('type must be Polygon, MultiPolygon or Circle');
+  }
+
+  if (positionCount > MAX_POSITIONS) {
+    errors.push(`affected_area may have at most ${MAX_POSITIONS} positions`);
+  }
+
+  return errors;
+}
+
+export function areaBoundingBox(area: AffectedArea): BoundingBox {
+  if (area.type === 'Circle') {
+    const [lng, lat] = area.coordinates;
+    const latDelta = (area.radius_m / 1000 / EARTH_RADIUS_KM) * (180 / Math.PI);
+    const lngDelta = latDelta / Math.max(Math.cos((lat * Math.PI) / 180), 0.01);
+    return {
+      min_lat: Math.max(-90, lat - latDelta),
+      max_lat: Math.min(90, lat + latDelta),
+      min_lng: Math.max(-180, lng - lngDelta),
+      max_lng: Math.min(180, lng + lngDelta)
+    };
+  }
+
+  const positions = outerRings(area).flat();
+  return {
+    min_lat: Math.min(...positions.map(position => position[1])),
+    max_lat: Math.max(...positions.map(position => position[1])),
+    min_lng: Math.min(...positions.map(position => position[0])),
+    max_lng: Math.max(...positions.map(position => position[0]))
+  };
+}
+
+/**
+ * A representative point for the area: the circle centre or the bounding box centre
+ */
+export function areaCenter(area: AffectedArea): { lat: number; lng: number } {
+  if (area.type === 'Circle') {
+    return { lat: area.coordinates[1], lng: area.coordinates[0] };
+  }
+  const box = areaBoundingBox(area);
+  return { lat: (box.min_lat + box.max_lat) / 2, lng: (box.min_lng + box.max_lng) / 2 };
+}
+
+export function pointInArea(lat: number, lng: number, area: AffectedArea): boolean {
+  if (area.type === 'Circle') {
+    return haversineKm(lat, lng, area.coordinates[1], area.coordinates[0]) * 1000 <= area.radius_m;
+  }
+  return polygonsOf(area).some(polygon => pointInPolygon([lng, lat], polygon));
+}
+
+/**
+ * Whether two areas share any point. Circles are exact against each other and approximated
+ * by a polygon otherwise.
+ */
+export function areasIntersect(a: AffectedArea, b: AffectedArea): boolean {
+  if (!boxesOverlap(areaBoundingBox(a), areaBoundingBox(b))) {
+    return false;
+  }
+
+  if (a.type === 'Circle' && b.type === 'Circle') {
+    const distanceM = haversineKm(a.coordinates[1], a.coordinates[0], b.coordinates[1], b.coordinates[0]) * 1000;
+    return distanceM <= a.radius_m + b.radius_m;
+  }
+
+  const polygonsA = polygonsOf(a);
+  const polygonsB = polygonsOf(b);
+  return polygonsA.some(polygonA => polygonsB.some(polygonB => polygonsIntersect(polygonA, polygonB)));
+}
+
+export function boxesOverlap(a: BoundingBox, b: BoundingBox): boolean {
+  return a.min_lat <= b.max_lat && b.min_lat <= a.max_lat && a.min_lng <= b.max_lng && b.min_lng <= a.max_lng;
+}
+
+/**
+ * A circle as a GeoJSON polygon, for combining it with other shapes
+ */
+export function circleToPolygon(area: Extract<AffectedArea, { type: 'Circle' }>): number[][][] {
+  return [circleRing(area)];
+}
+
+function outerRings(area: AffectedArea): number[][][] {
+  return polygonsOf(area).map(polygon => polygon[0]);
+}
+
+function polygonsOf(area: AffectedArea): number[][][][] {
+  switch (area.type) {
+    case 'Polygon':
+      return [area.coordinates];
+    case 'MultiPolygon':
+      return area.coordinates;
+    case 'Circle':
+      return [[circleRing(area)]];
+  }
+}
+
+function circleRing(area: Extract<AffectedArea, { type: 'Circle' }>): number[][] {
+  const [lng, lat] = area.coordinates;
+  const angularRadius = area.radius_m / 1000 / EARTH_RADIUS_KM;
+  const latRad = (lat * Math.PI) / 180;
+  const lngRad = (lng * Math.PI) / 180;
+  const ring: number[][] = [];
+
+  for (let i = 0; i < CIRCLE_SEGMENTS; i++) {
+    const bearing = (2 * Math.PI * i) / CIRCLE_SEGMENTS;
+    const pointLat = Math.asin(Math.sin(latRad) * Math.cos(angularRadius) + Math.cos(latRad) * Math.sin(angularRadius) * Math.cos(bearing));
+    const pointLng = lngRad + Math.atan2(
+      Math.sin(bearing) * Math.sin(angularRadius) * Math.cos(latRad),
+      Math.cos(angularRadius) - Math.sin(latRad) * Math.sin(pointLat)
+    );
+    ring.push([(pointLng * 180) / Math.PI, (pointLat * 180) / Math.PI]);
+  }
+  ring.push(ring[0]);
+  return ring;
+}
+
+/**
+ * Ray casting on the outer ring, excluding holes
+ */
+function pointInPolygon(point: number[], polygon: number[][][]): boolean {
+  const [outer, ...holes] = polygon;
+  return pointInRing(point, outer) && !holes.some(hole => pointInRing(point, hole));
+}
+
+function pointInRing(point: number[], ring: number[][]): boolean {
+  const [x, y] = point;
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+function polygonsIntersect(a: number[][][], b: number[][][]): boolean {
+  // Crossing edges, or one polygon lying entirely inside the other
+  const edgesA = ringEdges(a[0]);
+  const edgesB = ringEdges(b[0]);
+  if (edgesA.some(([p1, p2]) => edgesB.some(([q1, q2]) => segmentsIntersect(p1, p2, q1, q2)))) {
+    return true;
+  }
+  return pointInPolygon(a[0][0], b) || pointInPolygon(b[0][0], a);
+}
+
+function ringEdges(ring: number[][]): Array<[number[], number[]]> {
+  const edges: Array<[number[], number[]]> = [];
+  for (let i = 0; i < ring.length - 1; i++) {
+    edges.push([ring[i], ring[i + 1]]);
+  }
+  return edges;
+}
+
+function segmentsIntersect(p1: number[], p2: number[], q1: number[], q2: number[]): boolean {
+  const orientation = (a: number[], b: number[], c: number[]) => {
+    const value = (b[1] - a[1]) * (c[0] - b[0]) - (b[0] - a[0]) * (c[1] - b[1]);
+    return value === 0 ? 0 : value > 0 ? 1 : 2;
+  };
+  const onSegment = (a: number[], b: number[], c: number[]) =>
+    Math.min(a[0], c[0]) <= b[0] && b[0] <= Math.max(a[0], c[0]) && Math.min(a[1], c[1]) <= b[1] && b[1] <= Math.max(a[1], c[1]);
+
+  const o1 = orientation(p1, p2, q1);
+  const o2 = orientation(p1, p2, q2);
+  const o3 = orientation(q1, q2, p1);
+  const o4 = orientation(q1, q2, p2);
+
+  if (o1 !== o2 && o3 !== o4) {
+    return true;
+  }
+  return (o1 === 0 && onSegment(p1, q1, p2)) || (o2 === 0 && onSegment(p1, q2, p2)) ||
+    (o3 === 0 && onSegment(q1, p1, q2)) || (o4 === 0 && onSegment(q1, p2, q2));
+}
@@ -0,0 +1,339 @@
+import fs from 'fs';
+import path from 'path';
+import { AffectedArea, PopulationExposure } from '../types';
+import { logger } from './logger';
+import { BoundingBox, areaBoundingBox, haversineKm, pointInArea } from './geo';
+
+interface GridInfo {
+  dataset: string;
+  ncols: number;
+  nrows: number;
+  west: number; // Longitude of the grid's west edge
+  north: number; // Latitude of the grid's north edge
+  cell_size: number; // Degrees
+  total_population: number;
+}
+
+// 25M cells is 100 MB of Float32, roughly a 100 m grid over a 500 km square
+const MAX_CELLS = 25000000;
+// Point-in-area tests per exposure query; larger areas are summed in blocks of cells
+const MAX_TESTS = 250000;
+// Areas spanning fewer cells than this are sampled 4x4 per cell so partly covered cells count in part
+const SUBSAMPLE_BELOW_CELLS = 10000;
+const RING_BOUNDS_KM = [0, 1, 2, 5, 10, 25];
+const DENSEST_CELLS = 5;
+
+/**
+ * Gridded population counts (people per cell) loaded into memory, for estimating how many
+ * people live inside an alert's area. Reads ESRI ASCII grids (.asc, e.g. exported from a
+ * WorldPop or GHSL GeoTIFF with `gdal_translate -of AAIGrid`) and CSV files of cell centres
+ * with lat, lng and population columns (e.g. from `gdal2xyz`). Cells are in degrees, north up.
+ */
+export class PopulationGrid {
+  private values: Float32Array | null = null;
+  private grid: GridInfo | null = null;
+
+  /**
+   * Load a grid, replacing the current one. Returns false (and keeps no grid) if the file
+   * cannot be read.
+   */
+  load(filePath: string): boolean {
+    try {
+      const text = fs.readFileSync(filePath, 'utf8');
+      const { grid, values } = /\.csv$/i.test(filePath) ? parseCsvGrid(text) : parseAsciiGrid(text);
+      let total = 0;
+      for (let i = 0; i < values.length; i++) {
+        total += values[i];
+      }
+
+      this.values = values;
+      this.grid = { ...grid, dataset: path.basename(filePath), total_population: Math.round(total) };
+      logger.info(`Population grid loaded: ${grid.ncols}x${grid.nrows} cells`, {
+        path: filePath,
+        cell_size: grid.cell_size,
+        total_population: this.grid.total_population
+      });
+      return true;
+    } catch (error) {
+      logger.warn(`Population grid could not be loaded from ${filePath}; exposure estimates are unavailable`, {
+        error: error instanceof Error ? error.message : error
+      });
+      this.values = null;
+      this.grid = null;
+      return false;
+    }
+  }
+
+  get loaded(): boolean {
+    return this.grid !== null;
+  }
+
+  /**
+   * Extent and totals of the loaded grid
+   */
+  info(): (GridInfo & { south: number; east: number }) | null {
+    if (!this.grid) {
+      return null;
+    }
+    return {
+      ...this.grid,
+      south: this.grid.north - this.grid.nrows * this.grid.cell_size,
+      east: this.grid.west + this.grid.ncols * this.grid.cell_size
+    };
+  }
+
+  /**
+   * Sum the population inside an area. Rings are measured from `center` (the alert location).
+   * Returns null when no grid is loaded or the area lies entirely outside it.
+   */
+  exposure(area: AffectedArea, center: { lat: number; lng: number }): PopulationExposure | null {
+    const grid = this.grid;
+    const values = this.values;
+    if (!grid || !values) {
+      return null;
+    }
+
+    const box = areaBoundingBox(area);
+    const firstCol = Math.max(0, Math.floor((box.min_lng - grid.west) / grid.cell_size));
+    const lastCol = Math.min(grid.ncols - 1, Math.floor((box.max_lng - grid.west) / grid.cell_size));
+    const firstRow = Math.max(0, Math.floor((grid.north - box.max_lat) / grid.cell_size));
+    const lastRow = Math.min(grid.nrows - 1, Math.floor((grid.north - box.min_lat) / grid.cell_size));
+    if (firstCol > lastCol || firstRow > lastRow) {
+      return null;
+    }
+    const cells = (lastCol - firstCol + 1) * (lastRow - firstRow + 1);
+
+    const block = Math.max(1, Math.ceil(Math.sqrt(cells / MAX_TESTS)));
+    const samples = block === 1 && cells <= SUBSAMPLE_BELOW_CELLS ? 4 : 1;
+    const blockSize = block * grid.cell_size;
+
+    const rings = RING_BOUNDS_KM.map((from, index) => ({ from_km: from, to_km: RING_BOUNDS_KM[index + 1], population: 0 }));
+    const densest: PopulationExposure['densest_cells'] = [];
+    let total = 0;
+    let overlaps = false;
+
+    for (let row = firstRow; row <= lastRow; row += block) {
+      for (let col = firstCol; col <= lastCol; col += block) {
+        const north = grid.north - row * grid.cell_size;
+        const west = grid.west + col * grid.cell_size;
+
+        let inside = 0;
+        for (let i = 0; i < samples; i++) {
+          for (let j = 0; j < samples; j++) {
+            if (pointInArea(north - ((i + 0.5) / samples) * blockSize, west + ((j + 0.5) / samples) * blockSize, area)) {
+              inside++;
+            }
+          }
+        }
+        if (inside === 0) {
+          continue;
+        }
+        overlaps = true;
+
+        let population = 0;
+        for (let r = row; r < Math.min(row + block, lastRow + 1); r++) {
+          for (let c = col; c < Math.min(col + block, lastCol + 1); c++) {
+            population += values[r * grid.ncols + c];
+          }
+        }
+        population *= inside / (samples * samples);
+        if (population <= 0) {
+          continue;
+        }
+
+        const lat = north - blockSize / 2;
+        const lng = west + blockSize / 2;
+        total += population;
+        const distance = haversineKm(center.lat, center.lng, lat, lng);
+        rings[rings.findIndex(ring => ring.to_km === undefined || distance < ring.to_km)].population += population;
+
+        if (densest.length < DENSEST_CELLS || population > densest[densest.length - 1].population) {
+          densest.push({ lat: round(lat, 5), lng: round(lng, 5), population });
+          densest.sort((a, b) => b.population - a.population);
+          densest.length = Math.min(densest.length, DENSEST_CELLS);
+        }
+      }
+    }
+
+    // An area smaller than a cell can fall between all sample points; give it the share of the
+    // cell under its centre that its bounding box covers
+    if (!overlaps) {
+      const middle = { lat: (box.min_lat + box.max_lat) / 2, lng: (box.min_lng + box.max_lng) / 2 };
+      const row = Math.floor((grid.north - middle.lat) / grid.cell_size);
+      const col = Math.floor((middle.lng - grid.west) / grid.cell_size);
+      if (row < 0 || row >= grid.nrows || col < 0 || col >= grid.ncols) {
+        return null;
+      }
+      const share = Math.min(1, ((box.max_lat - box.min_lat) * (box.max_lng - box.min_lng)) / (grid.cell_size * grid.cell_size));
+      total = values[row * grid.ncols + col] * share;
+      rings[0].population = total;
+      if (total > 0) {
+        densest.push({ lat: round(middle.lat, 5), lng: round(middle.lng, 5), population: total });
+      }
+    }
+
+    return {
+      total: Math.round(total),
+      dataset: grid.dataset,
+      area: area.type === 'Circle' ? 'circle' : 'polygon',
+      radius_m: area.type === 'Circle' ? area.radius_m : undefined,
+      coverage: round(this.coverage(area, box), 2),
+      rings: rings
+        .filter(ring => ring.population > 0)
+        .map(ring => ({ ...ring, population: Math.round(ring.population) })),
+      densest_cells: densest.map(cell => ({ ...cell, population: Math.round(cell.population) }))
+    };
+  }
+
+  /**
+   * Share of the area inside the grid, from a 32x32 lattice over its bounding box. An area far
+   * larger than the grid can come out as 0 even though part of it is covered.
+   */
+  private coverage(area: AffectedArea, box: BoundingBox): number {
+    const grid = this.grid!;
+    const south = grid.north - grid.nrows * grid.cell_size;
+    const east = grid.west + grid.ncols * grid.cell_size;
+    let inArea = 0;
+    let inGrid = 0;
+
+    for (let i = 0; i < 32; i++) {
+      for (let j = 0; j < 32; j++) {
+        const lat = box.min_lat + ((i + 0.5) / 32) * (box.max_lat - box.min_lat);
+        const lng = box.min_lng + ((j + 0.5) / 32) * (box.max_lng - box.min_lng);
+        if (pointInArea(lat, lng, area)) {
+          inArea++;
+          if (lat >= south && lat <= grid.north && lng >= grid.west && lng <= east) {
+            inGrid++;
+          }
+        }
+      }
+    }
+
+    // A tiny area can miss every lattice point; judge it by its centre instead
+    if (inArea === 0) {
+      const lat = (box.min_lat + box.max_lat) / 2;
+      const lng = (box.min_lng + box.max_lng) / 2;
+      return lat >= south && lat <= grid.north && lng >= grid.west && lng <= east ? 1 : 0;
+    }
+    return inGrid / inArea;
+  }
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * ESRI ASCII grid: a header (ncols, nrows, xllcorner/xllcenter, yllcorner/yllcenter, cellsize,
+ * optional NODATA_value) followed by rows of values from north to south
+ */
+function parseAsciiGrid(text: string): { grid: Omit<GridInfo, 'dataset' | 'total_population'>; values: Float32Array } {
+  const tokens = /\S+/g;
+  const header: Record<string, number> = {};
+  let token: RegExpExecArray | null;
+  let position = 0;
+
+  // Header lines are "key value" until the first numeric token
+  while ((token = tokens.exec(text)) !== null && /^[A-Za-z_]+$/.test(token[0])) {
+    const value = tokens.exec(text);
+    header[token[0].toLowerCase()] = Number(value?.[0]);
+    position = tokens.lastIndex;
+  }
+  tokens.lastIndex = position;
+
+  const { ncols, nrows, cellsize } = header;
+  if (!Number.isInteger(ncols) || !Number.isInteger(nrows) || ncols <= 0 || nrows <= 0 || !(cellsize > 0)) {
+    throw new Error('ASCII grid header needs ncols, nrows and cellsize');
+  }
+  if (ncols * nrows > MAX_CELLS) {
+    throw new Error(`Grid has ${ncols * nrows} cells; at most ${MAX_CELLS} are supported`);
+  }
+  const west = header.xllcorner ?? (header.xllcenter !== undefined ? header.xllcenter - cellsize / 2 : NaN);
+  const south = header.yllcorner ?? (header.yllcenter !== undefined ? header.yllcenter - cellsize / 2 : NaN);
+  if (!Number.isFinite(west) || !Number.isFinite(south)) {
+    throw new Error('ASCII grid header needs xllcorner/xllcenter and yllcorner/yllcenter');
+  }
+
+  const nodata = header.nodata_value;
+  const values = new Float32Array(ncols * nrows);
+  let index = 0;
+  while (index < values.length && (token = tokens.exec(text)) !== null) {
+    const value = Number(token[0]);
+    values[index++] = Number.isFinite(value) && value > 0 && value !== nodata ? value : 0;
+  }
+  if (index < values.length) {
+    throw new Error(`ASCII grid has ${index} values; the header promises ${values.length}`);
+  }
+
+  return { grid: { ncols, nrows, west, north: south + nrows * cellsize, cell_size: cellsize }, values };
+}
+
+/**
+ * CSV of cell centres with a header naming lat/latitude, lng/lon/longitude and
+ * population/pop/value columns. The cell size is POPULATION_GRID_CELL_SIZE (degrees) or the
+ * smallest spacing between centres.
+ */
+function parseCsvGrid(text: string): { grid: Omit<GridInfo, 'dataset' | 'total_population'>; values: Float32Array } {
+  const lines = text.split(/\r?\n/).filter(line => line.trim());
+  const columns = (lines.shift() || '').split(',').map(column => column.trim().toLowerCase());
+  const latIndex = columns.findIndex(column => column === 'lat' || column === 'latitude' || column === 'y');
+  const lngIndex = columns.findIndex(column => ['lng', 'lon', 'long', 'longitude', 'x'].includes(column));
+  const popIndex = columns.findIndex(column => ['population', 'pop', 'value', 'count'].includes(column));
+  if (latIndex === -1 || lngIndex === -1 || popIndex === -1) {
+    throw new Error('CSV grid needs lat, lng and population columns');
+  }
+
+  const points: Array<[number, number, number]> = [];
+  lines.forEach(line => {
+    const fields = line.split(',');
+    const lat = Number(fields[latIndex]);
+    const lng = Number(fields[lngIndex]);
+    const population = Number(fields[popIndex]);
+    if (Number.isFinite(lat) && Number.isFinite(lng) && Number.isFinite(population) && population > 0) {
+      points.push([lat, lng, population]);
+    }
+  });
+  if (points.length === 0) {
+    throw new Error('CSV grid has no populated cells');
+  }
+
+  const cellSize = Number(process.env.POPULATION_GRID_CELL_SIZE) || smallestSpacing(points);
+  const minLat = Math.min(...points.map(point => point[0]));
+  const maxLat = Math.max(...points.map(point => point[0]));
+  const minLng = Math.min(...points.map(point => point[1]));
+  const maxLng = Math.max(...points.map(point => point[1]));
+  const ncols = Math.round((maxLng - minLng) / cellSize) + 1;
+  const nrows = Math.round((maxLat - minLat) / cellSize) + 1;
+  if (ncols * nrows > MAX_CELLS) {
+    throw new Error(`Grid has ${ncols * nrows} cells; at most ${MAX_CELLS} are supported`);
+  }
+
+  // Centres are snapped to the nearest cell, so float noise in the coordinates is harmless
+  const values = new Float32Array(ncols * nrows);
+  points.forEach(([lat, lng, population]) => {
+    values[Math.round((maxLat - lat) / cellSize) * ncols + Math.round((lng - minLng) / cellSize)] += population;
+  });
+
+  return { grid: { ncols, nrows, west: minLng - cellSize / 2, north: maxLat + cellSize / 2, cell_size: cellSize }, values };
+}
+
+function smallestSpacing(points: Array<[number, number, number]>): number {
+  let smallest = Infinity;
+  [0, 1].forEach(axis => {
+    const coordinates = Array.from(new Set(points.map(point => point[axis]))).sort((a, b) => a - b);
+    for (let i = 1; i < coordinates.length; i++) {
+      const gap = coordinates[i] - coordinates[i - 1];
+      if (gap > 1e-9 && gap < smallest) {
+        smallest = gap;
+      }
+    }
+  });
+  if (!Number.isFinite(smallest)) {
+    throw new Error('CSV grid cell size cannot be inferred from a single cell; set POPULATION_GRID_CELL_SIZE');
+  }
+  return smallest;
+}
+
+// Export singleton instance
+export const populationGrid = new PopulationGrid();
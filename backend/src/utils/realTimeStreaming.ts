@@ -7,7 +7,7 @@ import { validateAgentToken } from './descope';
 
 export interface StreamingMessage {
   id: string;
-  type: 'agent_start' | 'agent_progress' | 'agent_complete' | 'workflow_complete' | 'error';
+  type: 'agent_start' | 'agent_progress' | 'agent_complete' | 'workflow_complete' | 'workflow_status' | 'error';
   agent: string;
   data: any;
   timestamp: Date;
@@ -114,6 +114,14 @@ export class RealTimeStreamingService {
         });
       });
 
+      socket.on('subscribe_workflow_updates', (workflowId) => {
+        socket.join(`workflow_${workflowId}`);
+        logger.info('Client subscribed to workflow updates', { 
+          socketId: socket.id, 
+          workflowId 
+        });
+      });
+
       socket.on('disconnect', () => {
         logger.info('Client disconnected from real-time stream', { 
           socketId: socket.id 
@@ -411,6 +419,22 @@ export class RealTimeStreamingService {
     return data;
   }
 
+  /**
+   * Stream a workflow lifecycle transition to clients subscribed to that workflow
+   */
+  emitWorkflowEvent(workflowId: string, event: string, data: any = {}) {
+    const message: StreamingMessage = {
+      id: `${workflowId}_${event}_${Date.now()}`,
+      type: 'workflow_status',
+      agent: 'orchestrator',
+      data: this.sanitizeDataForStreaming({ workflow_id: workflowId, event, ...data }),
+      timestamp: new Date()
+    };
+
+    this.io.to(`workflow_${workflowId}`).emit('workflow_update', message);
+    logger.debug('Emitted workflow event', { workflowId, event });
+  }
+
   /**
    * Get active streaming sessions
    */
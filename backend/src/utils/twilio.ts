@@ -122,6 +122,25 @@ class TwilioService {
     };
   }
 
+  /**
+   * Check the X-Twilio-Signature of an inbound webhook. `url` must be the full URL Twilio
+   * requested (as configured in the Twilio console) and `params` the POSTed form fields.
+   * Without an auth token nothing can be checked, so every request is rejected.
+   */
+  validateWebhookSignature(signature: string | undefined, url: string, params: Record<string, any>): boolean {
+    const authToken = process.env.TWILIO_AUTH_TOKEN;
+    if (!authToken || !signature) {
+      return false;
+    }
+
+    try {
+      return twilio.validateRequest(authToken, signature, url, params);
+    } catch (error) {
+      logger.warn('Twilio signature check failed:', error);
+      return false;
+    }
+  }
+
   isServiceConfigured(): boolean {
     return this.isConfigured;
   }
@@ -0,0 +1,151 @@
+export interface XmlElement {
+  name: string; // Local name, namespace prefix removed
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string; // Trimmed text directly inside the element
+}
+
+const MAX_DEPTH = 64;
+
+const ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g, (match, entity: string) => {
+    if (entity.startsWith('#x')) {
+      return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    }
+    if (entity.startsWith('#')) {
+      return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    }
+    return ENTITIES[entity] ?? match;
+  });
+}
+
+function localName(name: string): string {
+  const colon = name.indexOf(':');
+  return colon === -1 ? name : name.slice(colon + 1);
+}
+
+/**
+ * Minimal non-validating XML reader for the feeds we ingest (CAP, Atom, RSS). Elements,
+ * attributes, text, CDATA and the predefined/numeric entities are supported. Document type
+ * declarations are rejected so entity expansion cannot be abused.
+ */
+export function parseXml(xml: string): XmlElement {
+  let position = 0;
+  const stack: Array<XmlElement & { textParts: string[] }> = [];
+  let root: XmlElement | null = null;
+
+  const fail = (message: string): never => {
+    throw new Error(`${message} at offset ${position}`);
+  };
+
+  while (position < xml.length) {
+    const next = xml.indexOf('<', position);
+    const text = xml.slice(position, next === -1 ? xml.length : next);
+    if (text.trim()) {
+      if (stack.length === 0) {
+        fail('Text outside the root element');
+      }
+      stack[stack.length - 1].textParts.push(decodeEntities(text));
+    }
+    if (next === -1) {
+      break;
+    }
+    position = next;
+
+    if (xml.startsWith('<?', position)) {
+      const end = xml.indexOf('?>', position);
+      position = end === -1 ? fail('Unterminated processing instruction') : end + 2;
+    } else if (xml.startsWith('<!--', position)) {
+      const end = xml.indexOf('-->', position);
+      position = end === -1 ? fail('Unterminated comment') : end + 3;
+    } else if (xml.startsWith('<![CDATA[', position)) {
+      const end = xml.indexOf(']]>', position);
+      if (end === -1 || stack.length === 0) {
+        fail('Unexpected CDATA section');
+      }
+      stack[stack.length - 1].textParts.push(xml.slice(position + 9, end));
+      position = end + 3;
+    } else if (xml.startsWith('<!', position)) {
+      fail('Document type declarations are not supported');
+    } else if (xml.startsWith('</', position)) {
+      const end = xml.indexOf('>', position);
+      if (end === -1) {
+        fail('Unterminated closing tag');
+      }
+      const name = localName(xml.slice(position + 2, end).trim());
+      const element = stack.pop();
+      if (!element || element.name !== name) {
+        fail(`Unexpected closing tag </${name}>`);
+      }
+      position = end + 1;
+      finish(element!);
+    } else {
+      const match = /^<([A-Za-z_][\w.:-]*)((?:\s+[\w.:-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/.exec(xml.slice(position));
+      if (!match) {
+        fail('Malformed tag');
+      }
+      const attributes: Record<string, string> = {};
+      const attributePattern = /([\w.:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+      let attribute: RegExpExecArray | null;
+      while ((attribute = attributePattern.exec(match![2])) !== null) {
+        attributes[attribute[1]] = decodeEntities(attribute[2] ?? attribute[3]);
+      }
+
+      const element = { name: localName(match![1]), attributes, children: [], text: '', textParts: [] as string[] };
+      if (stack.length > 0) {
+        stack[stack.length - 1].children.push(element);
+      } else if (root) {
+        fail('Multiple root elements');
+      } else {
+        root = element;
+      }
+      position += match![0].length;
+
+      if (match![3]) {
+        finish(element);
+      } else {
+        if (stack.length >= MAX_DEPTH) {
+          fail('Document is nested too deeply');
+        }
+        stack.push(element);
+      }
+    }
+  }
+
+  if (stack.length > 0) {
+    fail(`Unclosed element <${stack[stack.length - 1].name}>`);
+  }
+  if (!root) {
+    fail('Document has no root element');
+  }
+  return root!;
+
+  function finish(element: XmlElement & { textParts?: string[] }) {
+    element.text = (element.textParts || []).join('').trim();
+    delete element.textParts;
+  }
+}
+
+export function childElements(element: XmlElement | undefined, name: string): XmlElement[] {
+  return element ? element.children.filter(child => child.name === name) : [];
+}
+
+export function childElement(element: XmlElement | undefined, name: string): XmlElement | undefined {
+  return element?.children.find(child => child.name === name);
+}
+
+export function childText(element: XmlElement | undefined, name: string): string | undefined {
+  const child = childElement(element, name);
+  return child && child.text !== '' ? child.text : undefined;
+}
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}